@@ -0,0 +1,11 @@
+-- Enable pgvector and store real text-embedding-3-large vectors (3072 dimensions)
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- AlterTable
+ALTER TABLE "public"."VectorEmbedding" ADD COLUMN "embedding" vector(3072);
+
+-- CreateIndex
+-- pgvector ANN indexes only accept up to 2000 dimensions on vector, so index the halfvec cast
+-- (pgvector >= 0.7). searchChunks orders by the same expression so the planner can use it.
+CREATE INDEX "VectorEmbedding_embedding_hnsw_idx" ON "public"."VectorEmbedding"
+  USING hnsw ((embedding::halfvec(3072)) halfvec_cosine_ops);
@@ -0,0 +1,7 @@
+-- AlterTable
+-- Uploaded files are indexed per chat session; ingested corpus rows keep sessionId NULL
+ALTER TABLE "public"."VectorEmbedding" ADD COLUMN "sessionId" TEXT;
+ALTER TABLE "public"."VectorEmbedding" ADD COLUMN "metadata" JSONB NOT NULL DEFAULT '{}';
+
+-- CreateIndex
+CREATE INDEX "VectorEmbedding_sessionId_idx" ON "public"."VectorEmbedding"("sessionId");
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "public"."Progress" (
+    "id" TEXT NOT NULL,
+    "skillKey" TEXT NOT NULL,
+    "score" INTEGER NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Progress_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ProgressEvent" (
+    "id" TEXT NOT NULL,
+    "skillKey" TEXT NOT NULL,
+    "score" INTEGER NOT NULL,
+    "delta" INTEGER NOT NULL,
+    "notes" TEXT,
+    "source" TEXT NOT NULL,
+    "sessionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProgressEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Progress_skillKey_key" ON "public"."Progress"("skillKey");
+
+-- CreateIndex
+CREATE INDEX "ProgressEvent_skillKey_createdAt_idx" ON "public"."ProgressEvent"("skillKey", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."ProgressEvent" ADD CONSTRAINT "ProgressEvent_skillKey_fkey" FOREIGN KEY ("skillKey") REFERENCES "public"."Progress"("skillKey") ON DELETE CASCADE ON UPDATE CASCADE;
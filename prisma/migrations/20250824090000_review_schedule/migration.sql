@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."ReviewSchedule" (
+    "id" TEXT NOT NULL,
+    "skillKey" TEXT NOT NULL,
+    "easeFactor" DOUBLE PRECISION NOT NULL DEFAULT 2.5,
+    "intervalDays" INTEGER NOT NULL DEFAULT 0,
+    "repetitions" INTEGER NOT NULL DEFAULT 0,
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "lastReviewedAt" TIMESTAMP(3),
+    "lastQuality" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReviewSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewSchedule_skillKey_key" ON "public"."ReviewSchedule"("skillKey");
+
+-- CreateIndex
+CREATE INDEX "ReviewSchedule_dueAt_idx" ON "public"."ReviewSchedule"("dueAt");
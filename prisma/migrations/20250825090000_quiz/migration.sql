@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "public"."Quiz" (
+    "id" TEXT NOT NULL,
+    "skillKey" TEXT NOT NULL,
+    "sessionId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "length" INTEGER NOT NULL,
+    "correctCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Quiz_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."QuizQuestion" (
+    "id" TEXT NOT NULL,
+    "quizId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "code" TEXT,
+    "choices" JSONB NOT NULL DEFAULT '[]',
+    "answer" TEXT NOT NULL,
+    "rubric" TEXT,
+    "sources" JSONB NOT NULL DEFAULT '[]',
+    "userAnswer" TEXT,
+    "correct" BOOLEAN,
+    "score" DOUBLE PRECISION,
+    "feedback" TEXT,
+    "answeredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuizQuestion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Quiz_skillKey_idx" ON "public"."Quiz"("skillKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuizQuestion_quizId_position_key" ON "public"."QuizQuestion"("quizId", "position");
+
+-- AddForeignKey
+ALTER TABLE "public"."QuizQuestion" ADD CONSTRAINT "QuizQuestion_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "public"."Quiz"("id") ON DELETE CASCADE ON UPDATE CASCADE;
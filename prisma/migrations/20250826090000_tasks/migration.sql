@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "public"."Task" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "instructions" TEXT NOT NULL,
+    "acceptanceCriteria" JSONB NOT NULL DEFAULT '[]',
+    "skillKey" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'assigned',
+    "evidence" TEXT,
+    "notes" TEXT,
+    "sourceMessageId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "submittedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Task_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Task_sessionId_status_idx" ON "public"."Task"("sessionId", "status");
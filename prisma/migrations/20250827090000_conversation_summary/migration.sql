@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "public"."ConversationSummary" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "summary" TEXT NOT NULL,
+    "topics" JSONB NOT NULL DEFAULT '[]',
+    "skillProgress" JSONB NOT NULL DEFAULT '[]',
+    "learningStyle" JSONB NOT NULL DEFAULT '{}',
+    "coversUntilMessageId" TEXT,
+    "coversUntil" TIMESTAMP(3) NOT NULL,
+    "messageCount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ConversationSummary_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConversationSummary_sessionId_version_key" ON "public"."ConversationSummary"("sessionId", "version");
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "public"."IngestRun" (
+    "id" TEXT NOT NULL,
+    "sources" JSONB NOT NULL DEFAULT '[]',
+    "full" BOOLEAN NOT NULL DEFAULT false,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "stats" JSONB NOT NULL DEFAULT '{}',
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "IngestRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."DocumentState" (
+    "id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "title" TEXT,
+    "contentHash" TEXT NOT NULL,
+    "chunkCount" INTEGER NOT NULL,
+    "lastRunId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DocumentState_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentState_source_documentId_key" ON "public"."DocumentState"("source", "documentId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."DocumentState" ADD COLUMN "version" TEXT;
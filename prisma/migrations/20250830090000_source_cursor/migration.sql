@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "public"."SourceCursor" (
+    "id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SourceCursor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SourceCursor_source_key_key" ON "public"."SourceCursor"("source", "key");
@@ -0,0 +1,28 @@
+-- AlterTable
+-- Chunk metadata the retriever filters on; connector-specific extras (line ranges, upload pages) stay in metadata
+ALTER TABLE "public"."VectorEmbedding" ADD COLUMN "documentId" TEXT;
+ALTER TABLE "public"."VectorEmbedding" ADD COLUMN "chunkIndex" INTEGER;
+ALTER TABLE "public"."VectorEmbedding" ADD COLUMN "title" TEXT;
+ALTER TABLE "public"."VectorEmbedding" ADD COLUMN "url" TEXT;
+ALTER TABLE "public"."VectorEmbedding" ADD COLUMN "path" TEXT;
+ALTER TABLE "public"."VectorEmbedding" ADD COLUMN "headingPath" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "public"."VectorEmbedding" ADD COLUMN "language" TEXT;
+ALTER TABLE "public"."VectorEmbedding" ADD COLUMN "skillTags" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "public"."VectorEmbedding" ADD COLUMN "lastModified" TIMESTAMP(3);
+
+-- Backfill from what ingest and uploads already wrote to metadata; sourceId is `${documentId}#${chunkIndex}`
+UPDATE "public"."VectorEmbedding" SET
+    "documentId" = COALESCE(metadata->>'documentId', CASE WHEN "sourceId" ~ '#\d+$' THEN regexp_replace("sourceId", '#\d+$', '') END),
+    "chunkIndex" = COALESCE((metadata->>'chunkIndex')::INTEGER, (substring("sourceId" from '#(\d+)$'))::INTEGER),
+    "title" = COALESCE(metadata->>'title', metadata->>'fileName'),
+    "url" = metadata->>'url',
+    "path" = COALESCE(metadata->>'path', metadata->>'fileName'),
+    "headingPath" = CASE WHEN jsonb_typeof(metadata->'headingPath') = 'array'
+        THEN ARRAY(SELECT jsonb_array_elements_text(metadata->'headingPath')) ELSE ARRAY[]::TEXT[] END,
+    "lastModified" = COALESCE(metadata->>'lastModified', metadata->>'lastEdited')::TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "VectorEmbedding_documentId_idx" ON "public"."VectorEmbedding"("documentId");
+CREATE INDEX "VectorEmbedding_language_idx" ON "public"."VectorEmbedding"("language");
+CREATE INDEX "VectorEmbedding_lastModified_idx" ON "public"."VectorEmbedding"("lastModified");
+CREATE INDEX "VectorEmbedding_skillTags_idx" ON "public"."VectorEmbedding" USING GIN ("skillTags");
@@ -0,0 +1,3 @@
+-- AlterTable
+-- Chunk layout a document was last written with; existing states predate the chunk metadata columns
+ALTER TABLE "public"."DocumentState" ADD COLUMN "schemaVersion" INTEGER NOT NULL DEFAULT 1;
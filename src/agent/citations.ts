@@ -0,0 +1,85 @@
+/**
+ * Purpose: Number retrieved chunks for the prompt and turn the model's [n] markers back into citations.
+ * Inputs: RelevantDocuments that made it into the prompt, assistant reply text
+ * Outputs: Citation[] (source, sourceId, title, url/path, snippet) for the markers the reply actually uses
+ * Example: const {text, citations} = extractCitations('Use gap [2].', sources)
+ */
+import type {RelevantDocument} from './retrieval.js'
+
+export interface Citation {
+  number: number // the [n] marker in the prompt and in the reply
+  source: string // notion, github, figma, internal, local, upload
+  sourceId: string
+  title: string
+  url?: string | undefined
+  path?: string | undefined
+  snippet: string
+}
+
+const SNIPPET_CHARS = 200
+
+// [2], [1, 3] or [1,3]; not part of an identifier such as items[1]
+const MARKER = /( ?)(?<![\w\]`])\[(\d{1,2}(?:\s*,\s*\d{1,2})*)\](?!\()/g
+// Code is left alone: [0] in a snippet is an index, not a citation
+const CODE = /```[\s\S]*?(?:```|$)|`[^`\n]*`/g
+
+const text = (value: unknown): string | undefined => (typeof value === 'string' && value.trim() ? value : undefined)
+
+const snippet = (chunk: string): string => {
+  const flat = chunk.replace(/\s+/g, ' ').trim()
+  return flat.length > SNIPPET_CHARS ? `${flat.slice(0, SNIPPET_CHARS).replace(/\s\S*$/, '')}…` : flat
+}
+
+/**
+ * What a numbered prompt chunk points at. Titles and locations come from the chunk's columns
+ * (older rows: its metadata); uploads are named by file and page.
+ */
+export const citationFor = (doc: RelevantDocument, number: number): Citation => {
+  const metadata = doc.metadata ?? {}
+  const fileName = text(metadata.fileName)
+  const page = typeof metadata.page === 'number' ? metadata.page : undefined
+  const path = text(doc.path) ?? text(metadata.path) ?? fileName
+  const lines = typeof metadata.startLine === 'number' && typeof metadata.endLine === 'number'
+    ? `#L${metadata.startLine}-L${metadata.endLine}`
+    : ''
+  const url = text(doc.url) ?? text(metadata.url)
+  return {
+    number,
+    source: doc.source,
+    sourceId: doc.sourceId,
+    title: (fileName && page !== undefined ? `${fileName} p.${page}` : undefined) ?? text(doc.title) ?? text(metadata.title) ?? fileName ?? doc.sourceId,
+    // GitHub permalinks point at the exact lines the chunk came from
+    url: url && lines && doc.source === 'github' ? `${url}${lines}` : url,
+    path,
+    snippet: snippet(doc.chunk),
+  }
+}
+
+/**
+ * Citations the reply uses, by number. Markers naming a source that wasn't in the
+ * prompt are dropped from the text so the learner never sees a dangling reference.
+ */
+export const extractCitations = (reply: string, sources: Citation[]): {text: string, citations: Citation[]} => {
+  const byNumber = new Map(sources.map((source) => [source.number, source]))
+  const cited = new Set<number>()
+
+  // A dropped marker takes its leading space with it, so no "word ." is left behind
+  const replaceMarkers = (prose: string): string => prose.replace(MARKER, (_match, space: string, list: string) => {
+    const numbers = list.split(',').map((part) => Number(part.trim())).filter((number) => byNumber.has(number))
+    numbers.forEach((number) => cited.add(number))
+    return numbers.length > 0 ? `${space}[${[...new Set(numbers)].join(', ')}]` : ''
+  })
+
+  let result = ''
+  let last = 0
+  for (const code of reply.matchAll(CODE)) {
+    result += replaceMarkers(reply.slice(last, code.index)) + code[0]
+    last = code.index + code[0].length
+  }
+  result += replaceMarkers(reply.slice(last))
+
+  return {
+    text: result,
+    citations: [...cited].sort((a, b) => a - b).map((number) => byNumber.get(number)!),
+  }
+}
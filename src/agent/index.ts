@@ -1,84 +1,174 @@
 /**
- * Purpose: Context-aware OpenAI-backed reply generator using RAG retrieval and file analysis.
+ * Purpose: Context-aware reply generator using RAG retrieval, file analysis and the routed chat model.
  * Inputs: userMessage string, sessionId string, files array (optional)
- * Outputs: assistant reply string
- * Example: const text = await generateAssistantReply('hello', sessionId, files)
+ * Outputs: assistant reply text, the step it assigns, the sources it cites, prompt budget metadata (or token deltas when streaming)
+ * Example: const {text} = await generateAssistantReply('hello', sessionId, files)
  */
 import {buildSystemPrompt} from './policy.js'
-import {buildContext, formatContextForPrompt, needsContextEnrichment} from './retrieval.js'
+import {buildContext, getCurrentTask, type DocumentFilters} from './retrieval.js'
+import {assemblePrompt, type PromptMessage, type PromptMetadata} from './prompt.js'
+import {extractPdfPages, indexPdfUpload} from './uploads.js'
+import {createTaskStreamFilter, extractTask, type TaskDraft} from './tasks.js'
+import {extractCitations, type Citation} from './citations.js'
+import {analyzeUploads, formatReport} from '../analysis/report.js'
+import {formatVerification, verifyUploads} from '../analysis/verifier.js'
+import {formatTokenReport, lintUploads} from '../analysis/tokenLint.js'
+import {isZip, languageFor} from '../analysis/files.js'
+import {routeTask} from '../llm/provider.js'
 import {env} from '../env.js'
 
-export const generateAssistantReply = async (
-  userMessage:string, 
-  sessionId?:string, 
-  files?:any[]
-):Promise<string>=>{
-  try{
-    if (!env.OPENAI_API_KEY) {
-      return 'Tiny step: create an index.html with <h1>Hello</h1> in a folder. Then open it in your browser.'
-    }
-    
-    const {default: OpenAI} = await import('openai')
-    const openai = new OpenAI({apiKey: env.OPENAI_API_KEY})
-    const baseSystem = buildSystemPrompt()
-    const content = userMessage || 'Say hello briefly.'
+const FALLBACK_REPLY = 'Tiny step: create an index.html with <h1>Hello</h1> in a folder. Then open it in your browser.'
 
-    // Build enhanced context if needed and sessionId is provided
-    let enhancedPrompt = content
-    if (sessionId && needsContextEnrichment(userMessage)) {
-      const context = await buildContext(userMessage, sessionId)
-      const contextPrompt = formatContextForPrompt(context, userMessage)
-      enhancedPrompt = contextPrompt
-    }
+export interface AssistantReply {
+  text: string
+  prompt?: PromptMetadata | undefined // what the token budget kept and dropped
+  task?: TaskDraft | undefined // step assigned by this reply (its ```task block is removed from text)
+  taskExplicit?: boolean | undefined // task came from a ```task block; prose steps never replace an open one
+  citations?: Citation[] | undefined // retrieved chunks the reply cites with [n] markers
+}
 
-    // Prepare messages array
-    const messages: any[] = [
-      {role:'system',content:baseSystem},
-    ]
+export interface StreamReplyOptions {
+  onToken: (delta: string) => void
+  signal?: AbortSignal | undefined
+  filters?: DocumentFilters | undefined // narrow retrieved docs (language, repo, path, skills, last-modified)
+}
 
-    // If files are uploaded, analyze them first
-    if (files && files.length > 0) {
-      const fileAnalysis = await analyzeFiles(files, openai)
-      if (fileAnalysis) {
-        enhancedPrompt = `File Analysis:\n${fileAnalysis}\n\nUser Question: ${enhancedPrompt}`
-      }
-    }
+/**
+ * Assemble the chat messages: policy, retrieved context, real prior turns and file analysis
+ */
+const prepareMessages = async (
+  userMessage: string,
+  sessionId: string | undefined,
+  files: any[] | undefined,
+  filters: DocumentFilters = {}
+): Promise<{messages: PromptMessage[], metadata: PromptMetadata, sources: Citation[]}> => {
+  const content = userMessage || 'Say hello briefly.'
+
+  // Analyze files first: uploaded PDFs are indexed for the session, so retrieval below can find them
+  const fileAnalysis = files && files.length > 0 ? await analyzeFiles(files, sessionId) : ''
+  const context = sessionId ? await buildContext(content, sessionId, filters) : undefined
+
+  return assemblePrompt({
+    policy: buildSystemPrompt(),
+    context,
+    userMessage: content,
+    fileAnalysis: fileAnalysis || undefined,
+    budget: env.PROMPT_TOKEN_BUDGET,
+  })
+}
 
-    messages.push({role:'user',content:enhancedPrompt})
+export const generateAssistantReply = async (
+  userMessage:string, 
+  sessionId?:string, 
+  files?:any[],
+  filters?:DocumentFilters
+):Promise<AssistantReply>=>{
+  try{
+    const {provider, model} = routeTask('chat')
+    const {messages, metadata, sources} = await prepareMessages(userMessage, sessionId, files, filters)
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const completion = await provider.chat({
+      model,
       messages,
       temperature: 0.3,
-      max_tokens: 500, // Increased for file analysis responses
+      maxTokens: 500, // Increased for file analysis responses
     })
     
-    const text = completion.choices?.[0]?.message?.content?.trim() || 'Okay.'
-    return text
+    const {text, task, explicit} = extractTask(completion.trim())
+    const cited = extractCitations(text, sources)
+    return {text: cited.text || 'Okay.', prompt: metadata, task, taskExplicit: explicit, citations: cited.citations}
   }catch(_err){
     const err = _err as any
     // Safe structured log: no secrets, just metadata
     // eslint-disable-next-line no-console
-    console.error('openai_error', {name:err?.name, status:err?.status, code:err?.code})
-    return 'Tiny step: create an index.html with <h1>Hello</h1> in a folder. Then open it in your browser.'
+    console.error('llm_error', {name:err?.name, status:err?.status, code:err?.code})
+    // No task: an outage must not replace the learner's open step with the canned one
+    return {text: FALLBACK_REPLY}
+  }
+}
+
+/**
+ * Streaming variant of generateAssistantReply: calls onToken for each delta and
+ * resolves with the full text. On abort it resolves with whatever arrived so far.
+ */
+export const streamAssistantReply = async (
+  userMessage: string,
+  sessionId: string | undefined,
+  files: any[] | undefined,
+  options: StreamReplyOptions
+): Promise<AssistantReply> => {
+  let text = ''
+  let prompt: PromptMetadata | undefined
+  let sources: Citation[] = []
+  // The learner never sees the ```task block, whichever client renders the stream
+  const visible = createTaskStreamFilter(options.onToken)
+  // Partial replies (abort, mid-stream error) keep whatever they cited so far
+  const partial = (): AssistantReply => {
+    visible.flush()
+    const cited = extractCitations(extractTask(text.trim()).text, sources)
+    return {text: cited.text, prompt, citations: cited.citations}
+  }
+  try {
+    const {provider, model} = routeTask('chat')
+    const prepared = await prepareMessages(userMessage, sessionId, files, options.filters)
+    const messages = prepared.messages
+    prompt = prepared.metadata
+    sources = prepared.sources
+
+    await provider.streamChat({
+      model,
+      messages,
+      temperature: 0.3,
+      maxTokens: 500,
+      signal: options.signal,
+    }, (delta)=>{
+      text += delta
+      visible.push(delta)
+    })
+    visible.flush()
+    const reply = extractTask(text.trim())
+    const cited = extractCitations(reply.text, sources)
+    return {text: cited.text || 'Okay.', prompt, task: reply.task, taskExplicit: reply.explicit, citations: cited.citations}
+  }catch(_err){
+    if (options.signal?.aborted) return partial()
+    const err = _err as any
+    console.error('llm_stream_error', {name:err?.name, status:err?.status, code:err?.code})
+    if (text) return partial()
+    options.onToken(FALLBACK_REPLY)
+    return {text: FALLBACK_REPLY, prompt}
   }
 }
 
 /**
- * Analyze uploaded files using OpenAI's vision API and text extraction
+ * Analyze uploaded files: static analysis (and verification against the open step) for code,
+ * vision for images, text extraction for PDFs
  */
-async function analyzeFiles(files: any[], openai: any): Promise<string> {
+async function analyzeFiles(files: any[], sessionId?: string): Promise<string> {
   try {
     const analyses: string[] = []
     
+    // Source files and zipped projects go through the offline analyzers as one report
+    const sourceUploads = files.filter((file) => isZip(file) || languageFor(file.originalname))
+    if (sourceUploads.length > 0) {
+      const report = formatReport(analyzeUploads(sourceUploads))
+      if (report) analyses.push(`🧪 ${report}`)
+      const tokenReport = formatTokenReport(await lintUploads(sourceUploads))
+      if (tokenReport) analyses.push(`🎨 ${tokenReport}`)
+    }
+
+    // Run the page against the open step's acceptance criteria so "it works" is checked, not claimed
+    const task = sourceUploads.length > 0 && sessionId ? await getCurrentTask(sessionId) : undefined
+    if (task && task.acceptanceCriteria.length > 0) {
+      analyses.push(`✔️ ${formatVerification(await verifyUploads(sourceUploads, task.acceptanceCriteria))}`)
+    }
+    
     for (const file of files) {
       if (file.mimetype.startsWith('image/')) {
         // Analyze image using vision API
-        const imageAnalysis = await analyzeImage(file, openai)
+        const imageAnalysis = await analyzeImage(file)
         analyses.push(`📷 ${file.originalname}: ${imageAnalysis}`)
       } else if (file.mimetype === 'application/pdf') {
-        // For PDFs, we'll extract text (simplified for now)
-        analyses.push(`📄 ${file.originalname}: PDF document uploaded (text extraction not implemented in this version)`)
+        analyses.push(`📄 ${file.originalname}: ${await analyzePdf(file, sessionId)}`)
       }
     }
     
@@ -90,39 +180,48 @@ async function analyzeFiles(files: any[], openai: any): Promise<string> {
 }
 
 /**
- * Analyze image using OpenAI's vision API
+ * Extract PDF text, index it for the session and give the model a short preview
  */
-async function analyzeImage(file: any, openai: any): Promise<string> {
+async function analyzePdf(file: any, sessionId?: string): Promise<string> {
   try {
-    // Convert buffer to base64
-    const base64Image = file.buffer.toString('base64')
-    
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: 'Analyze this image and describe what you see. If it contains code, HTML, CSS, or design elements, provide detailed feedback and suggestions for improvement. Focus on web development aspects if applicable.'
-            },
-            {
-              type: 'image_url',
-              image_url: {
-                url: `data:${file.mimetype};base64,${base64Image}`
-              }
-            }
-          ]
-        }
-      ],
-      max_tokens: 300
+    const result = sessionId
+      ? await indexPdfUpload(sessionId, file)
+      : {...await extractPdfPages(file.buffer), chunks: 0, indexed: false}
+    const withText = result.pages.filter((page) => page.text)
+    if (withText.length === 0) {
+      return `${result.totalPages} pages, no extractable text (scanned PDF?)`
+    }
+
+    const preview = withText
+      .slice(0, 2)
+      .map((page) => `[p.${page.page}] ${page.text.slice(0, 600)}`)
+      .join('\n')
+    const indexedNote = result.indexed
+      ? `indexed as ${result.chunks} chunks for this session; cite pages as p.N`
+      : 'not indexed (vector store unavailable)'
+    return `${result.totalPages} pages, ${indexedNote}.\n${preview}`
+  } catch (error) {
+    console.error('pdf_analysis_error', {name: (error as Error).name})
+    return 'PDF text extraction failed.'
+  }
+}
+
+/**
+ * Analyze image using the routed vision model
+ */
+async function analyzeImage(file: any): Promise<string> {
+  try {
+    const {provider, model} = routeTask('vision')
+    const analysis = await provider.describeImage({
+      model,
+      prompt: 'Analyze this image and describe what you see. If it contains code, HTML, CSS, or design elements, provide detailed feedback and suggestions for improvement. Focus on web development aspects if applicable.',
+      image: {mimeType: file.mimetype, base64: file.buffer.toString('base64')},
+      maxTokens: 300,
     })
     
-    return response.choices?.[0]?.message?.content?.trim() || 'Image analysis completed.'
+    return analysis || 'Image analysis completed.'
   } catch (error) {
     console.error('image_analysis_error', {name: (error as Error).name})
     return 'Image analysis failed.'
   }
 }
-
@@ -0,0 +1,211 @@
+/**
+ * Purpose: Assemble chat messages (policy, summary, skills, docs, real user/assistant turns) under a token budget.
+ * Inputs: system policy, retrieval context, current user message, optional file analysis
+ * Outputs: OpenAI-style messages, metadata about what was included and dropped, and the numbered sources the model can cite
+ * Example: const {messages, metadata, sources} = assemblePrompt({policy, context, userMessage})
+ */
+import {countTokens} from '../db/chunker.js'
+import {citationFor, type Citation} from './citations.js'
+import {formatTaskForPrompt} from './tasks.js'
+import type {ConversationMessage, RelevantDocument, RetrievalContext} from './retrieval.js'
+
+// Rough per-message framing cost in the chat format (role, separators)
+const MESSAGE_OVERHEAD = 4
+
+export type PromptSectionKey = 'summary' | 'skills' | 'docs' | 'history'
+
+export interface PromptMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface PromptInput {
+  policy: string
+  context?: RetrievalContext | undefined
+  userMessage: string
+  fileAnalysis?: string | undefined
+  budget?: number | undefined
+}
+
+export interface PromptSectionUsage {
+  section: PromptSectionKey
+  included: number
+  dropped: number
+  tokens: number
+  droppedTokens: number
+}
+
+export interface PromptMetadata {
+  budget: number
+  usedTokens: number
+  requiredTokens: number // policy + current step + current question, always sent
+  sections: PromptSectionUsage[]
+  dropped: Array<{section: PromptSectionKey, count: number, tokens: number}>
+}
+
+interface SectionItem {
+  text: string
+  tokens: number
+  message?: ConversationMessage
+}
+
+interface Section {
+  key: PromptSectionKey
+  share: number // first-pass cap as a fraction of the optional budget
+  items: SectionItem[] // in preference order: best doc first, newest turn first
+  taken: number
+  tokens: number
+}
+
+const item = (text: string, message?: ConversationMessage): SectionItem => ({
+  text,
+  tokens: countTokens(text) + MESSAGE_OVERHEAD,
+  ...(message ? {message} : {}),
+})
+
+/**
+ * Uploaded files are labelled by name and page, so the model and the learner can tell them apart
+ */
+const docLabel = (doc: RelevantDocument): string => {
+  const fileName = doc.metadata?.fileName
+  const page = doc.metadata?.page
+  const title = doc.title ?? doc.metadata?.title
+  if (typeof fileName !== 'string') return typeof title === 'string' && title ? `${doc.source} - ${title}` : doc.source
+  return typeof page === 'number' ? `${fileName} p.${page}` : fileName
+}
+
+/**
+ * History without system rows (stored summaries) and without the just-stored current question
+ */
+const historyTurns = (messages: ConversationMessage[], userMessage: string): ConversationMessage[] => {
+  const turns = messages.filter((msg) => msg.role !== 'system' && msg.content.trim())
+  const last = turns[turns.length - 1]
+  if (last && last.role === 'user' && last.content === userMessage) turns.pop()
+  return turns
+}
+
+/**
+ * Take items in order while they fit; stop at the first that doesn't so history stays contiguous
+ */
+const fill = (section: Section, limit: number): number => {
+  let spent = 0
+  while (section.taken < section.items.length) {
+    const next = section.items[section.taken]
+    if (!next || spent + next.tokens > limit) break
+    spent += next.tokens
+    section.tokens += next.tokens
+    section.taken++
+  }
+  return spent
+}
+
+/**
+ * Build the messages array. Policy and the current question are always sent; the rest of the
+ * budget goes to summary → skills → docs → history in priority order. A first pass caps each
+ * section at its share, a second pass hands leftover tokens out in the same order.
+ */
+export const assemblePrompt = (input: PromptInput): {messages: PromptMessage[], metadata: PromptMetadata, sources: Citation[]} => {
+  const budget = input.budget ?? 6000
+  const context = input.context
+  const question = input.fileAnalysis
+    ? `File Analysis:\n${input.fileAnalysis}\n\nUser Question: ${input.userMessage}`
+    : input.userMessage
+  // The open step is always sent with the policy so the coach never loses track of it
+  const policy = context?.currentTask ? `${input.policy}\n\n${formatTaskForPrompt(context.currentTask)}` : input.policy
+  const requiredTokens = countTokens(policy) + countTokens(question) + MESSAGE_OVERHEAD * 2
+
+  const sections: Section[] = [
+    {
+      key: 'summary',
+      share: 0.1,
+      items: context?.summary ? [item(`CONVERSATION SUMMARY: ${context.summary}`)] : [],
+      taken: 0,
+      tokens: 0,
+    },
+    {
+      key: 'skills',
+      share: 0.05,
+      items: context?.skillProgress && context.skillProgress.length > 0
+        ? [item(`SKILL PROGRESS: ${context.skillProgress
+          .map((skill) => `${skill.skill}: ${skill.score}% (${skill.notes || 'no notes'})`)
+          .join(', ')}`)]
+        : [],
+      taken: 0,
+      tokens: 0,
+    },
+    {
+      key: 'docs',
+      share: 0.4,
+      // Numbered by rank; only a prefix is ever kept, so the kept docs are exactly 1..n
+      items: (context?.relevantDocs ?? []).map((doc, index) => item(`[${index + 1}] ${docLabel(doc)}: ${doc.chunk}`)),
+      taken: 0,
+      tokens: 0,
+    },
+    {
+      key: 'history',
+      share: 0.45,
+      items: historyTurns(context?.recentMessages ?? [], input.userMessage)
+        .reverse()
+        .map((msg) => item(msg.content, msg)),
+      taken: 0,
+      tokens: 0,
+    },
+  ]
+
+  const optionalBudget = Math.max(0, budget - requiredTokens)
+  let remaining = optionalBudget
+  sections.forEach((section) => {
+    remaining -= fill(section, Math.min(remaining, Math.floor(optionalBudget * section.share)))
+  })
+  sections.forEach((section) => {
+    remaining -= fill(section, remaining)
+  })
+
+  const byKey = (key: PromptSectionKey): Section => sections.find((section) => section.key === key)!
+  const taken = (key: PromptSectionKey): SectionItem[] => byKey(key).items.slice(0, byKey(key).taken)
+
+  const contextParts: string[] = [
+    ...taken('summary').map((part) => part.text),
+    ...taken('skills').map((part) => part.text),
+  ]
+  const docs = taken('docs')
+  if (docs.length > 0) {
+    contextParts.push(`RELEVANT LEARNING MATERIALS (cite as [n]):\n${docs.map((doc) => doc.text).join('\n\n')}`)
+  }
+
+  const system = contextParts.length > 0 ? `${policy}\n\n${contextParts.join('\n\n')}` : policy
+  const history: PromptMessage[] = taken('history')
+    .reverse()
+    .map((turn) => ({
+      role: turn.message?.role === 'assistant' ? 'assistant' : 'user',
+      content: turn.text,
+    }))
+
+  const messages: PromptMessage[] = [
+    {role: 'system', content: system},
+    ...history,
+    {role: 'user', content: question},
+  ]
+
+  const usage = sections.map((section) => ({
+    section: section.key,
+    included: section.taken,
+    dropped: section.items.length - section.taken,
+    tokens: section.tokens,
+    droppedTokens: section.items.slice(section.taken).reduce((sum, part) => sum + part.tokens, 0),
+  }))
+
+  return {
+    messages,
+    sources: (context?.relevantDocs ?? []).slice(0, docs.length).map((doc, index) => citationFor(doc, index + 1)),
+    metadata: {
+      budget,
+      usedTokens: requiredTokens + optionalBudget - remaining,
+      requiredTokens,
+      sections: usage,
+      dropped: usage
+        .filter((section) => section.dropped > 0)
+        .map((section) => ({section: section.section, count: section.dropped, tokens: section.droppedTokens})),
+    },
+  }
+}
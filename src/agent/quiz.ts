@@ -0,0 +1,478 @@
+/**
+ * Purpose: Quiz mode - generate questions grounded in retrieved material, grade answers, update progress.
+ * Inputs: skillKey, quiz id, learner answers
+ * Outputs: quizzes, next questions (without answers), graded results
+ * Example: const quiz = await startQuiz({skillKey:'flex-basics'}); const q = await nextQuestion(quiz.id)
+ */
+import {z} from 'zod'
+import {routeTask} from '../llm/provider.js'
+import {isUniqueViolation} from '../db/client.js'
+import {recordProgress, type SkillKey} from '../db/progress.js'
+import {
+  addQuestion,
+  createQuiz,
+  finishQuiz,
+  getQuiz,
+  saveAnswer,
+  type Grade,
+  type NewQuestion,
+  type QuestionRecord,
+  type QuestionType,
+  type QuizRecord,
+} from '../db/quizzes.js'
+import {getRelevantDocuments, type RelevantDocument} from './retrieval.js'
+
+export type QuizErrorCode = 'quiz_not_found' | 'quiz_completed' | 'question_not_found' | 'already_answered'
+
+// What the learner sees: no expected answer or rubric
+export interface QuizQuestionView {
+  id: string
+  position: number
+  type: QuestionType
+  prompt: string
+  code?: string | undefined
+  choices: string[]
+  sources: NewQuestion['sources']
+}
+
+export interface QuizSummary {
+  id: string
+  skillKey: string
+  status: QuizRecord['status']
+  length: number
+  answered: number
+  correctCount: number
+}
+
+export interface AnswerResult extends Grade {
+  questionId: string
+  expected: string
+  progressScore: number
+  quiz: QuizSummary
+}
+
+const CSS_SKILLS: readonly string[] = ['css-selectors', 'css-box-model', 'flex-basics', 'grid-basics']
+
+// "What does this CSS do" only makes sense for CSS skills
+const typesFor = (skillKey: string): QuestionType[] => (
+  CSS_SKILLS.includes(skillKey) ? ['multiple-choice', 'css-explain', 'fill-in-code'] : ['multiple-choice', 'fill-in-code']
+)
+
+const BLANK = '___'
+const PASS_SCORE = 0.7
+
+const toView = (question: QuestionRecord): QuizQuestionView => ({
+  id: question.id,
+  position: question.position,
+  type: question.type,
+  prompt: question.prompt,
+  code: question.code,
+  choices: question.choices,
+  sources: question.sources,
+})
+
+const toSummary = (quiz: QuizRecord): QuizSummary => ({
+  id: quiz.id,
+  skillKey: quiz.skillKey,
+  status: quiz.status,
+  length: quiz.length,
+  answered: quiz.questions.filter((question) => question.answeredAt).length,
+  correctCount: quiz.correctCount,
+})
+
+// Offline question bank, used when the model is unavailable or its JSON doesn't validate
+const FALLBACK_QUESTIONS: Record<SkillKey, Partial<Record<QuestionType, Omit<NewQuestion, 'type' | 'sources'>>>> = {
+  'html-basics': {
+    'multiple-choice': {
+      prompt: 'Which element should wrap the main content of a page?',
+      choices: ['<div id="main">', '<main>', '<section>', '<body>'],
+      answer: '<main>',
+    },
+    'fill-in-code': {
+      prompt: 'Fill in the blank so the image has a text alternative.',
+      code: `<img src="cat.jpg" ${BLANK}="A sleeping cat">`,
+      choices: [],
+      answer: 'alt',
+    },
+  },
+  'css-selectors': {
+    'multiple-choice': {
+      prompt: 'Which selector matches only <a> elements directly inside <nav>?',
+      choices: ['nav a', 'nav > a', 'nav + a', 'nav ~ a'],
+      answer: 'nav > a',
+    },
+    'css-explain': {
+      prompt: 'What does this CSS do?',
+      code: '.menu li:first-child { font-weight: bold; }',
+      choices: [],
+      answer: 'Makes the first list item inside .menu bold.',
+      rubric: 'Must mention the first li / first child and that it becomes bold; must scope it to .menu.',
+    },
+    'fill-in-code': {
+      prompt: 'Fill in the pseudo-class so links change color on mouse over.',
+      code: `a:${BLANK} { color: red; }`,
+      choices: [],
+      answer: 'hover',
+    },
+  },
+  'css-box-model': {
+    'multiple-choice': {
+      prompt: 'With box-sizing: border-box, what does width include?',
+      choices: ['Content only', 'Content and padding', 'Content, padding and border', 'Content, padding, border and margin'],
+      answer: 'Content, padding and border',
+    },
+    'css-explain': {
+      prompt: 'What does this CSS do?',
+      code: '.card { margin: 0 auto; width: 300px; }',
+      choices: [],
+      answer: 'Gives .card a fixed 300px width and centers it horizontally with auto left/right margins.',
+      rubric: 'Must mention the 300px width and horizontal centering via auto margins.',
+    },
+    'fill-in-code': {
+      prompt: 'Fill in the property that adds space inside the border.',
+      code: `.box { ${BLANK}: 16px; }`,
+      choices: [],
+      answer: 'padding',
+    },
+  },
+  'flex-basics': {
+    'multiple-choice': {
+      prompt: 'Which property centers flex items along the main axis?',
+      choices: ['align-items', 'justify-content', 'align-content', 'flex-direction'],
+      answer: 'justify-content',
+    },
+    'css-explain': {
+      prompt: 'What does this CSS do?',
+      code: '.wrapper { display: flex; justify-content: center; align-items: center; }',
+      choices: [],
+      answer: 'Makes .wrapper a flex container and centers its children horizontally and vertically.',
+      rubric: 'Must mention flex container and centering on both axes (horizontal and vertical).',
+    },
+    'fill-in-code': {
+      prompt: 'Fill in the value that stacks flex items vertically.',
+      code: `.stack { display: flex; flex-direction: ${BLANK}; }`,
+      choices: [],
+      answer: 'column',
+    },
+  },
+  'grid-basics': {
+    'multiple-choice': {
+      prompt: 'What does grid-template-columns: repeat(3, 1fr) create?',
+      choices: ['Three rows', 'Three equal columns', 'Columns 3px wide', 'One column spanning three rows'],
+      answer: 'Three equal columns',
+    },
+    'css-explain': {
+      prompt: 'What does this CSS do?',
+      code: '.gallery { display: grid; grid-template-columns: repeat(auto-fill, minmax(200px, 1fr)); gap: 1rem; }',
+      choices: [],
+      answer: 'Creates a responsive grid with as many columns of at least 200px as fit, sharing leftover space, with 1rem gaps.',
+      rubric: 'Must mention a grid with as many columns as fit, minimum 200px each, stretching to fill, and the gap.',
+    },
+    'fill-in-code': {
+      prompt: 'Fill in the property that sets space between grid cells.',
+      code: `.grid { display: grid; ${BLANK}: 12px; }`,
+      choices: [],
+      answer: 'gap',
+    },
+  },
+  'js-syntax': {
+    'multiple-choice': {
+      prompt: 'Which keyword declares a variable that cannot be reassigned?',
+      choices: ['var', 'let', 'const', 'static'],
+      answer: 'const',
+    },
+    'fill-in-code': {
+      prompt: 'Fill in the blank so the function returns the sum.',
+      code: `function add(a, b) {\n  ${BLANK} a + b\n}`,
+      choices: [],
+      answer: 'return',
+    },
+  },
+  'dom-basics': {
+    'multiple-choice': {
+      prompt: 'Which method finds the first element matching a CSS selector?',
+      choices: ['document.getElementsByClassName', 'document.querySelector', 'document.querySelectorAll', 'document.find'],
+      answer: 'document.querySelector',
+    },
+    'fill-in-code': {
+      prompt: 'Fill in the method that runs a function when the button is clicked.',
+      code: `button.${BLANK}('click', () => console.log('clicked'))`,
+      choices: [],
+      answer: 'addEventListener',
+    },
+  },
+}
+
+const fallbackQuestion = (skillKey: string, type: QuestionType, asked: QuestionRecord[]): NewQuestion | undefined => {
+  const bank = FALLBACK_QUESTIONS[skillKey as SkillKey]
+  const preferred = [type, ...typesFor(skillKey).filter((other) => other !== type)]
+  for (const candidateType of preferred) {
+    const question = bank?.[candidateType]
+    if (question && !asked.some((previous) => previous.prompt === question.prompt && previous.code === question.code)) {
+      return {...question, type: candidateType, sources: []}
+    }
+  }
+  return undefined
+}
+
+const GeneratedQuestionSchema = z.object({
+  prompt: z.string().min(1).max(1000),
+  code: z.string().max(2000).optional(),
+  choices: z.array(z.string().min(1).max(300)).max(6).optional(),
+  answer: z.string().min(1).max(1000),
+  rubric: z.string().max(1000).optional(),
+})
+
+const TYPE_INSTRUCTIONS: Record<QuestionType, string> = {
+  'multiple-choice': 'A multiple-choice question with 4 "choices"; "answer" is the exact text of the correct choice.',
+  'css-explain': 'A "what does this CSS do?" question: put a short CSS snippet in "code", a one-sentence model answer in "answer" and grading notes in "rubric".',
+  'fill-in-code': `A fill-in-the-code question: "code" contains exactly one ${BLANK} blank; "answer" is exactly what goes in the blank (a single token or short expression).`,
+}
+
+// Type-specific shape checks the JSON schema can't express
+const isUsable = (type: QuestionType, question: z.infer<typeof GeneratedQuestionSchema>): boolean => {
+  if (type === 'multiple-choice') {
+    return (question.choices?.length ?? 0) >= 3 && (question.choices ?? []).includes(question.answer)
+  }
+  if (type === 'fill-in-code') {
+    return question.code?.split(BLANK).length === 2
+  }
+  return Boolean(question.code)
+}
+
+const docTitle = (doc: RelevantDocument): string | undefined => {
+  const title = doc.metadata?.title ?? doc.metadata?.fileName ?? doc.metadata?.path
+  return typeof title === 'string' ? title : undefined
+}
+
+/**
+ * Ask the chat model for one question grounded in retrieved material
+ */
+const generateQuestion = async (quiz: QuizRecord, type: QuestionType): Promise<NewQuestion | undefined> => {
+  const topic = quiz.skillKey.replace(/-/g, ' ')
+  const docs = await getRelevantDocuments(
+    type === 'css-explain' ? `${topic} css example` : topic,
+    3,
+    0.3,
+    quiz.sessionId ? {sessionId: quiz.sessionId} : {}
+  )
+  if (docs.length === 0) return undefined
+
+  try {
+    const {provider, model} = routeTask('chat')
+    const material = docs.map((doc, index) => `[${index + 1}] ${doc.chunk.slice(0, 1500)}`).join('\n\n')
+    const asked = quiz.questions.map((question) => `- ${question.prompt}`).join('\n')
+    const completion = await provider.chat({
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: 'You write quiz questions for a beginner web developer. Base every question only on the material provided. ' +
+            'Reply with JSON only: {"prompt": string, "code"?: string, "choices"?: string[], "answer": string, "rubric"?: string}.',
+        },
+        {
+          role: 'user',
+          content: `Skill: ${quiz.skillKey}\nQuestion type: ${TYPE_INSTRUCTIONS[type]}\n\n` +
+            (asked ? `Already asked (don't repeat):\n${asked}\n\n` : '') +
+            `Material:\n${material}`,
+        },
+      ],
+      temperature: 0.7,
+      maxTokens: 500,
+      json: true,
+    })
+    const parsed = GeneratedQuestionSchema.safeParse(JSON.parse(completion))
+    if (!parsed.success || !isUsable(type, parsed.data)) return undefined
+
+    return {
+      type,
+      prompt: parsed.data.prompt,
+      code: parsed.data.code,
+      choices: type === 'multiple-choice' ? parsed.data.choices ?? [] : [],
+      answer: parsed.data.answer,
+      rubric: parsed.data.rubric,
+      sources: docs.map((doc) => ({source: doc.source, sourceId: doc.sourceId, title: docTitle(doc)})),
+    }
+  } catch (err) {
+    console.error('quiz_generation_error', {name: (err as Error).name})
+    return undefined
+  }
+}
+
+const normalize = (value: string): string => value
+  .trim()
+  .toLowerCase()
+  .replace(/["'`]/g, '')
+  .replace(/;+$/, '')
+  .replace(/\s+/g, ' ')
+
+// Accept the choice text, its 1-based number or its letter
+const resolveChoice = (question: QuestionRecord, answer: string): string => {
+  const trimmed = answer.trim()
+  const index = /^\d+$/.test(trimmed)
+    ? Number(trimmed) - 1
+    : /^[a-z]$/i.test(trimmed) ? trimmed.toLowerCase().charCodeAt(0) - 97 : -1
+  return question.choices[index] ?? trimmed
+}
+
+const GradeSchema = z.object({
+  score: z.number().min(0).max(1),
+  feedback: z.string().min(1).max(1000),
+})
+
+// Share of the model answer's significant words that appear in the learner's answer
+const keywordOverlap = (expected: string, answer: string): number => {
+  const words = (text: string): Set<string> => new Set(normalize(text).split(/[^a-z0-9-]+/).filter((word) => word.length > 3))
+  const expectedWords = words(expected)
+  if (expectedWords.size === 0) return 0
+  const answerWords = words(answer)
+  return [...expectedWords].filter((word) => answerWords.has(word)).length / expectedWords.size
+}
+
+/**
+ * Rubric-based grading with the chat model; keyword overlap when it is unavailable
+ */
+const gradeWithRubric = async (question: QuestionRecord, answer: string): Promise<Grade> => {
+  try {
+    const {provider, model} = routeTask('chat')
+    const completion = await provider.chat({
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: 'You grade a beginner\'s quiz answer. Be fair about wording; judge the idea. ' +
+            'Reply with JSON only: {"score": number between 0 and 1, "feedback": one or two encouraging sentences}.',
+        },
+        {
+          role: 'user',
+          content: `Question: ${question.prompt}\n` +
+            (question.code ? `Code:\n${question.code}\n` : '') +
+            `Model answer: ${question.answer}\n` +
+            (question.rubric ? `Rubric: ${question.rubric}\n` : '') +
+            `Learner answer: ${answer}`,
+        },
+      ],
+      temperature: 0,
+      maxTokens: 200,
+      json: true,
+    })
+    const parsed = GradeSchema.safeParse(JSON.parse(completion))
+    if (parsed.success) {
+      return {correct: parsed.data.score >= PASS_SCORE, score: parsed.data.score, feedback: parsed.data.feedback}
+    }
+  } catch (err) {
+    console.error('quiz_grading_error', {name: (err as Error).name})
+  }
+
+  const score = Math.round(keywordOverlap(question.answer, answer) * 100) / 100
+  const correct = score >= 0.5
+  return {
+    correct,
+    score,
+    feedback: correct ? 'Nice - that covers the key idea.' : `Not quite. A good answer: ${question.answer}`,
+  }
+}
+
+/**
+ * Exact match where the answer is closed (choice, blank), rubric grading otherwise
+ */
+export const gradeAnswer = async (question: QuestionRecord, answer: string): Promise<Grade> => {
+  if (question.type === 'multiple-choice') {
+    const correct = normalize(resolveChoice(question, answer)) === normalize(question.answer)
+    return {correct, score: correct ? 1 : 0, feedback: correct ? 'Correct!' : `The answer is: ${question.answer}`}
+  }
+  if (question.type === 'fill-in-code' && normalize(answer) === normalize(question.answer)) {
+    return {correct: true, score: 1, feedback: 'Correct!'}
+  }
+  return gradeWithRubric(question, answer)
+}
+
+// Map a grade onto a progress delta
+const gradeDelta = (grade: Grade): number => (grade.correct ? 4 : grade.score >= 0.4 ? 1 : -2)
+
+export const startQuiz = async (input: {
+  skillKey: SkillKey
+  length?: number | undefined
+  sessionId?: string | undefined
+}): Promise<QuizSummary> => {
+  const quiz = await createQuiz({skillKey: input.skillKey, length: input.length ?? 5, sessionId: input.sessionId})
+  return toSummary(quiz)
+}
+
+export const getQuizSummary = async (quizId: string): Promise<QuizSummary | null> => {
+  const quiz = await getQuiz(quizId)
+  return quiz ? toSummary(quiz) : null
+}
+
+/**
+ * The first unanswered question, generating a new one when needed; question is null once the quiz is
+ * complete, the whole result is null for an unknown quiz
+ */
+export const nextQuestion = async (quizId: string): Promise<{quiz: QuizSummary, question: QuizQuestionView | null} | null> => {
+  const quiz = await getQuiz(quizId)
+  if (!quiz) return null
+
+  const pending = quiz.questions.find((question) => !question.answeredAt)
+  if (pending) return {quiz: toSummary(quiz), question: toView(pending)}
+  if (quiz.status === 'completed' || quiz.questions.length >= quiz.length) {
+    return {quiz: toSummary(quiz), question: null}
+  }
+
+  const types = typesFor(quiz.skillKey)
+  const type = types[quiz.questions.length % types.length] ?? 'multiple-choice'
+  const generated = await generateQuestion(quiz, type) ?? fallbackQuestion(quiz.skillKey, type, quiz.questions)
+  if (!generated) {
+    await finishQuiz(quiz.id, quiz.questions.length)
+    return {quiz: toSummary({...quiz, status: 'completed', length: quiz.questions.length}), question: null}
+  }
+
+  let question: QuestionRecord
+  try {
+    question = await addQuestion(quiz.id, quiz.questions.length, generated)
+  } catch (err) {
+    if (!isUniqueViolation(err)) throw err
+    // A concurrent /next already stored this position: serve that question instead
+    const current = await getQuiz(quiz.id)
+    const existing = current?.questions.find((candidate) => candidate.position === quiz.questions.length)
+    if (!current || !existing) throw err
+    return {quiz: toSummary(current), question: toView(existing)}
+  }
+  return {quiz: toSummary({...quiz, questions: [...quiz.questions, question]}), question: toView(question)}
+}
+
+/**
+ * Grade an answer, store it and feed the result into the skill's progress
+ */
+export const answerQuestion = async (
+  quizId: string,
+  questionId: string,
+  answer: string
+): Promise<AnswerResult | {error: QuizErrorCode}> => {
+  const quiz = await getQuiz(quizId)
+  if (!quiz) return {error: 'quiz_not_found'}
+  if (quiz.status === 'completed') return {error: 'quiz_completed'}
+
+  const question = quiz.questions.find((candidate) => candidate.id === questionId)
+  if (!question) return {error: 'question_not_found'}
+  if (question.answeredAt) return {error: 'already_answered'}
+
+  const grade = await gradeAnswer(question, answer)
+  // Another request may have answered it while this one was grading
+  if (!await saveAnswer(quiz, questionId, answer, grade)) return {error: 'already_answered'}
+  const progress = await recordProgress({
+    skillKey: quiz.skillKey as SkillKey,
+    delta: gradeDelta(grade),
+    source: 'quiz',
+    notes: `Quiz ${question.type}: ${grade.correct ? 'correct' : 'incorrect'}`,
+    ...(quiz.sessionId ? {sessionId: quiz.sessionId} : {}),
+  })
+
+  const updated = await getQuiz(quizId)
+  return {
+    questionId,
+    ...grade,
+    expected: question.answer,
+    progressScore: progress.score,
+    quiz: toSummary(updated ?? quiz),
+  }
+}
@@ -1,24 +1,24 @@
 /**
- * Purpose: Build contextual information for AI responses using local storage and external APIs.
+ * Purpose: Build contextual information for AI responses from the message store and learning materials.
  * Inputs: user message, session ID
  * Outputs: enriched context combining recent messages and relevant docs
  * Example: const context = await buildContext('How do I center a div?', sessionId)
  */
-import fs from 'fs'
-import path from 'path'
-import {fileURLToPath} from 'url'
+import {z} from 'zod'
+import {messageStore, type ConversationMessage} from '../db/messages.js'
+import {hybridSearch, SOURCE_TYPES, type ChunkFilters, type SourceType} from '../db/vectors.js'
+import {getProgress, SKILL_KEYS} from '../db/progress.js'
+import {getOpenTask, type TaskRecord} from '../db/tasks.js'
+import {getLatestSummaryRecord} from './summarizer.js'
+
+export type {ConversationMessage}
 
 export interface RetrievalContext {
   recentMessages: ConversationMessage[]
   relevantDocs: RelevantDocument[]
   summary?: string | undefined
   skillProgress?: SkillProgress[] | undefined
-}
-
-export interface ConversationMessage {
-  role: 'user' | 'assistant' | 'system'
-  content: string
-  timestamp: Date
+  currentTask?: TaskRecord | undefined // the step the learner is working on
 }
 
 export interface RelevantDocument {
@@ -26,77 +26,59 @@ export interface RelevantDocument {
   sourceId: string
   chunk: string
   similarity: number
+  score?: number | undefined
+  metadata?: Record<string, unknown> | undefined
+  documentId?: string | undefined
+  title?: string | undefined
+  url?: string | undefined
+  path?: string | undefined
+  headingPath?: string[] | undefined
+  language?: string | undefined
+  skillTags?: string[] | undefined
+  lastModified?: Date | undefined
 }
 
-export interface SkillProgress {
-  skill: string
-  score: number
-  lastPracticed?: Date
-  notes?: string
-}
-
-// Get the directory for storing data
-const __filename = fileURLToPath(import.meta.url)
-const __dirname = path.dirname(__filename)
-const dataDir = path.join(__dirname, '../../data')
-
-// Ensure data directory exists
-if (!fs.existsSync(dataDir)) {
-  fs.mkdirSync(dataDir, {recursive: true})
+export interface DocumentFilters extends ChunkFilters {
+  sources?: SourceType[] | undefined
+  sessionId?: string | undefined // include this session's uploaded files
 }
 
-const messagesFile = path.join(dataDir, 'messages.json')
-const sessionsFile = path.join(dataDir, 'sessions.json')
-
-// In-memory storage for local development (with persistence)
-const messageHistory = new Map<string, ConversationMessage[]>()
+// A single value or a list, always a list after parsing
+const list = <T extends z.ZodTypeAny>(item: T) => z.union([item, z.array(item)])
+  .transform((value): Array<z.infer<T>> => (Array.isArray(value) ? value : [value]))
 
 /**
- * Load messages from file on startup
+ * Retrieval filters as clients send them, e.g. {"languages":"css","repo":"owner/repo","modifiedSince":"2025-08-01"}
  */
-function loadMessagesFromFile(): void {
-  try {
-    if (fs.existsSync(messagesFile)) {
-      const data = fs.readFileSync(messagesFile, 'utf8')
-      const parsed = JSON.parse(data)
-      
-      // Convert timestamps back to Date objects
-      Object.keys(parsed).forEach(sessionId => {
-        messageHistory.set(sessionId, parsed[sessionId].map((msg: any) => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp)
-        })))
-      })
-      
-      console.log(`📁 Loaded ${Object.keys(parsed).length} sessions from disk`)
-    }
-  } catch (err) {
-    console.error('Failed to load messages from file:', err)
-  }
-}
+export const RetrievalFiltersSchema = z.object({
+  sources: list(z.enum(SOURCE_TYPES)).optional(),
+  documentIds: list(z.string().min(1)).optional(),
+  repo: z.string().regex(/^[\w.-]+\/[\w.-]+$/, 'owner/repo').optional(),
+  pathPrefix: z.string().min(1).optional(),
+  languages: list(z.string().min(1).toLowerCase()).optional(),
+  skillTags: list(z.enum(SKILL_KEYS)).optional(),
+  modifiedSince: z.coerce.date().optional(),
+  modifiedBefore: z.coerce.date().optional(),
+}).strict()
+
+export type RetrievalFilters = z.infer<typeof RetrievalFiltersSchema>
 
-/**
- * Save messages to file
- */
-function saveMessagesToFile(): void {
-  try {
-    const data = Object.fromEntries(messageHistory)
-    fs.writeFileSync(messagesFile, JSON.stringify(data, null, 2))
-  } catch (err) {
-    console.error('Failed to save messages to file:', err)
-  }
+export interface SkillProgress {
+  skill: string
+  score: number
+  lastPracticed?: Date
+  notes?: string
 }
 
 /**
- * Get recent messages from persistent storage
+ * Get recent messages from the configured message store
  */
 export const getRecentMessages = async (
   sessionId: string,
   limit: number = 20
 ): Promise<ConversationMessage[]> => {
   try {
-    const messages = messageHistory.get(sessionId) || []
-    return messages.slice(-limit) // Get last N messages
+    return await messageStore.getRecentMessages(sessionId, limit)
   } catch (err) {
     console.error('recent_messages_error', {name: (err as Error).name})
     return []
@@ -104,98 +86,34 @@ export const getRecentMessages = async (
 }
 
 /**
- * Store a message in persistent storage
- */
-export const storeMessage = (sessionId: string, message: ConversationMessage): void => {
-  if (!messageHistory.has(sessionId)) {
-    messageHistory.set(sessionId, [])
-  }
-  messageHistory.get(sessionId)!.push(message)
-  
-  // Save to file after each message
-  saveMessagesToFile()
-}
-
-/**
- * Get all sessions with their message counts
- */
-export const getAllSessions = (): Array<{sessionId: string, messageCount: number, lastActivity: Date}> => {
-  const sessions: Array<{sessionId: string, messageCount: number, lastActivity: Date}> = []
-  
-  messageHistory.forEach((messages, sessionId) => {
-    if (messages.length > 0) {
-      const lastMessage = messages[messages.length - 1]
-      sessions.push({
-        sessionId,
-        messageCount: messages.length,
-        lastActivity: lastMessage.timestamp
-      })
-    }
-  })
-  
-  return sessions.sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime())
-}
-
-/**
- * Delete a session and its messages
- */
-export const deleteSession = (sessionId: string): boolean => {
-  const deleted = messageHistory.delete(sessionId)
-  if (deleted) {
-    saveMessagesToFile()
-  }
-  return deleted
-}
-
-/**
- * Search for relevant documents from your learning materials
+ * Search the ingested corpus with hybrid (lexical + vector) retrieval, optionally narrowed by source and chunk metadata
  */
 export const getRelevantDocuments = async (
   query: string,
   limit: number = 8,
-  threshold: number = 0.7
+  threshold: number = 0.3,
+  filters: DocumentFilters = {}
 ): Promise<RelevantDocument[]> => {
   try {
-    // Simple keyword matching for local development
-    const learningMaterials = [
-      {
-        source: 'css-design-system-best-practices',
-        sourceId: 'design-system-guide',
-        chunk: 'CSS Design Systems: Best Practices & Learning Guide. A design system is a collection of reusable styles and rules (colors, typography, spacing, components) that create consistency across your website or app.',
-        keywords: ['css', 'design', 'system', 'style', 'component', 'reusable']
-      },
-      {
-        source: 'css-design-system-documentation',
-        sourceId: 'design-system-docs',
-        chunk: 'Token Architecture: Your tokens are organized into layers - Primitives (raw values), Alias (meaningful names), Mapped (semantic), Components (scoped tokens), and Responsive tokens.',
-        keywords: ['token', 'architecture', 'primitive', 'alias', 'component', 'responsive']
-      },
-      {
-        source: 'html-basics',
-        sourceId: 'html-guide',
-        chunk: 'HTML is the structure of your webpage. Basic HTML structure includes DOCTYPE, html, head, and body elements. Use semantic elements like h1, p, div, span for better accessibility.',
-        keywords: ['html', 'structure', 'element', 'semantic', 'head', 'body']
-      },
-      {
-        source: 'javascript-fundamentals',
-        sourceId: 'js-guide',
-        chunk: 'JavaScript makes your page interactive. Learn variables, functions, events, DOM manipulation. Start with simple interactions like button clicks and form handling.',
-        keywords: ['javascript', 'interactive', 'function', 'variable', 'event', 'dom']
-      }
-    ]
-
-    const queryLower = query.toLowerCase()
-    const relevantDocs = learningMaterials
-      .filter(doc => doc.keywords.some(keyword => queryLower.includes(keyword)))
-      .map(doc => ({
-        source: doc.source,
-        sourceId: doc.sourceId,
-        chunk: doc.chunk,
-        similarity: 0.8, // High similarity for keyword matches
-      }))
-      .slice(0, limit)
-
-    return relevantDocs
+    if (!query.trim()) return []
+    
+    const results = await hybridSearch(query, limit, threshold, filters)
+    return results.map(result => ({
+      source: result.source,
+      sourceId: result.sourceId,
+      chunk: result.chunk,
+      similarity: result.similarity,
+      score: result.score,
+      metadata: result.metadata,
+      documentId: result.documentId ?? undefined,
+      title: result.title ?? undefined,
+      url: result.url ?? undefined,
+      path: result.path ?? undefined,
+      headingPath: result.headingPath,
+      language: result.language ?? undefined,
+      skillTags: result.skillTags,
+      lastModified: result.lastModified ?? undefined,
+    }))
   } catch (err) {
     console.error('relevant_docs_error', {name: (err as Error).name})
     return []
@@ -203,15 +121,25 @@ export const getRelevantDocuments = async (
 }
 
 /**
- * Get conversation summary from recent messages
+ * Latest stored long-term summary (with topics and learning style); before the first one
+ * exists, a keyword outline of the recent conversation
  */
 export const getConversationSummary = async (sessionId: string): Promise<string | undefined> => {
   try {
-    const messages = messageHistory.get(sessionId) || []
-    if (messages.length < 4) return undefined
+    const stored = await getLatestSummaryRecord(sessionId)
+    if (stored) {
+      const style = stored.learningStyle
+      const details = [
+        stored.topics.length > 0 ? `topics: ${stored.topics.join(', ')}` : '',
+        `learning style: ${style.preferredFormat}, ${style.pace} pace, ${style.feedback} feedback`,
+      ].filter(Boolean).join('; ')
+      return `${stored.summary} (${details})`
+    }
+
+    const recentMessages = await getRecentMessages(sessionId, 6) // Last 6 messages
+    if (recentMessages.length < 4) return undefined
 
     // Simple summary based on recent conversation
-    const recentMessages = messages.slice(-6) // Last 6 messages
     const topics = extractTopics(recentMessages)
 
     if (topics.length > 0) {
@@ -250,54 +178,51 @@ const extractTopics = (messages: ConversationMessage[]): string[] => {
 }
 
 /**
- * Get skill progress (simplified for local development)
+ * Get stored skill progress (scores are written after micro-tasks, quizzes and reviews)
  */
-export const getSkillProgress = async (sessionId: string): Promise<SkillProgress[]> => {
+export const getSkillProgress = async (): Promise<SkillProgress[]> => {
   try {
-    const messages = messageHistory.get(sessionId) || []
-    const topics = extractTopics(messages)
-
-    // Simple skill assessment based on conversation topics
-    const skills = [
-      {skill: 'html-basics', keywords: ['html', 'element', 'structure']},
-      {skill: 'css-selectors', keywords: ['css', 'selector', 'style', 'color']},
-      {skill: 'css-layout', keywords: ['flexbox', 'grid', 'layout', 'responsive']},
-      {skill: 'javascript-fundamentals', keywords: ['javascript', 'function', 'variable', 'event']},
-      {skill: 'design-systems', keywords: ['design', 'system', 'token', 'component']}
-    ]
-
-    return skills.map(skill => {
-      const relevantTopics = topics.filter(topic =>
-        skill.keywords.some(keyword => topic.includes(keyword))
-      )
-      const score = Math.min(100, relevantTopics.length * 25) // 25 points per relevant topic
-
-      return {
-        skill: skill.skill,
-        score,
-        notes: relevantTopics.length > 0 ? `Discussed: ${relevantTopics.join(', ')}` : 'Not yet covered'
-      }
-    }).filter(skill => skill.score > 0)
+    const records = await getProgress()
+    return records.map(record => ({
+      skill: record.skillKey,
+      score: record.score,
+      lastPracticed: record.updatedAt,
+      ...(record.notes ? {notes: record.notes} : {}),
+    }))
   } catch (err) {
     console.error('skill_progress_error', {name: (err as Error).name})
     return []
   }
 }
 
+/**
+ * The session's open micro-task, if any (needs the database)
+ */
+export const getCurrentTask = async (sessionId: string): Promise<TaskRecord | undefined> => {
+  try {
+    return await getOpenTask(sessionId) ?? undefined
+  } catch (err) {
+    console.error('current_task_error', {name: (err as Error).name})
+    return undefined
+  }
+}
+
 /**
  * Build comprehensive context for AI response
  */
 export const buildContext = async (
   userMessage: string,
-  sessionId: string
+  sessionId: string,
+  filters: DocumentFilters = {}
 ): Promise<RetrievalContext> => {
   try {
     // Gather context from multiple sources in parallel
-    const [recentMessages, relevantDocs, summary, skillProgress] = await Promise.all([
+    const [recentMessages, relevantDocs, summary, skillProgress, currentTask] = await Promise.all([
       getRecentMessages(sessionId, 20),
-      getRelevantDocuments(userMessage, 8),
+      getRelevantDocuments(userMessage, 8, undefined, {sessionId, ...filters}),
       getConversationSummary(sessionId),
-      getSkillProgress(sessionId),
+      getSkillProgress(),
+      getCurrentTask(sessionId),
     ])
 
     return {
@@ -305,6 +230,7 @@ export const buildContext = async (
       relevantDocs,
       summary,
       skillProgress,
+      currentTask,
     }
   } catch (err) {
     console.error('build_context_error', {name: (err as Error).name})
@@ -314,63 +240,3 @@ export const buildContext = async (
     }
   }
 }
-
-/**
- * Format context into system prompt for OpenAI
- */
-export const formatContextForPrompt = (context: RetrievalContext, userMessage: string): string => {
-  const parts: string[] = []
-
-  // Add conversation summary if available
-  if (context.summary) {
-    parts.push(`CONVERSATION SUMMARY: ${context.summary}`)
-  }
-
-  // Add skill progress
-  if (context.skillProgress && context.skillProgress.length > 0) {
-    const skillSummary = context.skillProgress
-      .map(skill => `${skill.skill}: ${skill.score}% (${skill.notes || 'no notes'})`)
-      .join(', ')
-    parts.push(`SKILL PROGRESS: ${skillSummary}`)
-  }
-
-  // Add recent conversation context (last few messages)
-  if (context.recentMessages.length > 0) {
-    const recentContext = context.recentMessages
-      .slice(-6) // Last 3 exchanges (6 messages)
-      .map(msg => `${msg.role}: ${msg.content}`)
-      .join('\n')
-    parts.push(`RECENT CONVERSATION:\n${recentContext}`)
-  }
-
-  // Add relevant documentation
-  if (context.relevantDocs.length > 0) {
-    const docContext = context.relevantDocs
-      .slice(0, 3) // Top 3 most relevant docs
-      .map(doc => `${doc.source}: ${doc.chunk}`)
-      .join('\n\n')
-    parts.push(`RELEVANT LEARNING MATERIALS:\n${docContext}`)
-  }
-
-  // Current user message
-  parts.push(`CURRENT QUESTION: ${userMessage}`)
-
-  return parts.join('\n\n')
-}
-
-/**
- * Check if user message needs context enrichment
- */
-export const needsContextEnrichment = (userMessage: string): boolean => {
-  const contextTriggers = [
-    'how', 'what', 'why', 'when', 'where', 'explain', 'help',
-    'problem', 'issue', 'error', 'debug', 'fix', 'center',
-    'layout', 'style', 'function', 'variable', 'element'
-  ]
-
-  const message = userMessage.toLowerCase()
-  return contextTriggers.some(trigger => message.includes(trigger))
-}
-
-// Load existing messages when module is imported
-loadMessagesFromFile()
@@ -0,0 +1,153 @@
+/**
+ * Purpose: Spaced-repetition reviews - pick due skills, generate a micro-exercise, apply graded results.
+ * Inputs: stored progress + review schedules; review quality (0-5)
+ * Outputs: due reviews with exercises; updated schedule and progress
+ * Example: const due = await getDueReviews(3); await completeReview('flex-basics', 4)
+ */
+import {z} from 'zod'
+import {routeTask} from '../llm/provider.js'
+import {getProgress, recordProgress, type SkillKey} from '../db/progress.js'
+import {getSchedule, getSchedules, saveSchedule, type ScheduleRecord} from '../db/reviews.js'
+import {initialSchedule, nextSchedule, selectReviewCandidates, type ReviewCandidate} from './scheduler.js'
+
+export const ExerciseSchema = z.object({
+  title: z.string().min(1).max(200),
+  instructions: z.string().min(1).max(2000),
+  acceptanceCriteria: z.array(z.string().min(1).max(300)).min(1).max(5),
+})
+
+export type Exercise = z.infer<typeof ExerciseSchema>
+
+export interface DueReview extends ReviewCandidate {
+  exercise: Exercise
+}
+
+export interface ReviewResult {
+  schedule: ScheduleRecord
+  score: number
+}
+
+// Used when the model is unavailable or returns something that doesn't validate
+const FALLBACK_EXERCISES: Record<SkillKey, Exercise> = {
+  'html-basics': {
+    title: 'Semantic page skeleton',
+    instructions: 'Write a page with <header>, <main> and <footer>. Put an <h1> in the header and one paragraph in main.',
+    acceptanceCriteria: ['Uses header, main and footer elements', 'Exactly one h1'],
+  },
+  'css-selectors': {
+    title: 'Target one list item',
+    instructions: 'Given a <ul class="menu"> with three <li>, color only the second item red using a single selector.',
+    acceptanceCriteria: ['Only the second li turns red', 'No extra classes added to the HTML'],
+  },
+  'css-box-model': {
+    title: 'Fixed-width card',
+    instructions: 'Make a .card exactly 300px wide including 16px padding and a 2px border.',
+    acceptanceCriteria: ['Rendered width is 300px', 'Uses box-sizing'],
+  },
+  'flex-basics': {
+    title: 'Center a box',
+    instructions: 'Center a .box horizontally and vertically inside a 400px tall .wrapper using flexbox.',
+    acceptanceCriteria: ['.wrapper uses display: flex', 'The box is centered on both axes'],
+  },
+  'grid-basics': {
+    title: 'Three-column gallery',
+    instructions: 'Lay out six .tile elements in three equal columns with a 12px gap using CSS grid.',
+    acceptanceCriteria: ['Uses display: grid', 'Three equal columns with a 12px gap'],
+  },
+  'js-syntax': {
+    title: 'Sum an array',
+    instructions: 'Write a function total(numbers) that returns the sum of an array of numbers.',
+    acceptanceCriteria: ['total([1, 2, 3]) returns 6', 'total([]) returns 0'],
+  },
+  'dom-basics': {
+    title: 'Click counter',
+    instructions: 'Add a <button id="btn"> and <span id="out">0</span>. Each click increases the number in #out by one.',
+    acceptanceCriteria: ['Clicking #btn increments #out', 'Uses addEventListener'],
+  },
+}
+
+const fallbackExercise = (skillKey: string): Exercise => (
+  FALLBACK_EXERCISES[skillKey as SkillKey] ?? {
+    title: `Review ${skillKey}`,
+    instructions: `Build the smallest example you can that uses ${skillKey}, then explain it in one sentence.`,
+    acceptanceCriteria: ['Example runs without errors', 'Explanation names the key concept'],
+  }
+)
+
+/**
+ * Ask the chat model for a 5-minute exercise as JSON; fall back to a canned one
+ */
+const generateExercise = async (candidate: ReviewCandidate): Promise<Exercise> => {
+  try {
+    const {provider, model} = routeTask('chat')
+    const completion = await provider.chat({
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: 'You write 5-minute review exercises for a beginner web developer. ' +
+            'Reply with JSON only: {"title": string, "instructions": string, "acceptanceCriteria": string[]} (1-3 criteria).',
+        },
+        {
+          role: 'user',
+          content: `Skill: ${candidate.skillKey}\nCurrent score: ${candidate.score ?? 'unknown'}/100\nWhy now: ${candidate.reason}`,
+        },
+      ],
+      temperature: 0.7,
+      maxTokens: 300,
+      json: true,
+    })
+    const parsed = ExerciseSchema.safeParse(JSON.parse(completion))
+    return parsed.success ? parsed.data : fallbackExercise(candidate.skillKey)
+  } catch (err) {
+    console.error('review_exercise_error', {name: (err as Error).name})
+    return fallbackExercise(candidate.skillKey)
+  }
+}
+
+/**
+ * Skills to review right now (overdue, low or stale), each with a micro-exercise
+ */
+export const getDueReviews = async (limit: number = 3, now: Date = new Date()): Promise<DueReview[]> => {
+  const [progress, schedules] = await Promise.all([getProgress(), getSchedules()])
+  const candidates = selectReviewCandidates(progress, schedules, now, limit)
+  return Promise.all(candidates.map(async (candidate) => ({...candidate, exercise: await generateExercise(candidate)})))
+}
+
+/**
+ * Make sure every low or stale skill has a schedule so it shows up as due; returns the skills added
+ */
+export const scheduleNeededReviews = async (now: Date = new Date()): Promise<string[]> => {
+  const [progress, schedules] = await Promise.all([getProgress(), getSchedules()])
+  const candidates = selectReviewCandidates(progress, schedules, now, progress.length)
+    .filter((candidate) => candidate.reason !== 'due')
+
+  for (const candidate of candidates) {
+    await saveSchedule(candidate.skillKey, initialSchedule(now))
+  }
+  return candidates.map((candidate) => candidate.skillKey)
+}
+
+// Map SM-2 quality onto a progress delta
+const qualityDelta = (quality: number): number => (quality >= 4 ? 5 : quality === 3 ? 2 : -5)
+
+/**
+ * Grade a finished review: advance the SM-2 schedule and record progress
+ */
+export const completeReview = async (
+  skillKey: SkillKey,
+  quality: number,
+  options: {notes?: string | undefined, sessionId?: string | undefined, now?: Date | undefined} = {}
+): Promise<ReviewResult> => {
+  const now = options.now ?? new Date()
+  const current = await getSchedule(skillKey) ?? initialSchedule(now)
+  const schedule = await saveSchedule(skillKey, nextSchedule(current, quality, now), {quality, reviewedAt: now})
+  const progress = await recordProgress({
+    skillKey,
+    delta: qualityDelta(quality),
+    source: 'review',
+    notes: options.notes ?? `Review quality ${quality}/5`,
+    ...(options.sessionId ? {sessionId: options.sessionId} : {}),
+  })
+  return {schedule, score: progress.score}
+}
@@ -0,0 +1,93 @@
+/**
+ * Purpose: SM-2 spaced-repetition math and the rule for which skills to review next.
+ * Inputs: schedule state + review quality (0-5); stored progress and schedules
+ * Outputs: next schedule state; ranked review candidates
+ * Example: const next = nextSchedule(state, 4, new Date())
+ */
+
+export interface ScheduleState {
+  easeFactor: number
+  intervalDays: number
+  repetitions: number
+  dueAt: Date
+}
+
+export interface ReviewCandidate {
+  skillKey: string
+  score: number | undefined
+  reason: 'due' | 'low-score' | 'stale'
+  dueAt: Date
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MIN_EASE = 1.3
+
+// Rules (50-progress.mdc): review low or stale scores
+export const LOW_SCORE = 60
+export const STALE_DAYS = 14
+
+export const initialSchedule = (now: Date): ScheduleState => ({
+  easeFactor: 2.5,
+  intervalDays: 0,
+  repetitions: 0,
+  dueAt: now,
+})
+
+/**
+ * SM-2: quality < 3 restarts the sequence; otherwise intervals go 1 → 6 → previous × ease.
+ * The interval uses the ease from before this review, as in the original algorithm;
+ * the new ease (never below 1.3) applies from the next review on.
+ */
+export const nextSchedule = (state: ScheduleState, quality: number, now: Date): ScheduleState => {
+  const q = Math.max(0, Math.min(5, Math.round(quality)))
+  const easeFactor = Math.max(MIN_EASE, state.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)))
+
+  if (q < 3) {
+    return {easeFactor, intervalDays: 1, repetitions: 0, dueAt: new Date(now.getTime() + DAY_MS)}
+  }
+
+  const repetitions = state.repetitions + 1
+  const intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(state.intervalDays * state.easeFactor)
+  return {easeFactor, intervalDays, repetitions, dueAt: new Date(now.getTime() + intervalDays * DAY_MS)}
+}
+
+/**
+ * Pick skills to review: scheduled ones that are due, then low scores, then stale ones.
+ * Within a group the most overdue / lowest score comes first.
+ */
+export const selectReviewCandidates = (
+  progress: Array<{skillKey: string, score: number, updatedAt: Date}>,
+  schedules: Array<{skillKey: string, dueAt: Date}>,
+  now: Date,
+  limit: number = 3
+): ReviewCandidate[] => {
+  const scheduleBySkill = new Map(schedules.map((schedule) => [schedule.skillKey, schedule]))
+  const scoreBySkill = new Map(progress.map((record) => [record.skillKey, record.score]))
+  const candidates: ReviewCandidate[] = []
+
+  schedules
+    .filter((schedule) => schedule.dueAt.getTime() <= now.getTime())
+    .forEach((schedule) => {
+      candidates.push({skillKey: schedule.skillKey, score: scoreBySkill.get(schedule.skillKey), reason: 'due', dueAt: schedule.dueAt})
+    })
+
+  progress
+    .filter((record) => !scheduleBySkill.has(record.skillKey))
+    .forEach((record) => {
+      const staleSince = now.getTime() - record.updatedAt.getTime()
+      if (record.score < LOW_SCORE) {
+        candidates.push({skillKey: record.skillKey, score: record.score, reason: 'low-score', dueAt: now})
+      } else if (staleSince > STALE_DAYS * DAY_MS) {
+        candidates.push({skillKey: record.skillKey, score: record.score, reason: 'stale', dueAt: now})
+      }
+    })
+
+  const reasonOrder: Record<ReviewCandidate['reason'], number> = {'due': 0, 'low-score': 1, 'stale': 2}
+  return candidates
+    .sort((a, b) => (
+      reasonOrder[a.reason] - reasonOrder[b.reason] ||
+      a.dueAt.getTime() - b.dueAt.getTime() ||
+      (a.score ?? 0) - (b.score ?? 0)
+    ))
+    .slice(0, limit)
+}
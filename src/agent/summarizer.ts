@@ -1,69 +1,86 @@
 /**
  * Purpose: Generate long-term memory summaries from conversation history.
- * Inputs: session messages, conversation context
- * Outputs: rolling summaries for long-term memory
- * Example: const summary = await generateSummary(sessionId)
+ * Inputs: session messages since the last summary, the previous summary
+ * Outputs: versioned rolling summaries (ConversationSummary table)
+ * Example: const summary = await generateSummary(sessionId); noteNewMessages(sessionId, 2)
  */
-import {prisma} from '../db/client.js'
+import {messageStore, type ConversationMessage} from '../db/messages.js'
+import {z} from 'zod'
+import {SKILL_KEYS} from '../db/progress.js'
+import {
+  deleteSessionSummaries,
+  getLatestConversationSummary,
+  saveConversationSummary,
+  DEFAULT_LEARNING_STYLE,
+  LearningStyleSchema,
+  SkillUpdateSchema,
+  type EvidenceQuote,
+  type LearningStyle,
+  type SkillUpdate,
+  type SummaryRecord,
+} from '../db/summaries.js'
+import {routeTask} from '../llm/provider.js'
 import {env} from '../env.js'
 
+export type {EvidenceQuote, LearningStyle, SkillUpdate}
+
 export interface ConversationSummary {
   sessionId: string
   summary: string
   topics: string[]
   skillProgress: SkillUpdate[]
   learningStyle: LearningStyle
+  coversUntilMessageId: string | null // last message folded in
+  coversUntil: Date
+  messageCount: number // messages covered by this and earlier versions
   createdAt: Date
 }
 
-export interface SkillUpdate {
-  skill: string
-  change: number // -100 to +100
-  evidence: string
-}
-
-export interface LearningStyle {
-  preferredFormat: 'step-by-step' | 'examples' | 'concepts' | 'mixed'
-  pace: 'slow' | 'medium' | 'fast'
-  feedback: 'detailed' | 'brief' | 'mixed'
-  notes: string[]
-}
+// A first summary needs two exchanges; later versions fold in at least one more exchange
+const MIN_MESSAGES_FIRST = 4
+const MIN_MESSAGES_UPDATE = 2
+const MAX_TOPICS = 8
+const MAX_NOTES = 10
+const MAX_QUOTES = 5
+const FALLBACK_SUMMARY = 'Session completed with progress made.'
+const OUTLINE_PREFIX = 'Topics covered so far:'
+const MAX_SUMMARY_CHARS = 1500
 
 /**
- * Generate a summary of a conversation session
+ * Fold the messages since the last stored summary into it. Returns null when there is
+ * not enough new conversation to justify a new version.
  */
 export const generateSummary = async (sessionId: string): Promise<ConversationSummary | null> => {
   try {
-    // Get all messages for this session
-    const messages = await prisma.message.findMany({
-      where: {sessionId},
-      orderBy: {createdAt: 'asc'},
-    })
-    
-    if (messages.length < 4) {
-      // Need at least 2 exchanges to generate meaningful summary
+    const previous = await getLatestConversationSummary(sessionId)
+    const newMessages = await messageStore.getMessagesAfter(sessionId, previous?.coversUntilMessageId ?? undefined)
+    // Older builds stored summaries as system messages; only real turns are summarized
+    const turns = newMessages.filter((msg) => msg.role !== 'system')
+    const last = newMessages[newMessages.length - 1]
+
+    if (!last || turns.length < (previous ? MIN_MESSAGES_UPDATE : MIN_MESSAGES_FIRST)) {
       return null
     }
-    
-    // Extract conversation content
-    const conversation = messages
+
+    const conversation = turns
       .map(msg => `${msg.role}: ${msg.content}`)
       .join('\n')
-    
-    // Generate summary using OpenAI
-    const summary = await generateAISummary(conversation)
-    
-    // Extract topics and learning insights
-    const topics = extractTopics(messages)
-    const skillProgress = analyzeSkillProgress(messages)
-    const learningStyle = analyzeLearningStyle(messages)
-    
+
+    const [summary, analysis] = await Promise.all([
+      generateAISummary(conversation, previous?.summary),
+      analyzeMessages(turns),
+    ])
+    const topics = mergeTopics(previous?.topics ?? [], extractTopics(turns))
+
     return {
       sessionId,
-      summary: summary,
+      summary: summary ?? outlineSummary(topics, previous?.summary),
       topics,
-      skillProgress,
-      learningStyle,
+      skillProgress: mergeSkillProgress(previous?.skillProgress ?? [], analysis.skillProgress),
+      learningStyle: mergeLearningStyle(previous?.learningStyle, analysis.learningStyle),
+      coversUntilMessageId: last.id ?? null,
+      coversUntil: last.timestamp,
+      messageCount: (previous?.messageCount ?? 0) + newMessages.length,
       createdAt: new Date(),
     }
   } catch (err) {
@@ -73,43 +90,110 @@ export const generateSummary = async (sessionId: string): Promise<ConversationSu
 }
 
 /**
- * Use OpenAI to generate a conversation summary
+ * Whether a completion reads like a summary. Offline and small local models can answer with a
+ * coaching reply instead ("(offline coach) … Tiny step: …"), which must never become the memory
+ * injected into every prompt.
+ */
+export const isUsableSummary = (text: string): boolean => (
+  text.length > 0 &&
+  text.length <= MAX_SUMMARY_CHARS &&
+  !/^\(offline\b/i.test(text) &&
+  !/tiny step:/i.test(text) &&
+  !text.includes('```')
+)
+
+/**
+ * Summary without a usable model reply: the topics covered so far, after the last model-written
+ * summary (an older outline is replaced, so outlines don't pile up)
  */
-const generateAISummary = async (conversation: string): Promise<string> => {
+export const outlineSummary = (topics: string[], previousSummary?: string): string => {
+  const outline = topics.length > 0 ? `${OUTLINE_PREFIX} ${topics.join(', ')}.` : FALLBACK_SUMMARY
+  const kept = previousSummary?.split(OUTLINE_PREFIX)[0]?.trim()
+  return kept && kept !== FALLBACK_SUMMARY ? `${kept} ${outline}` : outline
+}
+
+/**
+ * Use the routed summary model to update the running summary with new conversation;
+ * null when there is no model or its reply isn't a usable summary
+ */
+const generateAISummary = async (conversation: string, previousSummary?: string): Promise<string | null> => {
   try {
-    const {default: OpenAI} = await import('openai')
-    const openai = new OpenAI({apiKey: env.OPENAI_API_KEY})
+    const {provider, model} = routeTask('summary')
     
-    const prompt = 'Summarize this coding coaching conversation in 2-3 sentences. Focus on:\n' +
+    const prompt = (previousSummary
+      ? 'Update this running summary of a coding coaching session with the new messages below. ' +
+        'Keep what still matters, fold in what is new, and stay within 2-3 sentences. Focus on:\n'
+      : 'Summarize this coding coaching conversation in 2-3 sentences. Focus on:\n') +
       '1. What the student learned or practiced\n' +
       '2. Their current skill level and progress\n' +
       '3. Any challenges or breakthroughs\n' +
       '4. Learning style preferences observed\n\n' +
-      'Conversation:\n' +
+      (previousSummary ? `Summary so far:\n${previousSummary}\n\nNew messages:\n` : 'Conversation:\n') +
       conversation + '\n\n' +
       'Summary:'
     
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const completion = await provider.chat({
+      model,
       messages: [
         {role: 'system', content: 'You are a coding coach analyzing a learning session. Be concise and insightful.'},
         {role: 'user', content: prompt},
       ],
       temperature: 0.3,
-      max_tokens: 150,
+      maxTokens: 150,
     })
     
-    return completion.choices?.[0]?.message?.content?.trim() || 'Session completed with progress made.'
+    const summary = completion.trim()
+    return isUsableSummary(summary) ? summary : null
   } catch (err) {
     console.error('ai_summary_error', {name: (err as Error).name})
-    return 'Session completed with progress made.'
+    return null
+  }
+}
+
+/**
+ * Newest topics first, without repeats, capped
+ */
+export const mergeTopics = (previous: string[], next: string[]): string[] => (
+  Array.from(new Set([...next, ...previous])).slice(0, MAX_TOPICS)
+)
+
+/**
+ * Changes add up per skill across versions; evidence keeps the newest first
+ */
+export const mergeSkillProgress = (previous: SkillUpdate[], next: SkillUpdate[]): SkillUpdate[] => {
+  const merged = new Map(previous.map((update) => [update.skill, {...update}]))
+  next.forEach((update) => {
+    const current = merged.get(update.skill)
+    merged.set(update.skill, current
+      ? {
+        skill: update.skill,
+        change: Math.max(-100, Math.min(100, current.change + update.change)),
+        evidence: [update.evidence, current.evidence].filter(Boolean).join('; ').slice(0, 500),
+        quotes: [...update.quotes, ...current.quotes].slice(0, MAX_QUOTES),
+      }
+      : update)
+  })
+  return Array.from(merged.values())
+}
+
+/**
+ * Preferences seen in the new messages override older ones; 'mixed'/'medium' mean nothing was observed
+ */
+export const mergeLearningStyle = (previous: LearningStyle | undefined, next: LearningStyle): LearningStyle => {
+  const base = previous ?? DEFAULT_LEARNING_STYLE
+  return {
+    preferredFormat: next.preferredFormat !== 'mixed' ? next.preferredFormat : base.preferredFormat,
+    pace: next.pace !== 'medium' ? next.pace : base.pace,
+    feedback: next.feedback !== 'mixed' ? next.feedback : base.feedback,
+    notes: Array.from(new Set([...base.notes, ...next.notes])).slice(-MAX_NOTES),
+    quotes: [...next.quotes, ...base.quotes].slice(0, MAX_QUOTES),
   }
 }
 
 /**
  * Extract topics from conversation messages
  */
-function extractTopics(messages: any[]): string[] {
+function extractTopics(messages: ConversationMessage[]): string[] {
   const topics = new Set<string>()
   const topicKeywords = {
     'html': ['html', 'element', 'tag', 'attribute', 'semantic'],
@@ -133,10 +217,116 @@ function extractTopics(messages: any[]): string[] {
   return Array.from(topics).slice(0, 5) // Limit to 5 topics
 }
 
+const AnalysisSchema = z.object({
+  skillProgress: z.array(SkillUpdateSchema.extend({
+    skill: z.enum(SKILL_KEYS),
+    change: z.number().int().min(-20).max(20),
+  })).max(SKILL_KEYS.length),
+  learningStyle: LearningStyleSchema,
+})
+
+const normalizeQuote = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ').trim()
+
 /**
- * Analyze skill progress from conversation
+ * Keep only quotes that really appear in the cited message
  */
-function analyzeSkillProgress(messages: any[]): SkillUpdate[] {
+const groundQuotes = (quotes: EvidenceQuote[], byId: Map<string, ConversationMessage>): EvidenceQuote[] => (
+  quotes
+    .filter((quote) => {
+      const message = byId.get(quote.messageId)
+      return message ? normalizeQuote(message.content).includes(normalizeQuote(quote.quote)) : false
+    })
+    .slice(0, MAX_QUOTES)
+)
+
+/**
+ * Validate the model's analysis and ground it in the transcript: quotes must appear in the
+ * message they cite, and skill changes left without a quote are dropped. Null when invalid.
+ */
+export const parseAnalysis = (
+  output: unknown,
+  messages: ConversationMessage[]
+): {skillProgress: SkillUpdate[], learningStyle: LearningStyle} | null => {
+  const parsed = AnalysisSchema.safeParse(output)
+  if (!parsed.success) return null
+
+  const byId = new Map(messages.filter((msg) => msg.id).map((msg) => [msg.id!, msg]))
+  const skillProgress = parsed.data.skillProgress
+    .map((update) => ({...update, quotes: groundQuotes(update.quotes, byId)}))
+    .filter((update) => update.change !== 0 && update.quotes.length > 0)
+  const learningStyle = {...parsed.data.learningStyle, quotes: groundQuotes(parsed.data.learningStyle.quotes, byId)}
+  return {skillProgress, learningStyle}
+}
+
+/**
+ * Structured-output pass with the summary model. Each message is labelled with its id so the
+ * model can cite evidence; uncited skill changes are dropped. Returns null when no model is
+ * available or its JSON does not validate.
+ */
+const analyzeWithModel = async (
+  messages: ConversationMessage[]
+): Promise<{skillProgress: SkillUpdate[], learningStyle: LearningStyle} | null> => {
+  const cited = messages.filter((msg) => msg.id)
+  if (cited.length === 0) return null
+
+  try {
+    const {provider, model} = routeTask('summary')
+    const transcript = cited
+      .map((msg) => `[${msg.id}] ${msg.role}: ${msg.content.slice(0, 2000)}`)
+      .join('\n')
+
+    const completion = await provider.chat({
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: 'You assess a beginner web developer from a coaching transcript. Judge only what the learner (user) ' +
+            'showed, not words the coach used. Reply with JSON only:\n' +
+            '{"skillProgress": [{"skill": one of ' + SKILL_KEYS.join('|') + ', "change": integer -20..20, ' +
+            '"evidence": short explanation, "quotes": [{"messageId": id in brackets, "quote": exact excerpt}]}], ' +
+            '"learningStyle": {"preferredFormat": "step-by-step"|"examples"|"concepts"|"mixed", "pace": "slow"|"medium"|"fast", ' +
+            '"feedback": "detailed"|"brief"|"mixed", "notes": string[], "quotes": [{"messageId", "quote"}]}}\n' +
+            'Only include skills with clear evidence. Use "mixed"/"medium" when unsure.',
+        },
+        {role: 'user', content: transcript},
+      ],
+      temperature: 0,
+      maxTokens: 600,
+      json: true,
+    })
+
+    return parseAnalysis(JSON.parse(completion), cited)
+  } catch (err) {
+    console.error('summary_analysis_error', {name: (err as Error).name})
+    return null
+  }
+}
+
+/**
+ * Skill changes and learning style for new messages: the model when it answers with valid
+ * JSON, keyword heuristics otherwise
+ */
+export const analyzeMessages = async (
+  messages: ConversationMessage[]
+): Promise<{skillProgress: SkillUpdate[], learningStyle: LearningStyle}> => {
+  const structured = await analyzeWithModel(messages)
+  if (structured) return structured
+
+  const learnerMessages = messages.filter((msg) => msg.role === 'user')
+  return {
+    skillProgress: analyzeSkillProgress(learnerMessages),
+    learningStyle: analyzeLearningStyle(learnerMessages),
+  }
+}
+
+const quoteOf = (msg: ConversationMessage): EvidenceQuote[] => (
+  msg.id ? [{messageId: msg.id, quote: msg.content.slice(0, 300)}] : []
+)
+
+/**
+ * Heuristic fallback: keyword scoring over the learner's own messages
+ */
+function analyzeSkillProgress(messages: ConversationMessage[]): SkillUpdate[] {
   const skillUpdates: SkillUpdate[] = []
   const skillIndicators = {
     'html-basics': {
@@ -147,7 +337,7 @@ function analyzeSkillProgress(messages: any[]): SkillUpdate[] {
       positive: ['styled', 'centered', 'layout', 'responsive'],
       negative: ['not styling', 'not centered', 'layout broken'],
     },
-    'javascript-fundamentals': {
+    'js-syntax': {
       positive: ['function', 'variable', 'working', 'console.log'],
       negative: ['syntax error', 'undefined', 'not working'],
     },
@@ -156,15 +346,18 @@ function analyzeSkillProgress(messages: any[]): SkillUpdate[] {
   Object.entries(skillIndicators).forEach(([skill, indicators]) => {
     let change = 0
     let evidence = ''
+    const quotes: EvidenceQuote[] = []
     
     messages.forEach(msg => {
       const content = msg.content.toLowerCase()
+      let matched = false
       
       // Count positive indicators
       indicators.positive.forEach(indicator => {
         if (content.includes(indicator)) {
           change += 10
           evidence += `Used ${indicator}, `
+          matched = true
         }
       })
       
@@ -173,8 +366,11 @@ function analyzeSkillProgress(messages: any[]): SkillUpdate[] {
         if (content.includes(indicator)) {
           change -= 5
           evidence += `Struggled with ${indicator}, `
+          matched = true
         }
       })
+
+      if (matched) quotes.push(...quoteOf(msg))
     })
     
     if (change !== 0) {
@@ -182,6 +378,7 @@ function analyzeSkillProgress(messages: any[]): SkillUpdate[] {
         skill,
         change: Math.max(-100, Math.min(100, change)), // Clamp to -100 to +100
         evidence: evidence.slice(0, -2), // Remove trailing comma
+        quotes: quotes.slice(0, MAX_QUOTES),
       })
     }
   })
@@ -190,44 +387,49 @@ function analyzeSkillProgress(messages: any[]): SkillUpdate[] {
 }
 
 /**
- * Analyze learning style preferences
+ * Heuristic fallback: learning style preferences from the learner's own messages
  */
-function analyzeLearningStyle(messages: any[]): LearningStyle {
+function analyzeLearningStyle(messages: ConversationMessage[]): LearningStyle {
   const learningStyle: LearningStyle = {
     preferredFormat: 'mixed',
     pace: 'medium',
     feedback: 'mixed',
     notes: [],
+    quotes: [],
   }
   
-  const content = messages.map(msg => msg.content.toLowerCase()).join(' ')
+  const mentions = (...phrases: string[]): boolean => {
+    const msg = messages.find((message) => phrases.some((phrase) => message.content.toLowerCase().includes(phrase)))
+    if (msg && learningStyle.quotes.length < MAX_QUOTES) learningStyle.quotes.push(...quoteOf(msg))
+    return Boolean(msg)
+  }
   
   // Analyze format preferences
-  if (content.includes('step by step') || content.includes('tiny step')) {
+  if (mentions('step by step', 'tiny step')) {
     learningStyle.preferredFormat = 'step-by-step'
     learningStyle.notes.push('Prefers step-by-step instructions')
-  } else if (content.includes('example') || content.includes('show me')) {
+  } else if (mentions('example', 'show me')) {
     learningStyle.preferredFormat = 'examples'
     learningStyle.notes.push('Learns well from examples')
-  } else if (content.includes('concept') || content.includes('explain')) {
+  } else if (mentions('concept', 'explain')) {
     learningStyle.preferredFormat = 'concepts'
     learningStyle.notes.push('Wants conceptual understanding')
   }
   
   // Analyze pace
-  if (content.includes('slow') || content.includes('take time')) {
+  if (mentions('slow', 'take time')) {
     learningStyle.pace = 'slow'
     learningStyle.notes.push('Prefers slower pace')
-  } else if (content.includes('fast') || content.includes('quick')) {
+  } else if (mentions('fast', 'quick')) {
     learningStyle.pace = 'fast'
     learningStyle.notes.push('Prefers faster pace')
   }
   
   // Analyze feedback preferences
-  if (content.includes('detailed') || content.includes('explain more')) {
+  if (mentions('detailed', 'explain more')) {
     learningStyle.feedback = 'detailed'
     learningStyle.notes.push('Wants detailed explanations')
-  } else if (content.includes('brief') || content.includes('short')) {
+  } else if (mentions('brief', 'short')) {
     learningStyle.feedback = 'brief'
     learningStyle.notes.push('Prefers brief explanations')
   }
@@ -235,19 +437,32 @@ function analyzeLearningStyle(messages: any[]): LearningStyle {
   return learningStyle
 }
 
+const toSummary = (record: SummaryRecord): ConversationSummary => ({
+  sessionId: record.sessionId,
+  summary: record.summary,
+  topics: record.topics,
+  skillProgress: record.skillProgress,
+  learningStyle: record.learningStyle,
+  coversUntilMessageId: record.coversUntilMessageId,
+  coversUntil: record.coversUntil,
+  messageCount: record.messageCount,
+  createdAt: record.createdAt,
+})
+
 /**
- * Store summary in database (placeholder for now)
+ * Store a summary as the session's next ConversationSummary version
  */
 export const storeSummary = async (summary: ConversationSummary): Promise<void> => {
   try {
-    // TODO: Create a Summary table in Prisma schema
-    // For now, we'll store it as a system message in the session
-    await prisma.message.create({
-      data: {
-        sessionId: summary.sessionId,
-        role: 'system',
-        content: `SESSION SUMMARY: ${summary.summary}\nTOPICS: ${summary.topics.join(', ')}\nLEARNING STYLE: ${JSON.stringify(summary.learningStyle)}`,
-      },
+    await saveConversationSummary({
+      sessionId: summary.sessionId,
+      summary: summary.summary,
+      topics: summary.topics,
+      skillProgress: summary.skillProgress,
+      learningStyle: summary.learningStyle,
+      coversUntilMessageId: summary.coversUntilMessageId,
+      coversUntil: summary.coversUntil,
+      messageCount: summary.messageCount,
     })
   } catch (err) {
     console.error('store_summary_error', {name: (err as Error).name})
@@ -255,20 +470,12 @@ export const storeSummary = async (summary: ConversationSummary): Promise<void>
 }
 
 /**
- * Get the latest summary for a session
+ * The session's current (newest) summary
  */
-export const getLatestSummary = async (sessionId: string): Promise<string | undefined> => {
+export const getLatestSummaryRecord = async (sessionId: string): Promise<ConversationSummary | undefined> => {
   try {
-    const summaryMessage = await prisma.message.findFirst({
-      where: {
-        sessionId,
-        role: 'system',
-        content: {startsWith: 'SESSION SUMMARY:'},
-      },
-      orderBy: {createdAt: 'desc'},
-    })
-    
-    return summaryMessage?.content
+    const record = await getLatestConversationSummary(sessionId)
+    return record ? toSummary(record) : undefined
   } catch (err) {
     console.error('get_summary_error', {name: (err as Error).name})
     return undefined
@@ -276,16 +483,96 @@ export const getLatestSummary = async (sessionId: string): Promise<string | unde
 }
 
 /**
- * Generate and store summary for a completed session
+ * Get the latest summary text for a session
+ */
+export const getLatestSummary = async (sessionId: string): Promise<string | undefined> => {
+  return (await getLatestSummaryRecord(sessionId))?.summary
+}
+
+/**
+ * Generate and store summary for a completed session. `isCurrent` turns false when the session is
+ * deleted mid-run: nothing is saved after that, and a save that raced the delete is removed again.
  */
-export const summarizeSession = async (sessionId: string): Promise<void> => {
+export const summarizeSession = async (sessionId: string, isCurrent: () => boolean = () => true): Promise<void> => {
   try {
     const summary = await generateSummary(sessionId)
-    if (summary) {
-      await storeSummary(summary)
-      console.log(`✅ Generated summary for session ${sessionId}`)
+    if (!summary || !isCurrent()) return
+    await storeSummary(summary)
+    if (!isCurrent()) {
+      await deleteSessionSummaries(sessionId)
+      return
     }
+    console.log(`✅ Generated summary for session ${sessionId}`)
   } catch (err) {
     console.error('summarize_session_error', {name: (err as Error).name})
   }
 }
+
+// Background triggers: every N messages and after the session has been idle for a while.
+// Counts live in memory; the covers-until pointer keeps summaries correct across restarts.
+const SUMMARY_EVERY_MESSAGES = env.SUMMARY_EVERY_MESSAGES ?? 10
+const SUMMARY_IDLE_MS = (env.SUMMARY_IDLE_MINUTES ?? 10) * 60 * 1000
+
+interface SummaryTrigger {
+  pending: number // messages since the last run was started
+  idleTimer?: NodeJS.Timeout | undefined
+  running: boolean
+  rerun: boolean // a trigger fired while running
+  forgotten: boolean // the session was deleted; an in-flight run must not save
+}
+
+const triggers = new Map<string, SummaryTrigger>()
+
+const runSummary = (sessionId: string): void => {
+  const trigger = triggers.get(sessionId)
+  if (!trigger) return
+  if (trigger.running) {
+    trigger.rerun = true
+    return
+  }
+
+  trigger.running = true
+  trigger.pending = 0
+  void summarizeSession(sessionId, () => !trigger.forgotten).finally(() => {
+    trigger.running = false
+    if (trigger.rerun && !trigger.forgotten) {
+      trigger.rerun = false
+      runSummary(sessionId)
+    } else if (!trigger.idleTimer && triggers.get(sessionId) === trigger) {
+      triggers.delete(sessionId)
+    }
+  })
+}
+
+/**
+ * Record stored messages for a session. Summarization runs in the background (never awaited
+ * by the request) once enough messages arrive or the session goes quiet.
+ */
+export const noteNewMessages = (sessionId: string, count: number = 1): void => {
+  const trigger = triggers.get(sessionId) ?? {pending: 0, running: false, rerun: false, forgotten: false}
+  triggers.set(sessionId, trigger)
+  trigger.pending += count
+
+  if (trigger.idleTimer) clearTimeout(trigger.idleTimer)
+  trigger.idleTimer = setTimeout(() => {
+    trigger.idleTimer = undefined
+    if (trigger.pending > 0) runSummary(sessionId)
+    if (!trigger.running) triggers.delete(sessionId)
+  }, SUMMARY_IDLE_MS)
+  trigger.idleTimer.unref() // don't keep the process alive for a pending summary
+
+  if (trigger.pending >= SUMMARY_EVERY_MESSAGES) {
+    setImmediate(() => runSummary(sessionId))
+  }
+}
+
+/**
+ * Drop pending triggers and stop a running summary from saving, e.g. when the session is deleted
+ */
+export const forgetSession = (sessionId: string): void => {
+  const trigger = triggers.get(sessionId)
+  if (!trigger) return
+  trigger.forgotten = true
+  if (trigger.idleTimer) clearTimeout(trigger.idleTimer)
+  triggers.delete(sessionId)
+}
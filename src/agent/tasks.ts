@@ -0,0 +1,203 @@
+/**
+ * Purpose: Micro-task lifecycle - pull the step out of an assistant reply, track evidence and outcome.
+ * Inputs: assistant reply text, sessionId, learner evidence, pass/fail/skip decisions
+ * Outputs: reply text without the task block, persisted tasks, progress updates
+ * Example: const {text, task} = extractTask(reply); if (task) await assignTask(sessionId, task)
+ */
+import {z} from 'zod'
+import {isSkillKey, recordProgress} from '../db/progress.js'
+import {
+  closeTask,
+  createTask,
+  getOpenTask,
+  getTask,
+  submitTaskEvidence,
+  OPEN_TASK_STATUSES,
+  type NewTask,
+  type TaskRecord,
+} from '../db/tasks.js'
+
+export type TaskErrorCode = 'task_not_found' | 'task_closed'
+
+export const TaskDraftSchema = z.object({
+  title: z.string().min(1).max(200),
+  instructions: z.string().min(1).max(4000),
+  acceptanceCriteria: z.array(z.string().min(1).max(500)).max(10).default([]),
+  skillKey: z.string().optional(),
+})
+
+export type TaskDraft = z.infer<typeof TaskDraftSchema>
+
+// The policy asks the model to end a step with a fenced ```task JSON block; an unterminated
+// block (stream cut off) is still stripped from the text
+const TASK_BLOCK = /```task\s*\n([\s\S]*?)(?:```)?\s*$/
+
+// Prose fallback: "Tiny step: ..." plus an optional "Acceptance criteria:" bullet list
+const TINY_STEP = /tiny step:\s*(.+)/i
+const CRITERIA_HEADING = /acceptance criteria:?\s*$/i
+const BULLET = /^\s*(?:[-*•]|\d+[.)])\s+(.+)$/
+
+const firstSentence = (text: string): string => {
+  const sentence = text.split(/(?<=[.!?])\s/)[0] ?? text
+  const title = sentence.replace(/[.!?]$/, '').slice(0, 120)
+  return title.charAt(0).toUpperCase() + title.slice(1)
+}
+
+const parseProse = (text: string): TaskDraft | undefined => {
+  const step = text.match(TINY_STEP)?.[1]?.trim()
+  if (!step) return undefined
+
+  const lines = text.split('\n')
+  const heading = lines.findIndex((line) => CRITERIA_HEADING.test(line.trim()))
+  const acceptanceCriteria: string[] = []
+  if (heading !== -1) {
+    for (const line of lines.slice(heading + 1)) {
+      const bullet = line.match(BULLET)?.[1]
+      if (!bullet) break
+      acceptanceCriteria.push(bullet.trim())
+    }
+  }
+
+  return {title: firstSentence(step), instructions: step, acceptanceCriteria}
+}
+
+export interface ExtractedTask {
+  text: string
+  task?: TaskDraft | undefined
+  explicit: boolean // the step came from a valid ```task block, not the prose fallback
+}
+
+/**
+ * Split a reply into the learner-facing text and the step it assigns (if any)
+ */
+export const extractTask = (reply: string): ExtractedTask => {
+  const block = reply.match(TASK_BLOCK)
+  if (block) {
+    const text = reply.slice(0, block.index).trimEnd()
+    try {
+      const parsed = TaskDraftSchema.safeParse(JSON.parse(block[1] ?? ''))
+      if (parsed.success) return {text, task: parsed.data, explicit: true}
+    } catch {
+      // malformed JSON: fall through to the prose parser on the visible text
+    }
+    return {text, task: parseProse(text), explicit: false}
+  }
+  return {text: reply, task: parseProse(reply), explicit: false}
+}
+
+// An opening ```task fence, and a stream tail that could still become one (or the whitespace before it)
+const TASK_FENCE = /```task\s*\n/
+const FENCE_PREFIX = /\s*(?:`{1,3}(?:t(?:a(?:s(?:k\s*)?)?)?)?)?$/
+
+export interface TaskStreamFilter {
+  push: (delta: string) => void
+  flush: () => void // end of stream: send whatever was held back
+}
+
+/**
+ * Forward streamed deltas without the ```task block. Text that could still turn into the fence is
+ * held back and nothing after the fence is sent, so the streamed text matches extractTask(reply).text.
+ */
+export const createTaskStreamFilter = (onText: (delta: string) => void): TaskStreamFilter => {
+  let text = ''
+  let sent = 0
+  let fenced = false
+
+  const send = (end: number): void => {
+    const start = Math.max(sent, text.length - text.trimStart().length)
+    if (end > start) onText(text.slice(start, end))
+    sent = Math.max(sent, end)
+  }
+
+  return {
+    push: (delta) => {
+      if (fenced) return
+      text += delta
+      const fence = text.match(TASK_FENCE)
+      if (fence) {
+        fenced = true
+        send(text.slice(0, fence.index).trimEnd().length)
+        return
+      }
+      send(text.length - (text.match(FENCE_PREFIX)?.[0].length ?? 0))
+    },
+    flush: () => {
+      if (!fenced) send(text.trimEnd().length)
+    },
+  }
+}
+
+/**
+ * Persist a step from an assistant reply. Repeating the open step's title keeps the open task,
+ * and only an explicit ```task block may supersede it - a reply that merely mentions
+ * "Tiny step:" must not skip the learner's current step.
+ */
+export const assignTask = async (
+  sessionId: string,
+  draft: TaskDraft,
+  sourceMessageId?: string | undefined,
+  explicit = true
+): Promise<TaskRecord> => {
+  const open = await getOpenTask(sessionId)
+  if (open && (!explicit || open.title.trim().toLowerCase() === draft.title.trim().toLowerCase())) return open
+
+  const task: NewTask = {
+    title: draft.title,
+    instructions: draft.instructions,
+    acceptanceCriteria: draft.acceptanceCriteria,
+    skillKey: draft.skillKey && isSkillKey(draft.skillKey) ? draft.skillKey : undefined,
+    sourceMessageId,
+  }
+  return createTask(sessionId, task)
+}
+
+/**
+ * Text for the prompt so the coach knows which step the learner is on
+ */
+export const formatTaskForPrompt = (task: TaskRecord): string => {
+  const lines = [
+    `CURRENT STEP (${task.status}): ${task.title}`,
+    `Instructions: ${task.instructions}`,
+  ]
+  if (task.acceptanceCriteria.length > 0) {
+    lines.push('Acceptance criteria:', ...task.acceptanceCriteria.map((criterion) => `- ${criterion}`))
+  }
+  if (task.evidence) lines.push(`Submitted evidence: ${task.evidence.slice(0, 1500)}`)
+  return lines.join('\n')
+}
+
+export const submitEvidence = async (taskId: string, evidence: string): Promise<TaskRecord | {error: TaskErrorCode}> => {
+  const task = await getTask(taskId)
+  if (!task) return {error: 'task_not_found'}
+  if (!OPEN_TASK_STATUSES.includes(task.status)) return {error: 'task_closed'}
+  return submitTaskEvidence(taskId, evidence)
+}
+
+// Map a task outcome onto a progress delta
+const OUTCOME_DELTA = {passed: 10, failed: -3, skipped: 0} as const
+
+/**
+ * Close a task as passed, failed or skipped; passed/failed tasks with a skill update its progress
+ */
+export const completeTask = async (
+  taskId: string,
+  status: 'passed' | 'failed' | 'skipped',
+  notes?: string | undefined
+): Promise<{task: TaskRecord, progressScore?: number | undefined} | {error: TaskErrorCode}> => {
+  const task = await getTask(taskId)
+  if (!task) return {error: 'task_not_found'}
+  if (!OPEN_TASK_STATUSES.includes(task.status)) return {error: 'task_closed'}
+
+  const closed = await closeTask(taskId, status, notes)
+  const delta = OUTCOME_DELTA[status]
+  if (!task.skillKey || !isSkillKey(task.skillKey) || delta === 0) return {task: closed}
+
+  const progress = await recordProgress({
+    skillKey: task.skillKey,
+    delta,
+    source: 'task',
+    notes: notes ?? `${status}: ${task.title}`,
+    sessionId: task.sessionId,
+  })
+  return {task: closed, progressScore: progress.score}
+}
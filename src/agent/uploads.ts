@@ -0,0 +1,82 @@
+/**
+ * Purpose: Extract text from uploaded PDFs page by page and index it as session-scoped RAG documents.
+ * Inputs: multer file (buffer, originalname), sessionId
+ * Outputs: per-page text, chunk counts; chunks stored in VectorEmbedding with {fileName, page} metadata
+ * Example: const result = await indexPdfUpload(sessionId, file)
+ */
+import {createHash} from 'crypto'
+import {extractText, getDocumentProxy} from 'unpdf'
+import {chunkText} from '../db/chunker.js'
+import {upsertChunks, type EmbeddingChunk} from '../db/vectors.js'
+import {inferSkillTags} from '../db/progress.js'
+
+export interface PdfPage {
+  page: number // 1-based, as printed in citations
+  text: string
+}
+
+export interface PdfIndexResult {
+  fileName: string
+  totalPages: number
+  pages: PdfPage[]
+  chunks: number
+  indexed: boolean // false when the vector store was unavailable
+}
+
+/**
+ * Extract text per page. Scanned pages without a text layer come back empty.
+ */
+export const extractPdfPages = async (buffer: Buffer): Promise<{totalPages: number, pages: PdfPage[]}> => {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer))
+  const {totalPages, text} = await extractText(pdf, {mergePages: false})
+  return {
+    totalPages,
+    pages: text.map((pageText, index) => ({
+      page: index + 1,
+      text: pageText.replace(/[ \t]+\n/g, '\n').trim(),
+    })),
+  }
+}
+
+/**
+ * Chunk each page separately so every chunk maps to exactly one page number
+ */
+export const indexPdfUpload = async (
+  sessionId: string,
+  file: {buffer: Buffer, originalname: string}
+): Promise<PdfIndexResult> => {
+  const {totalPages, pages} = await extractPdfPages(file.buffer)
+  // Same file re-uploaded in the same session overwrites its own chunks
+  const fileHash = createHash('sha256').update(file.buffer).digest('hex').slice(0, 16)
+
+  const chunks: EmbeddingChunk[] = []
+  pages.forEach(({page, text}) => {
+    if (!text) return
+    chunkText(text).forEach((chunk, index) => {
+      chunks.push({
+        source: 'upload',
+        sourceId: `${sessionId}:${fileHash}:p${page}:${index}`,
+        chunk,
+        sessionId,
+        metadata: {fileName: file.originalname, page, totalPages, fileHash},
+        documentId: `${sessionId}:${fileHash}`,
+        chunkIndex: chunks.length,
+        title: file.originalname,
+        path: file.originalname,
+        language: 'pdf',
+        skillTags: inferSkillTags(chunk),
+      })
+    })
+  })
+
+  let indexed = false
+  try {
+    await upsertChunks(chunks)
+    indexed = true
+  } catch (err) {
+    // Still useful for this turn without the vector store (e.g. file-backed local mode)
+    console.error('pdf_index_error', {name: (err as Error).name, pages: totalPages})
+  }
+
+  return {fileName: file.originalname, totalPages, pages, chunks: chunks.length, indexed}
+}
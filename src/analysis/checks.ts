@@ -0,0 +1,101 @@
+/**
+ * Purpose: Declarative acceptance checks for the exercise verifier, plus a parser for the common prose forms.
+ * Inputs: check objects or acceptance-criteria strings
+ * Outputs: typed Check list (strings that don't match a known form stay unsupported)
+ * Example: parseCheck('clicking #btn changes #out text') → {type:'click', selector:'#btn', target:'#out'}
+ */
+import {z} from 'zod'
+
+const selector = z.string().min(1).max(200)
+
+export const CheckSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('exists'),
+    selector,
+    text: z.string().max(500).optional(), // element text must contain this (case-insensitive)
+    count: z.number().int().min(0).max(1000).optional(), // exact number of matches
+    description: z.string().max(500).optional(),
+  }),
+  z.object({
+    type: z.literal('style'),
+    selector,
+    property: z.string().min(1).max(100),
+    value: z.string().min(1).max(200), // compared to the computed value
+    description: z.string().max(500).optional(),
+  }),
+  z.object({
+    type: z.literal('attribute'),
+    selector,
+    name: z.string().min(1).max(100),
+    value: z.string().max(500).optional(), // omitted: the attribute only has to be present
+    description: z.string().max(500).optional(),
+  }),
+  z.object({
+    type: z.literal('click'),
+    selector,
+    target: selector,
+    text: z.string().max(500).optional(), // omitted: the target's text only has to change
+    description: z.string().max(500).optional(),
+  }),
+])
+
+export type Check = z.infer<typeof CheckSchema>
+
+// A check is either structured or an acceptance-criteria sentence
+export const CheckInputSchema = z.union([CheckSchema, z.string().min(1).max(500)])
+
+export type CheckInput = z.infer<typeof CheckInputSchema>
+
+const QUOTED = `["“']([^"”']*)["”']`
+const SELECTOR = '([#.\\w\\[\\]="\':>\\s-]+?)'
+
+// Order matters: the more specific phrasing is tried first
+const PATTERNS: Array<{pattern: RegExp, build: (match: RegExpMatchArray) => Check}> = [
+  {
+    // clicking #btn changes #out text to "Clicked"
+    pattern: new RegExp(`^click(?:ing)?\\s+(?:on\\s+)?${SELECTOR}\\s+(?:changes|updates|sets)\\s+(?:the\\s+)?${SELECTOR}(?:\\s+text)?(?:\\s+to\\s+${QUOTED})?$`, 'i'),
+    build: (match) => ({type: 'click', selector: match[1]!.trim(), target: match[2]!.trim(), ...(match[3] !== undefined ? {text: match[3]} : {})}),
+  },
+  {
+    // .card has display: flex
+    pattern: new RegExp(`^${SELECTOR}\\s+(?:has|uses)\\s+([a-z-]+)\\s*:\\s*([^;]+?);?$`, 'i'),
+    build: (match) => ({type: 'style', selector: match[1]!.trim(), property: match[2]!.toLowerCase(), value: match[3]!.trim()}),
+  },
+  {
+    // an h1 with text "Hello" exists / h1 has text "Hello"
+    pattern: new RegExp(`^(?:an?\\s+)?${SELECTOR}\\s+(?:with\\s+text\\s+${QUOTED}\\s+exists|has\\s+text\\s+${QUOTED}|contains\\s+${QUOTED})$`, 'i'),
+    build: (match) => ({type: 'exists', selector: match[1]!.trim(), text: match[2] ?? match[3] ?? match[4] ?? ''}),
+  },
+  {
+    // img has an alt attribute / a has attribute href "https://..."
+    pattern: new RegExp(`^${SELECTOR}\\s+has\\s+(?:an?\\s+)?(?:attribute\\s+)?([\\w-]+)(?:\\s+attribute)?(?:\\s+${QUOTED})?$`, 'i'),
+    build: (match) => ({type: 'attribute', selector: match[1]!.trim(), name: match[2]!.toLowerCase(), ...(match[3] !== undefined ? {value: match[3]} : {})}),
+  },
+  {
+    // a <nav> element exists / 3 li elements exist
+    pattern: new RegExp(`^(?:(\\d+)\\s+|an?\\s+)?<?${SELECTOR}>?(?:\\s+elements?)?\\s+exists?$`, 'i'),
+    build: (match) => ({type: 'exists', selector: match[2]!.trim(), ...(match[1] ? {count: Number(match[1])} : {})}),
+  },
+]
+
+/**
+ * Turn an acceptance-criteria sentence into a check; undefined when it isn't machine-checkable
+ */
+export const parseCheck = (criterion: string): Check | undefined => {
+  const text = criterion.trim().replace(/[.!]$/, '')
+  for (const {pattern, build} of PATTERNS) {
+    const match = text.match(pattern)
+    if (match) return {...build(match), description: criterion}
+  }
+  return undefined
+}
+
+export const describeCheck = (check: Check): string => {
+  if (check.description) return check.description
+  if (check.type === 'exists') {
+    return `${check.count !== undefined ? `${check.count} × ` : ''}${check.selector} exists${check.text ? ` with text "${check.text}"` : ''}`
+  }
+  if (check.type === 'style') return `${check.selector} has ${check.property}: ${check.value}`
+  if (check.type === 'attribute') return `${check.selector} has ${check.name}${check.value !== undefined ? `="${check.value}"` : ''}`
+  return `clicking ${check.selector} changes ${check.target}${check.text !== undefined ? ` to "${check.text}"` : ''}`
+}
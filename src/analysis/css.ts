@@ -0,0 +1,98 @@
+/**
+ * Purpose: Offline CSS checks - parse errors, unknown properties and invalid values via css-tree.
+ * Inputs: CSS source, file path
+ * Outputs: Finding[] with line/column
+ * Example: const findings = analyzeCss('.a { colour: red }', 'styles.css')
+ */
+import * as csstree from 'css-tree'
+import type {Finding} from './report.js'
+
+const knownProperties = Object.keys((csstree.lexer as unknown as {properties: Record<string, unknown>}).properties)
+
+/**
+ * Edit distance, for "did you mean" hints on misspelled properties
+ */
+export const distance = (a: string, b: string): number => {
+  const row = Array.from({length: b.length + 1}, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0]!
+    row[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j]!
+      row[j] = Math.min(row[j]! + 1, row[j - 1]! + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1))
+      previous = current
+    }
+  }
+  return row[b.length]!
+}
+
+const suggestProperty = (name: string): string | undefined => {
+  let best: {property: string, score: number} | undefined
+  for (const property of knownProperties) {
+    const score = distance(name, property)
+    if (score <= 2 && (!best || score < best.score)) best = {property, score}
+  }
+  return best?.property
+}
+
+export const analyzeCss = (source: string, file: string): Finding[] => {
+  const findings: Finding[] = []
+
+  const ast = csstree.parse(source, {
+    positions: true,
+    filename: file,
+    onParseError: (error) => {
+      findings.push({
+        file,
+        severity: 'error',
+        rule: 'css/parse-error',
+        message: error.message,
+        line: error.line,
+        column: error.column,
+      })
+    },
+  })
+
+  csstree.walk(ast, {
+    visit: 'Declaration',
+    enter: (node) => {
+      const line = node.loc?.start.line
+      const column = node.loc?.start.column
+      const property = node.property
+
+      // Custom properties and vendor-prefixed ones are out of scope for the lexer
+      if (property.startsWith('--') || property.startsWith('-')) return
+
+      if (csstree.lexer.checkPropertyName(property)) {
+        const suggestion = suggestProperty(property.toLowerCase())
+        findings.push({
+          file,
+          severity: 'error',
+          rule: 'css/unknown-property',
+          message: `Unknown property \`${property}\`${suggestion ? ` (did you mean \`${suggestion}\`?)` : ''}`,
+          line,
+          column,
+        })
+        return
+      }
+
+      // var() can't be checked statically; Raw values already produced a parse error
+      const value = csstree.generate(node.value)
+      if (/var\(/i.test(value) || node.value.type === 'Raw') return
+
+      const match = csstree.lexer.matchProperty(property, node.value)
+      if (match.error) {
+        findings.push({
+          file,
+          severity: 'warning',
+          rule: 'css/invalid-value',
+          message: `\`${value}\` is not a valid value for \`${property}\``,
+          line,
+          column,
+        })
+      }
+    },
+  })
+
+  return findings
+}
@@ -0,0 +1,155 @@
+/**
+ * Purpose: Turn uploaded source files and zipped project folders into a safe, bounded list of text files.
+ * Inputs: multer files (buffer, originalname)
+ * Outputs: {files: SourceFile[], skipped: string[]} with normalized relative paths
+ * Example: const {files, skipped} = collectSourceFiles(req.files)
+ */
+import path from 'path'
+import {unzipSync} from 'fflate'
+
+export type SourceLanguage = 'html' | 'css' | 'js'
+
+export interface SourceFile {
+  path: string // relative, forward slashes; zip entries keep their folder
+  language: SourceLanguage
+  content: string
+}
+
+export interface UploadedFile {
+  originalname: string
+  buffer: Buffer
+  mimetype?: string
+}
+
+export const SOURCE_EXTENSIONS: Record<string, SourceLanguage> = {
+  '.html': 'html',
+  '.htm': 'html',
+  '.css': 'css',
+  '.js': 'js',
+  '.mjs': 'js',
+  '.cjs': 'js',
+}
+
+// Limits for zipped projects: enough for a course exercise, not for a zip bomb
+const MAX_ZIP_ENTRIES = 200
+const MAX_FILE_BYTES = 512 * 1024
+const MAX_TOTAL_BYTES = 5 * 1024 * 1024
+const MAX_SOURCE_FILES = 40
+
+const IGNORED_SEGMENTS = ['node_modules', '__MACOSX', '.git', 'dist', 'build']
+
+export const languageFor = (fileName: string): SourceLanguage | undefined => (
+  SOURCE_EXTENSIONS[path.extname(fileName).toLowerCase()]
+)
+
+export const isZip = (file: {originalname: string, mimetype?: string | undefined}): boolean => (
+  file.originalname.toLowerCase().endsWith('.zip') ||
+  file.mimetype === 'application/zip' ||
+  file.mimetype === 'application/x-zip-compressed'
+)
+
+/**
+ * Normalize a zip entry name; returns undefined for anything that could escape the project root
+ */
+export const safeRelativePath = (entryName: string): string | undefined => {
+  const name = entryName.replace(/\\/g, '/')
+  if (name.startsWith('/') || /^[a-zA-Z]:/.test(name) || name.includes('\0')) return undefined
+  const normalized = path.posix.normalize(name)
+  if (normalized === '..' || normalized.startsWith('../') || normalized.split('/').includes('..')) return undefined
+  return normalized.replace(/^\.\//, '')
+}
+
+const decode = (bytes: Uint8Array): string | undefined => {
+  // A NUL byte in the first KB means binary content mislabelled with a source extension
+  if (bytes.subarray(0, 1024).includes(0)) return undefined
+  return new TextDecoder('utf-8', {fatal: false}).decode(bytes)
+}
+
+/**
+ * Unpack a zip in memory, keeping only source files within the entry, size and path limits
+ */
+const unpackZip = (file: UploadedFile, skipped: string[]): SourceFile[] => {
+  const files: SourceFile[] = []
+  let entries = 0
+  let declaredTotal = 0
+
+  let unpacked: Record<string, Uint8Array>
+  try {
+    unpacked = unzipSync(new Uint8Array(file.buffer), {
+      // Decide before inflating, using the sizes declared in the central directory
+      filter: (entry) => {
+        entries++
+        if (entry.name.endsWith('/')) return false
+        const relative = safeRelativePath(entry.name)
+        if (!relative) {
+          skipped.push(`${file.originalname}:${entry.name} (unsafe path)`)
+          return false
+        }
+        if (relative.split('/').some((segment) => IGNORED_SEGMENTS.includes(segment) || segment.startsWith('.'))) return false
+        if (!languageFor(relative)) return false
+        if (entries > MAX_ZIP_ENTRIES) {
+          skipped.push(`${file.originalname}:${relative} (over ${MAX_ZIP_ENTRIES} entries)`)
+          return false
+        }
+        if (entry.originalSize > MAX_FILE_BYTES) {
+          skipped.push(`${file.originalname}:${relative} (larger than ${MAX_FILE_BYTES / 1024}KB)`)
+          return false
+        }
+        if (declaredTotal + entry.originalSize > MAX_TOTAL_BYTES) {
+          skipped.push(`${file.originalname}:${relative} (zip over ${MAX_TOTAL_BYTES / 1024 / 1024}MB unpacked)`)
+          return false
+        }
+        declaredTotal += entry.originalSize
+        return true
+      },
+    })
+  } catch (err) {
+    console.error('zip_unpack_error', {name: (err as Error).name})
+    skipped.push(`${file.originalname} (not a readable zip)`)
+    return files
+  }
+
+  for (const [entryName, bytes] of Object.entries(unpacked)) {
+    const relative = safeRelativePath(entryName)
+    const language = relative ? languageFor(relative) : undefined
+    // Declared sizes can lie; check what actually came out
+    if (!relative || !language || bytes.length > MAX_FILE_BYTES) continue
+    const content = decode(bytes)
+    if (content === undefined) {
+      skipped.push(`${file.originalname}:${relative} (binary)`)
+      continue
+    }
+    files.push({path: relative, language, content})
+  }
+
+  return files
+}
+
+/**
+ * Collect analyzable source files from direct uploads and zips
+ */
+export const collectSourceFiles = (uploads: UploadedFile[]): {files: SourceFile[], skipped: string[]} => {
+  const files: SourceFile[] = []
+  const skipped: string[] = []
+
+  for (const upload of uploads) {
+    if (isZip(upload)) {
+      files.push(...unpackZip(upload, skipped))
+      continue
+    }
+    const language = languageFor(upload.originalname)
+    if (!language) continue
+    const content = upload.buffer.length <= MAX_FILE_BYTES ? decode(upload.buffer) : undefined
+    if (content === undefined) {
+      skipped.push(`${upload.originalname} (binary or too large)`)
+      continue
+    }
+    files.push({path: path.basename(upload.originalname), language, content})
+  }
+
+  if (files.length > MAX_SOURCE_FILES) {
+    files.slice(MAX_SOURCE_FILES).forEach((file) => skipped.push(`${file.path} (over ${MAX_SOURCE_FILES} files)`))
+  }
+
+  return {files: files.slice(0, MAX_SOURCE_FILES), skipped}
+}
@@ -0,0 +1,156 @@
+/**
+ * Purpose: Offline HTML checks - parse errors plus the structure mistakes beginners make most.
+ * Inputs: HTML source, file path
+ * Outputs: Finding[] with line/column
+ * Example: const findings = analyzeHtml('<h1>Hi', 'index.html')
+ */
+import {parse, type DefaultTreeAdapterMap, type ParserError} from 'parse5'
+import type {Finding} from './report.js'
+
+type Node = DefaultTreeAdapterMap['node']
+type Element = DefaultTreeAdapterMap['element']
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+])
+
+// End tags the spec lets authors omit; a missing one here is not a mistake
+const OPTIONAL_END_TAGS = new Set([
+  'html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'option', 'optgroup', 'tr', 'td', 'th', 'thead', 'tbody', 'tfoot', 'colgroup', 'rt', 'rp',
+])
+
+const isElement = (node: Node): node is Element => 'tagName' in node
+
+const walk = (node: Node, visit: (element: Element) => void): void => {
+  if (isElement(node)) visit(node)
+  const children = 'childNodes' in node ? node.childNodes : []
+  children.forEach((child) => walk(child, visit))
+  // <template> keeps its children in a separate fragment
+  if (isElement(node) && node.tagName === 'template' && 'content' in node) {
+    walk(node.content as Node, visit)
+  }
+}
+
+const attr = (element: Element, name: string): string | undefined => (
+  element.attrs.find((attribute) => attribute.name === name)?.value
+)
+
+const textOf = (node: Node): string => {
+  if (node.nodeName === '#text' && 'value' in node) return node.value
+  const children = 'childNodes' in node ? node.childNodes : []
+  return children.map(textOf).join('')
+}
+
+export const analyzeHtml = (source: string, file: string): Finding[] => {
+  const findings: Finding[] = []
+  const add = (finding: Omit<Finding, 'file'>): void => {
+    findings.push({file, ...finding})
+  }
+
+  const document = parse(source, {
+    sourceCodeLocationInfo: true,
+    onParseError: (error: ParserError) => {
+      add({
+        severity: 'error',
+        rule: `html-parse/${error.code}`,
+        message: error.code.replace(/-/g, ' '),
+        line: error.startLine,
+        column: error.startCol,
+      })
+    },
+  })
+
+  const elements: Element[] = []
+  walk(document, (element) => elements.push(element))
+  const byTag = (tag: string): Element[] => elements.filter((element) => element.tagName === tag)
+  const lineOf = (element: Element): number | undefined => element.sourceCodeLocation?.startLine
+
+  // Elements parse5 closed implicitly because the author never wrote the end tag
+  elements.forEach((element) => {
+    const location = element.sourceCodeLocation
+    if (!location?.startTag || location.endTag) return
+    if (VOID_ELEMENTS.has(element.tagName) || OPTIONAL_END_TAGS.has(element.tagName)) return
+    add({
+      severity: 'error',
+      rule: 'html/unclosed-element',
+      message: `<${element.tagName}> is never closed`,
+      line: location.startLine,
+      column: location.startCol,
+    })
+  })
+
+  const htmlElement = byTag('html')[0]
+  if (htmlElement?.sourceCodeLocation?.startTag && !attr(htmlElement, 'lang')) {
+    add({severity: 'warning', rule: 'html/lang', message: '<html> has no lang attribute', line: lineOf(htmlElement)})
+  }
+
+  const looksLikeFullPage = /<html[\s>]/i.test(source) || /<!doctype/i.test(source)
+  if (looksLikeFullPage) {
+    if (!byTag('title').some((title) => textOf(title).trim())) {
+      add({severity: 'warning', rule: 'html/title', message: 'Page has no non-empty <title>'})
+    }
+    if (!byTag('meta').some((meta) => attr(meta, 'charset') !== undefined)) {
+      add({severity: 'warning', rule: 'html/charset', message: 'Missing <meta charset="utf-8">'})
+    }
+    if (!byTag('meta').some((meta) => attr(meta, 'name') === 'viewport')) {
+      add({severity: 'info', rule: 'html/viewport', message: 'Missing <meta name="viewport"> for mobile layouts'})
+    }
+  }
+
+  const h1s = byTag('h1')
+  if (h1s.length > 1) {
+    add({severity: 'info', rule: 'html/multiple-h1', message: `${h1s.length} <h1> elements; usually one per page`, line: lineOf(h1s[1]!)})
+  }
+
+  // Heading levels should not jump, e.g. h1 → h3
+  let previousLevel = 0
+  elements.filter((element) => /^h[1-6]$/.test(element.tagName)).forEach((heading) => {
+    const level = Number(heading.tagName[1])
+    if (previousLevel && level > previousLevel + 1) {
+      add({severity: 'warning', rule: 'html/heading-order', message: `<${heading.tagName}> follows <h${previousLevel}>, skipping a level`, line: lineOf(heading)})
+    }
+    previousLevel = level
+  })
+
+  byTag('img').forEach((image) => {
+    if (attr(image, 'alt') === undefined) {
+      add({severity: 'warning', rule: 'html/img-alt', message: '<img> without alt text', line: lineOf(image)})
+    }
+  })
+
+  byTag('a').forEach((link) => {
+    const href = attr(link, 'href')
+    if (href === undefined || href.trim() === '' || href === '#') {
+      add({severity: 'info', rule: 'html/link-href', message: '<a> without a real href; use <button> for actions', line: lineOf(link)})
+    }
+  })
+
+  const seenIds = new Map<string, Element>()
+  elements.forEach((element) => {
+    const id = attr(element, 'id')
+    if (!id) return
+    if (seenIds.has(id)) {
+      add({severity: 'error', rule: 'html/duplicate-id', message: `id="${id}" is used more than once`, line: lineOf(element)})
+    }
+    seenIds.set(id, element)
+  })
+
+  // Form controls need a label: <label for>, a wrapping <label>, or aria-label
+  const labelledIds = new Set(byTag('label').map((label) => attr(label, 'for')).filter(Boolean))
+  elements.filter((element) => ['input', 'select', 'textarea'].includes(element.tagName)).forEach((control) => {
+    const type = attr(control, 'type')
+    if (type && ['hidden', 'submit', 'button', 'reset', 'image'].includes(type)) return
+    const id = attr(control, 'id')
+    let parent = control.parentNode
+    let wrapped = false
+    while (parent && 'tagName' in parent) {
+      if (parent.tagName === 'label') wrapped = true
+      parent = parent.parentNode
+    }
+    if (!wrapped && !(id && labelledIds.has(id)) && !attr(control, 'aria-label')) {
+      add({severity: 'warning', rule: 'html/label', message: `<${control.tagName}> has no associated <label>`, line: lineOf(control)})
+    }
+  })
+
+  return findings
+}
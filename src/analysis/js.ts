@@ -0,0 +1,42 @@
+/**
+ * Purpose: Offline JavaScript syntax check with acorn (script first, then module).
+ * Inputs: JS source, file path
+ * Outputs: Finding[] (at most one syntax error per file, as parsing stops there)
+ * Example: const findings = analyzeJs('const x = ;', 'app.js')
+ */
+import {parse} from 'acorn'
+import type {Finding} from './report.js'
+
+interface AcornSyntaxError extends SyntaxError {
+  loc?: {line: number, column: number}
+}
+
+const tryParse = (source: string, sourceType: 'script' | 'module'): AcornSyntaxError | undefined => {
+  try {
+    parse(source, {ecmaVersion: 'latest', sourceType, locations: true, allowHashBang: true})
+    return undefined
+  } catch (err) {
+    return err as AcornSyntaxError
+  }
+}
+
+export const analyzeJs = (source: string, file: string): Finding[] => {
+  const scriptError = tryParse(source, 'script')
+  if (!scriptError) return []
+
+  // import/export only parse as a module; if that works the file is fine
+  const moduleError = tryParse(source, 'module')
+  if (!moduleError) return []
+
+  // Report whichever error got further into the file; it's usually the real one
+  const error = (moduleError.loc?.line ?? 0) > (scriptError.loc?.line ?? 0) ? moduleError : scriptError
+  return [{
+    file,
+    severity: 'error',
+    rule: 'js/syntax-error',
+    // acorn appends "(line:col)" to messages; we report the location separately
+    message: error.message.replace(/\s*\(\d+:\d+\)$/, ''),
+    line: error.loc?.line,
+    column: error.loc ? error.loc.column + 1 : undefined,
+  }]
+}
@@ -0,0 +1,87 @@
+/**
+ * Purpose: Run the offline analyzers over uploaded source files and format the findings for the prompt.
+ * Inputs: multer files (html/css/js or .zip)
+ * Outputs: AnalysisReport and a structured "File Analysis" text block
+ * Example: const report = analyzeUploads(files); const text = formatReport(report)
+ */
+import {collectSourceFiles, type SourceFile, type UploadedFile} from './files.js'
+import {analyzeHtml} from './html.js'
+import {analyzeCss} from './css.js'
+import {analyzeJs} from './js.js'
+
+export interface Finding {
+  file: string
+  severity: 'error' | 'warning' | 'info'
+  rule: string
+  message: string
+  line?: number | undefined
+  column?: number | undefined
+}
+
+export interface AnalysisReport {
+  files: Array<{path: string, language: SourceFile['language'], lines: number}>
+  findings: Finding[]
+  skipped: string[]
+}
+
+// Keep the prompt block bounded even for a noisy project
+const MAX_FINDINGS_IN_PROMPT = 40
+
+const analyzeFile = (file: SourceFile): Finding[] => {
+  try {
+    if (file.language === 'html') return analyzeHtml(file.content, file.path)
+    if (file.language === 'css') return analyzeCss(file.content, file.path)
+    return analyzeJs(file.content, file.path)
+  } catch (err) {
+    console.error('source_analysis_error', {name: (err as Error).name, language: file.language})
+    return [{file: file.path, severity: 'warning', rule: 'analyzer/failed', message: 'Analyzer could not process this file'}]
+  }
+}
+
+const SEVERITY_ORDER: Record<Finding['severity'], number> = {error: 0, warning: 1, info: 2}
+
+export const analyzeSourceFiles = (files: SourceFile[], skipped: string[] = []): AnalysisReport => {
+  const findings = files.flatMap(analyzeFile).sort((a, b) => (
+    SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+    a.file.localeCompare(b.file) ||
+    (a.line ?? 0) - (b.line ?? 0)
+  ))
+  return {
+    files: files.map((file) => ({path: file.path, language: file.language, lines: file.content.split('\n').length})),
+    findings,
+    skipped,
+  }
+}
+
+export const analyzeUploads = (uploads: UploadedFile[]): AnalysisReport => {
+  const {files, skipped} = collectSourceFiles(uploads)
+  return analyzeSourceFiles(files, skipped)
+}
+
+/**
+ * Structured text for the "File Analysis" prompt section
+ */
+export const formatReport = (report: AnalysisReport): string => {
+  if (report.files.length === 0 && report.skipped.length === 0) return ''
+
+  const counts = (['error', 'warning', 'info'] as const)
+    .map((severity) => `${report.findings.filter((finding) => finding.severity === severity).length} ${severity}`)
+    .join(', ')
+  const lines = [
+    `Static analysis of ${report.files.length} file(s): ${counts}`,
+    `Files: ${report.files.map((file) => `${file.path} (${file.language}, ${file.lines} lines)`).join('; ') || 'none'}`,
+  ]
+
+  report.findings.slice(0, MAX_FINDINGS_IN_PROMPT).forEach((finding) => {
+    const where = finding.line ? `${finding.file}:${finding.line}${finding.column ? `:${finding.column}` : ''}` : finding.file
+    lines.push(`- [${finding.severity}] ${where} ${finding.rule}: ${finding.message}`)
+  })
+  if (report.findings.length > MAX_FINDINGS_IN_PROMPT) {
+    lines.push(`- …and ${report.findings.length - MAX_FINDINGS_IN_PROMPT} more`)
+  }
+  if (report.skipped.length > 0) {
+    lines.push(`Skipped: ${report.skipped.join('; ')}`)
+  }
+
+  return lines.join('\n')
+}
@@ -0,0 +1,221 @@
+/**
+ * Purpose: Load learner HTML/CSS/JS into jsdom (no network in any window, per-script timeouts) and evaluate acceptance checks.
+ * Inputs: SandboxInput (entry HTML path, project files, checks)
+ * Outputs: per-check results and script/console errors
+ * Example: runs inside the permission-restricted child process started by verifyProject() in verifier.ts
+ */
+import path from 'path'
+import vm from 'vm'
+import {createRequire} from 'module'
+import {JSDOM, VirtualConsole} from 'jsdom'
+import {describeCheck, type Check} from './checks.js'
+import type {SourceFile} from './files.js'
+
+export interface SandboxInput {
+  entry: string
+  files: SourceFile[]
+  checks: Array<Check | {unsupported: string}>
+  scriptTimeoutMs: number
+}
+
+export interface CriterionResult {
+  criterion: string
+  status: 'pass' | 'fail' | 'error' | 'unsupported'
+  message: string
+}
+
+export interface SandboxOutput {
+  results: CriterionResult[]
+  errors: string[] // script errors and console.error output, in order
+}
+
+const MAX_ERRORS = 20
+
+const NETWORK_DISABLED = 'Network access is disabled in the verifier sandbox'
+
+// Blocked before any learner code runs; subresources are never fetched because jsdom's
+// `resources` option is left at its default
+const BLOCK_NETWORK = `
+  (() => {
+    const blocked = () => { throw new Error(${JSON.stringify(NETWORK_DISABLED)}) }
+    window.fetch = () => Promise.reject(new Error(${JSON.stringify(NETWORK_DISABLED)}))
+    window.XMLHttpRequest = function XMLHttpRequest() { blocked() }
+    window.WebSocket = function WebSocket() { blocked() }
+    window.EventSource = function EventSource() { blocked() }
+    navigator.sendBeacon = () => false
+  })()
+`
+
+// A frame gets a window of its own with working originals (iframe.contentWindow.XMLHttpRequest), and jsdom
+// creates frame windows through this export, so each one is stubbed before the page can reach it
+const frameWindows = createRequire(import.meta.url)('jsdom/lib/jsdom/browser/Window.js') as {createWindow: (options: unknown) => object}
+const {createWindow} = frameWindows
+frameWindows.createWindow = (options) => {
+  const window = createWindow(options)
+  if (vm.isContext(window)) vm.runInContext(BLOCK_NETWORK, window)
+  return window
+}
+
+const normalizeCss = (value: string): string => value.trim().toLowerCase().replace(/\s+/g, ' ').replace(/\s*,\s*/g, ', ')
+
+const normalizeText = (value: string | null | undefined): string => (value ?? '').replace(/\s+/g, ' ').trim()
+
+/**
+ * Map an href/src from the entry HTML to an uploaded file; external URLs never resolve
+ */
+const resolveLocal = (files: SourceFile[], entry: string, ref: string | null): SourceFile | undefined => {
+  if (!ref || /^[a-z][a-z0-9+.-]*:/i.test(ref) || ref.startsWith('//')) return undefined
+  const clean = ref.split(/[?#]/)[0] ?? ''
+  const target = path.posix.normalize(clean.startsWith('/') ? clean.slice(1) : path.posix.join(path.posix.dirname(entry), clean))
+  return files.find((file) => file.path === target)
+}
+
+const errorMessage = (err: unknown): string => {
+  const error = err as {code?: string, message?: string}
+  if (error?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') return 'timed out (infinite loop?)'
+  return error?.message ?? String(err)
+}
+
+/**
+ * Build the document, run its scripts and evaluate every check in the given order
+ * (click checks change the DOM, so later checks see the result)
+ */
+export const runSandbox = (input: SandboxInput): SandboxOutput => {
+  const errors: string[] = []
+  const pushError = (message: string): void => {
+    if (errors.length < MAX_ERRORS) errors.push(message.slice(0, 300))
+  }
+
+  const html = input.files.find((file) => file.path === input.entry)?.content ?? ''
+  const virtualConsole = new VirtualConsole()
+  virtualConsole.on('error', (...args: unknown[]) => pushError(`console.error: ${args.map(String).join(' ')}`))
+  virtualConsole.on('jsdomError', (error: Error) => pushError(error.message))
+
+  const dom = new JSDOM(html, {runScripts: 'outside-only', url: 'http://sandbox.invalid/', virtualConsole})
+  const {window} = dom
+  const {document} = window
+  const context = dom.getInternalVMContext()
+  const run = (code: string, label: string): boolean => {
+    try {
+      new vm.Script(code, {filename: label}).runInContext(context, {timeout: input.scriptTimeoutMs})
+      return true
+    } catch (err) {
+      pushError(`${label}: ${errorMessage(err)}`)
+      return false
+    }
+  }
+
+  try {
+    run(BLOCK_NETWORK, 'sandbox')
+
+    // Inline uploaded stylesheets; anything else would need the network
+    document.querySelectorAll('link[rel~="stylesheet"]').forEach((link) => {
+      const file = resolveLocal(input.files, input.entry, link.getAttribute('href'))
+      if (file) {
+        const style = document.createElement('style')
+        style.textContent = file.content
+        link.replaceWith(style)
+      } else {
+        pushError(`stylesheet not found in upload: ${link.getAttribute('href') ?? '(no href)'}`)
+        link.remove()
+      }
+    })
+
+    // Scripts run in document order, each with its own timeout
+    document.querySelectorAll('script').forEach((script, index) => {
+      const type = (script.getAttribute('type') ?? '').toLowerCase()
+      if (type && !['module', 'text/javascript', 'application/javascript'].includes(type)) return
+      const src = script.getAttribute('src')
+      if (src) {
+        const file = resolveLocal(input.files, input.entry, src)
+        if (file) run(file.content, file.path)
+        else pushError(`script not found in upload: ${src}`)
+      } else {
+        run(script.textContent ?? '', `${input.entry} <script #${index + 1}>`)
+      }
+    })
+
+    run(
+      `document.dispatchEvent(new Event('DOMContentLoaded', {bubbles: true})); window.dispatchEvent(new Event('load'))`,
+      'page load'
+    )
+
+    const results = input.checks.map((check): CriterionResult => {
+      if ('unsupported' in check) {
+        return {criterion: check.unsupported, status: 'unsupported', message: 'Not machine-checkable; verify by hand'}
+      }
+      const criterion = describeCheck(check)
+      try {
+        return {criterion, ...evaluate(check, window, run)}
+      } catch (err) {
+        return {criterion, status: 'error', message: errorMessage(err)}
+      }
+    })
+
+    return {results, errors}
+  } finally {
+    window.close()
+  }
+}
+
+const evaluate = (
+  check: Check,
+  window: JSDOM['window'],
+  run: (code: string, label: string) => boolean
+): Omit<CriterionResult, 'criterion'> => {
+  const {document} = window
+  const matches = Array.from(document.querySelectorAll(check.selector))
+
+  if (check.type === 'exists') {
+    const withText = check.text === undefined
+      ? matches
+      : matches.filter((element) => normalizeText(element.textContent).toLowerCase().includes(check.text!.toLowerCase()))
+    if (check.count !== undefined) {
+      return withText.length === check.count
+        ? {status: 'pass', message: `Found ${check.count}`}
+        : {status: 'fail', message: `Expected ${check.count}, found ${withText.length}`}
+    }
+    if (withText.length > 0) return {status: 'pass', message: `Found ${withText.length}`}
+    if (matches.length > 0) {
+      return {status: 'fail', message: `${check.selector} exists but its text is "${normalizeText(matches[0]!.textContent).slice(0, 80)}"`}
+    }
+    return {status: 'fail', message: `No element matches ${check.selector}`}
+  }
+
+  const element = matches[0]
+  if (!element) return {status: 'fail', message: `No element matches ${check.selector}`}
+
+  if (check.type === 'style') {
+    const actual = window.getComputedStyle(element).getPropertyValue(check.property)
+    return normalizeCss(actual) === normalizeCss(check.value)
+      ? {status: 'pass', message: `${check.property} is ${actual}`}
+      : {status: 'fail', message: `${check.property} is "${actual || '(not set)'}"`}
+  }
+
+  if (check.type === 'attribute') {
+    const actual = element.getAttribute(check.name)
+    if (actual === null) return {status: 'fail', message: `${check.name} attribute is missing`}
+    if (check.value !== undefined && actual !== check.value) return {status: 'fail', message: `${check.name} is "${actual}"`}
+    return {status: 'pass', message: `${check.name}="${actual}"`}
+  }
+
+  const target = document.querySelector(check.target)
+  if (!target) return {status: 'fail', message: `No element matches ${check.target}`}
+  const before = normalizeText(target.textContent)
+
+  // Click from inside the sandbox so the handlers run under the script timeout
+  ;(window as unknown as Record<string, unknown>).__verifierClick = element
+  const clicked = run('window.__verifierClick.click()', `click ${check.selector}`)
+  delete (window as unknown as Record<string, unknown>).__verifierClick
+  if (!clicked) return {status: 'error', message: `Clicking ${check.selector} threw an error`}
+
+  const after = normalizeText(target.textContent)
+  if (check.text !== undefined) {
+    return after === normalizeText(check.text)
+      ? {status: 'pass', message: `${check.target} is now "${after}"`}
+      : {status: 'fail', message: `${check.target} is "${after}", expected "${check.text}"`}
+  }
+  return after !== before
+    ? {status: 'pass', message: `${check.target} changed from "${before}" to "${after}"`}
+    : {status: 'fail', message: `${check.target} stayed "${before}"`}
+}
@@ -0,0 +1,47 @@
+/**
+ * Purpose: Lock down the verifier's child process before anything else loads - require the permission model,
+ *   take away sockets and DNS, and give jsdom's selector engine a realm of its own.
+ * Inputs: none; preloaded with --import ahead of sandboxProcess.ts (built to dist/sandbox/ by `npm run build:sandbox`)
+ * Outputs: side effects on this process only
+ * Example: node --permission --disallow-code-generation-from-strings --import=dist/sandbox/sandboxLockdown.mjs dist/sandbox/sandboxProcess.mjs
+ *
+ * Escape routes and what closes them:
+ * - Node's Function reached through jsdom objects (h1.constructor.constructor('return this')): the Node realm can't compile strings
+ * - Commands, workers, file writes, addons: the permission model (checked below); reads stop at node_modules and the bundle
+ * - Secrets in the environment: the process starts with an empty one
+ * - Network from the page or from a frame it creates: every jsdom window gets stubs (sandbox.ts), and sockets and DNS throw here
+ * - Endless loops and memory: per-script timeouts, a heap cap and a SIGKILL after the total timeout (verifier.ts)
+ */
+import dns from 'dns'
+import fs from 'fs'
+import net from 'net'
+import vm from 'vm'
+import {createRequire} from 'module'
+
+if (!process.permission || process.permission.has('child') || process.permission.has('worker') || process.permission.has('fs.write')) {
+  throw new Error('sandbox process must run under the Node permission model')
+}
+
+// Backstop for anything in jsdom that opens a connection: nothing in this process may
+const refuse = (): never => {
+  throw new Error('the verifier sandbox has no network access')
+}
+net.Socket.prototype.connect = refuse
+dns.lookup = refuse as unknown as typeof dns.lookup
+dns.promises.lookup = refuse
+
+/**
+ * jsdom's selector engine (nwsapi) compiles every selector with Function. It is loaded into a realm of
+ * its own that may compile strings and holds nothing but the engine, so jsdom gets a working engine
+ * and the Node realm's Function stays blocked. jsdom picks it up from the require cache when it loads.
+ */
+const loadSelectorEngine = (): void => {
+  const jsdomRequire = createRequire(createRequire(import.meta.url).resolve('jsdom'))
+  const file = jsdomRequire.resolve('nwsapi')
+  const realm = vm.createContext({})
+  vm.runInContext('var module = {exports: {}}, exports = module.exports', realm)
+  new vm.Script(fs.readFileSync(file, 'utf-8'), {filename: file}).runInContext(realm)
+  jsdomRequire.cache[file] = {id: file, filename: file, loaded: true, exports: realm.module.exports} as NodeJS.Module
+}
+
+loadSelectorEngine()
@@ -0,0 +1,11 @@
+/**
+ * Purpose: Entry point of the verifier's child process - run one sandbox job.
+ * Inputs: SandboxInput over IPC; started by verifier.ts after sandboxLockdown.ts has locked the process down
+ * Outputs: SandboxOutput over IPC, then the process exits
+ * Example: spawned by verifyProject() in verifier.ts, never imported by the server
+ */
+import {runSandbox, type SandboxInput} from './sandbox.js'
+
+process.once('message', (input: SandboxInput) => {
+  process.send!(runSandbox(input), () => process.exit(0))
+})
@@ -0,0 +1,333 @@
+/**
+ * Purpose: Check learner CSS against the design tokens - hard-coded values that have a token, primitives used directly, unknown var() names.
+ * Inputs: DESIGN_TOKENS (token JSON files/folders) and the ingest config's saved Figma exports; uploaded CSS (direct or zipped)
+ * Outputs: TokenLintReport with Finding[] (rules `tokens/*`) and a text block for the "File Analysis" prompt section
+ * Example: const report = await lintUploads(files); const text = formatTokenReport(report)
+ */
+import fs from 'fs/promises'
+import path from 'path'
+import * as csstree from 'css-tree'
+import {env} from '../env.js'
+import {loadIngestConfig, resolveConfigPath} from '../jobs/sources/config.js'
+import {FigmaExportSchema, figmaTokens} from '../jobs/sources/figmaRender.js'
+import {distance} from './css.js'
+import {collectSourceFiles, type SourceFile, type UploadedFile} from './files.js'
+import type {Finding} from './report.js'
+import {buildTokenSet, parseTokenJson, type DesignToken, type RawToken, type TokenIssue, type TokenLayer, type TokenSet} from './tokens.js'
+
+export interface TokenLintReport {
+  files: string[]
+  tokenCount: number
+  tokenFiles: string[]
+  issues: TokenIssue[] // problems in the token files themselves
+  findings: Finding[]
+}
+
+// Which token to suggest first: the layers UI code is meant to consume
+const LAYER_PREFERENCE: TokenLayer[] = ['mapped', 'components', 'responsive', 'alias', 'primitives']
+const MAX_FINDINGS_IN_PROMPT = 30
+const MAX_SUGGESTIONS = 3
+
+const tokenPaths = (): string[] => (env.DESIGN_TOKENS ?? 'design-tokens')
+  .split(',')
+  .map((entry) => entry.trim())
+  .filter(Boolean)
+  .map((entry) => path.resolve(process.cwd(), entry))
+
+const jsonFilesIn = async (target: string): Promise<string[]> => {
+  const stats = await fs.stat(target).catch(() => null)
+  if (!stats) return []
+  if (stats.isFile()) return [target]
+  const entries = await fs.readdir(target, {withFileTypes: true})
+  const nested = await Promise.all(entries
+    .filter((entry) => entry.isDirectory() ? entry.name !== 'node_modules' && !entry.name.startsWith('.') : entry.name.endsWith('.json'))
+    .map((entry) => jsonFilesIn(path.join(target, entry.name))))
+  return nested.flat().sort()
+}
+
+/**
+ * Token sources: DESIGN_TOKENS entries plus the Figma exports listed in the ingest config
+ */
+const tokenFiles = async (): Promise<string[]> => {
+  const files = (await Promise.all(tokenPaths().map(jsonFilesIn))).flat()
+  try {
+    const {figma} = await loadIngestConfig()
+    files.push(...figma.exports.map(resolveConfigPath))
+  } catch (err) {
+    console.warn('design_tokens_config_error', {message: (err as Error).message})
+  }
+  return [...new Set(files)]
+}
+
+/**
+ * Raw tokens of one parsed JSON document: a saved Figma export or token JSON
+ */
+export const tokensFromJson = (json: unknown, file: string): RawToken[] => {
+  const figma = FigmaExportSchema.safeParse(json)
+  return figma.success && figma.data.variables ? figmaTokens(figma.data, file) : parseTokenJson(json, file)
+}
+
+let cache: {key: string, set: TokenSet} | undefined
+
+/**
+ * The configured token set, re-read only when a file was added, removed or modified
+ */
+export const loadDesignTokens = async (): Promise<TokenSet> => {
+  const files = await tokenFiles()
+  const stamps = await Promise.all(files.map(async (file) => `${file}:${(await fs.stat(file).catch(() => null))?.mtimeMs ?? 'missing'}`))
+  const key = stamps.join('|')
+  if (cache?.key === key) return cache.set
+
+  const raw: RawToken[] = []
+  const invalid: TokenIssue[] = []
+  for (const file of files) {
+    const name = path.relative(process.cwd(), file)
+    try {
+      raw.push(...tokensFromJson(JSON.parse(await fs.readFile(file, 'utf-8')), name))
+    } catch (err) {
+      invalid.push({kind: 'invalid-file', file: name, message: `${name} could not be read as token JSON: ${(err as Error).message}`})
+    }
+  }
+  const built = buildTokenSet(raw)
+  const set = {...built, issues: [...invalid, ...built.issues]}
+  cache = {key, set}
+  return set
+}
+
+const expandHex = (hex: string): string => {
+  const digits = hex.slice(1).toLowerCase()
+  const full = digits.length <= 4 ? [...digits].map((digit) => digit + digit).join('') : digits
+  // Opaque 8-digit colors compare equal to their 6-digit form
+  return `#${full.length === 8 && full.endsWith('ff') ? full.slice(0, 6) : full}`
+}
+
+const channel = (value: string): string => {
+  const number = value.endsWith('%') ? Number(value.slice(0, -1)) * 2.55 : Number(value)
+  return Math.round(Math.min(255, Math.max(0, number))).toString(16).padStart(2, '0')
+}
+
+/**
+ * Comparable form of a value: hex colors expanded, rgb()/rgba() as hex, whitespace and case normalized
+ */
+export const normalizeValue = (value: string): string => {
+  const text = value.trim().toLowerCase().replace(/\s+/g, ' ')
+  if (/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(text)) return expandHex(text)
+  const rgb = text.match(/^rgba?\(\s*([\d.]+%?)[\s,]+([\d.]+%?)[\s,]+([\d.]+%?)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/)
+  if (rgb) {
+    const alpha = rgb[4] === undefined ? 1 : rgb[4].endsWith('%') ? Number(rgb[4].slice(0, -1)) / 100 : Number(rgb[4])
+    return expandHex(`#${channel(rgb[1]!)}${channel(rgb[2]!)}${channel(rgb[3]!)}${alpha < 1 ? channel(String(alpha * 255)) : ''}`)
+  }
+  return text.replace(/\s*,\s*/g, ', ').replace(/^0+(\d)/, '$1')
+}
+
+const rank = (tokens: DesignToken[]): DesignToken[] => [...tokens].sort((a, b) => (
+  LAYER_PREFERENCE.indexOf(a.layer) - LAYER_PREFERENCE.indexOf(b.layer) || a.name.localeCompare(b.name)
+))
+
+const names = (tokens: DesignToken[]): string => tokens.slice(0, MAX_SUGGESTIONS).map((token) => `\`var(--${token.name})\``).join(', ')
+
+/**
+ * What to use instead of a hard-coded value; primitives only when nothing aliases them yet
+ */
+const replacement = (matches: DesignToken[]): string => {
+  const usable = rank(matches.filter((token) => token.layer !== 'primitives'))
+  if (usable.length > 0) return `use ${names(usable)}`
+  return `it matches the primitive ${names(rank(matches))}; reference it through an alias token rather than hard-coding`
+}
+
+/**
+ * Lookups the linter needs: tokens by resolved value and the tokens aliasing each primitive
+ */
+const tokenIndex = (set: TokenSet) => {
+  const byValue = new Map<string, DesignToken[]>()
+  const aliasesOf = new Map<string, DesignToken[]>()
+  for (const token of set.tokens.values()) {
+    if (token.resolved === null) continue
+    const value = normalizeValue(token.resolved)
+    byValue.set(value, [...(byValue.get(value) ?? []), token])
+    for (const hop of token.chain.slice(1)) aliasesOf.set(hop, [...(aliasesOf.get(hop) ?? []), token])
+  }
+  const hasColors = [...byValue.keys()].some((value) => value.startsWith('#'))
+  return {byValue, aliasesOf, hasColors}
+}
+
+const COLOR_FUNCTION = /^(rgba?|hsla?|hwb|lab|lch|oklab|oklch)$/i
+// Values too generic to be worth a token suggestion
+const TRIVIAL = new Set(['0', '0px', '1', '100%', 'auto', 'none', 'inherit', 'initial', 'unset', 'transparent', 'currentcolor'])
+
+/**
+ * Custom properties the uploaded CSS declares itself; var() to these isn't unknown
+ */
+const declaredProperties = (files: SourceFile[]): Set<string> => {
+  const declared = new Set<string>()
+  for (const file of files) {
+    try {
+      const ast = csstree.parse(file.content, {onParseError: () => undefined})
+      csstree.walk(ast, {visit: 'Declaration', enter: (node) => {
+        if (node.property.startsWith('--')) declared.add(node.property.slice(2))
+      }})
+    } catch {
+      // analyzeCss already reports files that don't parse
+    }
+  }
+  return declared
+}
+
+export const lintCss = (source: string, file: string, set: TokenSet, declared: Set<string> = new Set()): Finding[] => {
+  const findings: Finding[] = []
+  const index = tokenIndex(set)
+  const known = [...set.tokens.keys(), ...declared]
+
+  const ast = csstree.parse(source, {positions: true, filename: file, onParseError: () => undefined})
+
+  csstree.walk(ast, {
+    visit: 'Declaration',
+    enter: (declaration) => {
+      const property = declaration.property
+      const definesToken = property.startsWith('--')
+      const at = (node: csstree.CssNode) => ({line: node.loc?.start.line ?? declaration.loc?.start.line, column: node.loc?.start.column ?? declaration.loc?.start.column})
+      if (declaration.value.type === 'Raw' && !definesToken) return
+
+      // The whole value can be a token on its own (a shadow, a font stack)
+      const whole = csstree.generate(declaration.value)
+      const wholeMatch = !definesToken && !/var\(/i.test(whole) && !TRIVIAL.has(normalizeValue(whole))
+        ? index.byValue.get(normalizeValue(whole))
+        : undefined
+      if (wholeMatch) {
+        findings.push({
+          file,
+          severity: 'warning',
+          rule: 'tokens/hard-coded-value',
+          message: `Hard-coded \`${whole}\` in \`${property}\`; ${replacement(wholeMatch)}`,
+          ...at(declaration),
+        })
+      }
+
+      csstree.walk(declaration.value, {
+        enter: (node: csstree.CssNode) => {
+          if (node.type === 'Function' && node.name.toLowerCase() === 'var') {
+            const first = node.children.first
+            const name = first?.type === 'Identifier' && first.name.startsWith('--') ? first.name.slice(2) : undefined
+            if (!name) return csstree.walk.skip
+            const hasFallback = node.children.size > 1
+            const token = set.tokens.get(name)
+
+            if (!token && !declared.has(name)) {
+              const suggestion = known
+                .map((candidate) => ({candidate, score: distance(name, candidate)}))
+                .filter(({score}) => score <= 3)
+                .sort((a, b) => a.score - b.score)[0]?.candidate
+              findings.push({
+                file,
+                severity: hasFallback ? 'warning' : 'error',
+                rule: 'tokens/unknown-variable',
+                message: `\`var(--${name})\` is not a design token or a custom property declared in the project${suggestion ? ` (did you mean \`--${suggestion}\`?)` : ''}${hasFallback ? '; only the fallback will apply' : ''}`,
+                ...at(node),
+              })
+            } else if (token?.layer === 'primitives' && !definesToken) {
+              // Defining an own alias (--card-bg: var(--color-blue-500)) is fine; using the primitive in a rule isn't
+              const aliases = rank((index.aliasesOf.get(name) ?? []).filter((alias) => alias.layer !== 'primitives'))
+              findings.push({
+                file,
+                severity: 'warning',
+                rule: 'tokens/wrong-layer',
+                message: `\`--${name}\` is a primitive token used directly in \`${property}\`; ${aliases.length > 0
+                  ? `use a semantic token that points at it, such as ${names(aliases)}`
+                  : 'components should use alias, mapped or component tokens'}`,
+                ...at(node),
+              })
+            }
+            // Fallback values are a deliberate safety net, not hard-coding
+            return csstree.walk.skip
+          }
+
+          if (definesToken || wholeMatch) return undefined
+          let literal: string | undefined
+          let color = false
+          if (node.type === 'Hash') {
+            literal = `#${node.value}`
+            color = true
+          } else if (node.type === 'Function' && COLOR_FUNCTION.test(node.name)) {
+            literal = csstree.generate(node)
+            color = true
+          } else if (node.type === 'Dimension') {
+            literal = `${node.value}${node.unit}`
+          } else if (node.type === 'Number' && property === 'font-weight') {
+            literal = node.value
+          }
+          if (!literal || TRIVIAL.has(normalizeValue(literal))) return color ? csstree.walk.skip : undefined
+
+          const matches = index.byValue.get(normalizeValue(literal))
+          if (matches) {
+            findings.push({
+              file,
+              severity: 'warning',
+              rule: 'tokens/hard-coded-value',
+              message: `Hard-coded \`${literal}\` in \`${property}\`; ${replacement(matches)}`,
+              ...at(node),
+            })
+          } else if (color && index.hasColors) {
+            findings.push({
+              file,
+              severity: 'info',
+              rule: 'tokens/hard-coded-value',
+              message: `Hard-coded color \`${literal}\` in \`${property}\` matches no token; pick the closest color token instead`,
+              ...at(node),
+            })
+          }
+          return color ? csstree.walk.skip : undefined
+        },
+      })
+    },
+  })
+
+  return findings
+}
+
+export const lintSourceFiles = (files: SourceFile[], set: TokenSet): TokenLintReport => {
+  const css = files.filter((file) => file.language === 'css')
+  const declared = declaredProperties(css)
+  const findings = css.flatMap((file) => {
+    try {
+      return lintCss(file.content, file.path, set, declared)
+    } catch (err) {
+      console.error('token_lint_error', {name: (err as Error).name})
+      return [{file: file.path, severity: 'warning' as const, rule: 'analyzer/failed', message: 'Token linter could not process this file'}]
+    }
+  })
+  return {
+    files: css.map((file) => file.path),
+    tokenCount: set.tokens.size,
+    tokenFiles: set.files,
+    issues: set.issues,
+    findings: findings.sort((a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0)),
+  }
+}
+
+/**
+ * Lint uploads against the configured tokens, plus any extra tokens (e.g. an export sent with the request)
+ */
+export const lintUploads = async (uploads: UploadedFile[], extra: RawToken[] = []): Promise<TokenLintReport> => {
+  const configured = await loadDesignTokens()
+  const set = extra.length > 0 ? buildTokenSet([...configured.tokens.values(), ...extra]) : configured
+  return lintSourceFiles(collectSourceFiles(uploads).files, set)
+}
+
+/**
+ * Structured text for the "File Analysis" prompt section; empty when there's no CSS or nothing to check it against
+ */
+export const formatTokenReport = (report: TokenLintReport): string => {
+  if (report.files.length === 0 || (report.tokenCount === 0 && report.findings.length === 0)) return ''
+
+  const lines = [
+    `Design-token check of ${report.files.length} CSS file(s) against ${report.tokenCount} token(s): ${report.findings.length} finding(s)`,
+  ]
+  report.findings.slice(0, MAX_FINDINGS_IN_PROMPT).forEach((finding) => {
+    const where = finding.line ? `${finding.file}:${finding.line}${finding.column ? `:${finding.column}` : ''}` : finding.file
+    lines.push(`- [${finding.severity}] ${where} ${finding.rule}: ${finding.message}`)
+  })
+  if (report.findings.length > MAX_FINDINGS_IN_PROMPT) {
+    lines.push(`- …and ${report.findings.length - MAX_FINDINGS_IN_PROMPT} more`)
+  }
+  return lines.join('\n')
+}
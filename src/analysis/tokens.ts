@@ -0,0 +1,253 @@
+/**
+ * Purpose: Design-token model - parse token JSON (DTCG / Tokens Studio / plain textStyles exports), resolve alias chains, classify layers.
+ * Inputs: parsed token JSON with its file name, or RawTokens from another exporter (Figma variables)
+ * Outputs: TokenSet - tokens by CSS variable name with resolved values and alias chains, plus cycle/missing-reference/too-long issues
+ * Example: const set = buildTokenSet(parseTokenJson(JSON.parse(text), 'tokens/alias.json')); set.tokens.get('color-primary')?.resolved
+ */
+
+export const TOKEN_LAYERS = ['primitives', 'alias', 'mapped', 'responsive', 'components'] as const
+export type TokenLayer = typeof TOKEN_LAYERS[number]
+
+export interface RawToken {
+  name: string // CSS variable name without the leading `--`
+  value: string // as declared; references are `{group.name}` or `var(--name)`
+  file: string
+  layer?: TokenLayer | undefined // undefined: inferred from alias depth
+  type?: string | undefined
+  description?: string | undefined
+}
+
+export interface DesignToken extends RawToken {
+  layer: TokenLayer
+  references: string[] // token names the value points at
+  resolved: string | null // null when a reference is missing or part of a cycle
+  chain: string[] // this token, then each alias hop down to the raw value
+}
+
+export interface TokenIssue {
+  kind: 'cycle' | 'missing-reference' | 'too-long' | 'invalid-file'
+  token?: string | undefined
+  file: string
+  message: string
+}
+
+export interface TokenSet {
+  tokens: Map<string, DesignToken>
+  issues: TokenIssue[]
+  files: string[]
+}
+
+// Collections, sets and files are often named after the component they style ("Button", "Input")
+export const COMPONENT_NAME = /^(button|btn|input|field|form|card|badge|chip|tag|modal|dialog|nav|navbar|menu|tabs?|tooltip|avatar|checkbox|radio|switch|toggle|select|dropdown|alert|toast|table|link|icon)\b/
+
+/**
+ * Layer named by a collection, token set or file name, if it names one
+ */
+export const layerFromName = (name: string): TokenLayer | undefined => {
+  const lower = name.toLowerCase()
+  if (/primitive|core|base|palette/.test(lower)) return 'primitives'
+  if (/alias/.test(lower)) return 'alias'
+  if (/mapped|semantic|theme/.test(lower)) return 'mapped'
+  if (/responsive|breakpoint|device|viewport/.test(lower)) return 'responsive'
+  if (/component/.test(lower) || COMPONENT_NAME.test(lower)) return 'components'
+  return undefined
+}
+
+/**
+ * Layer by how far a token is from a raw value: 0 hops primitives, 1 alias, more mapped
+ */
+export const layerFromDepth = (depth: number): TokenLayer => (depth === 0 ? 'primitives' : depth === 1 ? 'alias' : 'mapped')
+
+/**
+ * Token paths to CSS custom property names without the dashes: "color/blue/500", "color.blue.500" → color-blue-500
+ */
+export const tokenName = (name: string): string => name.trim()
+  .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+  .toLowerCase()
+  .replace(/[\s/.]+/g, '-')
+  .replace(/[^a-z0-9_-]/g, '')
+  .replace(/-+/g, '-')
+  .replace(/^-|-$/g, '')
+
+const round = (value: number, digits: number): number => Number(value.toFixed(digits))
+
+// Unit-less numbers in exports: these names are lengths, everything else (weights, opacity, ratios) stays unitless
+const LENGTH_NAME = /(spacing|space|radius|size|width|height|breakpoint|gap|padding|margin|offset|inset|border|blur)/
+const UNITLESS_NAME = /(weight|opacity|line-?height|ratio|scale|z-?index|columns|duration)/
+
+/**
+ * A bare number as CSS, given the token's name: spacing-4 = 16 → 16px, font-weight = 600 → 600
+ */
+export const formatTokenNumber = (name: string, value: number): string => {
+  const lower = name.toLowerCase()
+  return LENGTH_NAME.test(lower) && !UNITLESS_NAME.test(lower) ? `${round(value, 2)}px` : `${round(value, 3)}`
+}
+
+// Aliases can repeat a reference ({space.1} {space.1}), so nesting could otherwise double a value per level
+const MAX_RESOLVED_CHARS = 2000
+
+const REFERENCE = /\{([^{}]+)\}|var\(\s*--([\w-]+)\s*(?:,[^)]*)?\)/g
+
+const referencesIn = (value: string): string[] => [...value.matchAll(REFERENCE)].map((match) => tokenName(match[1] ?? match[2]!))
+
+const TEXT_STYLES = /text-?styles?|typography/i
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const scalar = (name: string, value: unknown): string | undefined => {
+  if (typeof value === 'string') return value
+  if (typeof value === 'number') return formatTokenNumber(name, value)
+  if (typeof value === 'boolean') return String(value)
+  return undefined
+}
+
+/**
+ * Token JSON to raw tokens. Understands `$value` (DTCG) and `value` (Tokens Studio) leaves, composite
+ * values such as typography objects (one token per property: text-h1-font-size), and plain nested
+ * exports like textStyles.json where every leaf is a value. A top-level group or file named after a
+ * layer sets the layer and is dropped from the names.
+ */
+export const parseTokenJson = (json: unknown, file: string): RawToken[] => {
+  const tokens: RawToken[] = []
+  const base = file.split('/').pop()!.replace(/\.json$/i, '')
+  // Text styles are roles UI code applies directly, whatever they alias
+  const fileLayer = layerFromName(base) ?? (TEXT_STYLES.test(base) ? 'mapped' : undefined)
+
+  const emit = (path: string[], value: unknown, layer: TokenLayer | undefined, type?: string, description?: string): void => {
+    const name = tokenName(path.join('-'))
+    if (!name) return
+    const text = scalar(name, value)
+    if (text !== undefined) {
+      tokens.push({name, value: text, file, layer, type, description})
+      return
+    }
+    // Composite value (typography, shadow, border): one token per property
+    if (isRecord(value)) {
+      for (const [key, part] of Object.entries(value)) emit([...path, key], part, layer, type, description)
+    }
+  }
+
+  const walk = (node: unknown, path: string[], layer: TokenLayer | undefined, inheritedType?: string): void => {
+    if (!isRecord(node)) {
+      emit(path, node, layer, inheritedType)
+      return
+    }
+    const type = typeof node.$type === 'string' ? node.$type : typeof node.type === 'string' ? node.type : inheritedType
+    const value = '$value' in node ? node.$value : 'value' in node ? node.value : undefined
+    if (value !== undefined) {
+      const description = typeof node.$description === 'string' ? node.$description : typeof node.description === 'string' ? node.description : undefined
+      emit(path, value, layer, type, description)
+      return
+    }
+    for (const [key, child] of Object.entries(node)) {
+      if (key.startsWith('$')) continue
+      // Tokens Studio metadata, not tokens
+      if (path.length === 0 && key === 'tokenSetOrder') continue
+      // Component groups keep their name: it's part of the token (button-primary-background)
+      const setLayer = path.length === 0 && !COMPONENT_NAME.test(key.toLowerCase()) ? layerFromName(key) : undefined
+      walk(child, setLayer ? [] : [...path, key], layer ?? setLayer, type)
+    }
+  }
+
+  walk(json, [], fileLayer)
+  return tokens
+}
+
+/**
+ * Index raw tokens and resolve every alias chain. Later files win on duplicate names.
+ * References are tried as written, then without a leading layer/set segment ({primitives.color.blue} → color-blue).
+ */
+export const buildTokenSet = (raw: RawToken[]): TokenSet => {
+  const byName = new Map<string, RawToken>()
+  raw.forEach((token) => byName.set(token.name, token))
+
+  const target = (reference: string): string | undefined => {
+    if (byName.has(reference)) return reference
+    const [first, ...rest] = reference.split('-')
+    if (first && layerFromName(first) && rest.length > 0 && byName.has(rest.join('-'))) return rest.join('-')
+    return undefined
+  }
+
+  const issues: TokenIssue[] = []
+  const resolved = new Map<string, {value: string | null, chain: string[], depth: number}>()
+  const reported = new Set<string>()
+  const report = (issue: TokenIssue): void => {
+    const key = `${issue.kind}:${issue.token}`
+    if (reported.has(key)) return
+    reported.add(key)
+    issues.push(issue)
+  }
+
+  // The alias path being walked, and every token found on a cycle. Everything else is resolved
+  // once: a wide alias graph from an uploaded file must not be walked once per path through it.
+  const path: string[] = []
+  const walking = new Set<string>()
+  const cyclic = new Set<string>()
+
+  const resolve = (name: string): {value: string | null, chain: string[], depth: number} => {
+    const known = resolved.get(name)
+    if (known) return known
+    const token = byName.get(name)!
+    if (walking.has(name)) {
+      const cycle = [...path.slice(path.indexOf(name)), name]
+      // Entering the same cycle from another of its tokens finds it again; report it once
+      if (!cycle.every((step) => cyclic.has(step))) {
+        report({kind: 'cycle', token: name, file: token.file, message: `Alias cycle: ${cycle.map((step) => `--${step}`).join(' → ')}`})
+      }
+      cycle.forEach((step) => cyclic.add(step))
+      return {value: null, chain: [name], depth: 0}
+    }
+
+    path.push(name)
+    walking.add(name)
+    let value: string | null = token.value
+    let chain = [name]
+    let depth = 0
+    const references = referencesIn(token.value)
+    for (const reference of references) {
+      const found = target(reference)
+      if (!found) {
+        report({kind: 'missing-reference', token: name, file: token.file, message: `--${name} references --${reference}, which is not defined`})
+        value = null
+        continue
+      }
+      const inner = resolve(found)
+      depth = Math.max(depth, inner.depth + 1)
+      if (value === null || inner.value === null) {
+        value = null
+        continue
+      }
+      value = value.replace(REFERENCE, (match, braced?: string, dashed?: string) => (
+        target(tokenName(braced ?? dashed!)) === found ? inner.value! : match
+      ))
+      if (value.length > MAX_RESOLVED_CHARS) {
+        report({kind: 'too-long', token: name, file: token.file, message: `--${name} resolves to more than ${MAX_RESOLVED_CHARS} characters`})
+        value = null
+        continue
+      }
+      // A pure alias keeps its chain so lint messages can show where a value comes from
+      if (references.length === 1 && !token.value.replace(REFERENCE, '').trim()) chain = [name, ...inner.chain]
+    }
+    path.pop()
+    walking.delete(name)
+
+    const result = {value, chain, depth}
+    // Tokens on a cycle stay unresolved for every entry point, not just the first one walked
+    if (!cyclic.has(name)) resolved.set(name, result)
+    return result
+  }
+
+  const tokens = new Map<string, DesignToken>()
+  for (const token of byName.values()) {
+    const {value, chain, depth} = resolve(token.name)
+    tokens.set(token.name, {
+      ...token,
+      layer: token.layer ?? (COMPONENT_NAME.test(token.name) ? 'components' : layerFromDepth(depth)),
+      references: referencesIn(token.value).map((reference) => target(reference) ?? reference),
+      resolved: value,
+      chain,
+    })
+  }
+
+  return {tokens, issues, files: [...new Set(raw.map((token) => token.file))]}
+}
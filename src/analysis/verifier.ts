@@ -0,0 +1,164 @@
+/**
+ * Purpose: Verify a learner's HTML/CSS/JS exercise against acceptance checks in jsdom, inside an isolated child process.
+ * Inputs: uploaded files (html/css/js or .zip), checks (structured or acceptance-criteria strings)
+ * Outputs: VerificationReport with pass/fail per criterion, plus a text block for the prompt
+ * Example: const report = await verifyUploads(files, ['an h1 with text "Hello" exists'])
+ */
+import {spawn} from 'child_process'
+import fs from 'fs'
+import path from 'path'
+import {fileURLToPath, pathToFileURL} from 'url'
+import {createRequire} from 'module'
+import {collectSourceFiles, type SourceFile, type UploadedFile} from './files.js'
+import {describeCheck, parseCheck, type CheckInput} from './checks.js'
+import type {CriterionResult, SandboxInput, SandboxOutput} from './sandbox.js'
+
+export type {CriterionResult}
+
+export interface VerificationReport {
+  passed: boolean // every checkable criterion passed
+  entry: string | null // HTML file that was loaded
+  results: CriterionResult[]
+  errors: string[]
+  skipped: string[] // upload entries that were not loaded
+  durationMs: number
+}
+
+export interface VerifyOptions {
+  scriptTimeoutMs?: number | undefined // per script and per click
+  totalTimeoutMs?: number | undefined // whole run, including async work queued by the page
+}
+
+const DEFAULT_SCRIPT_TIMEOUT_MS = 1000
+const DEFAULT_TOTAL_TIMEOUT_MS = 5000
+const SANDBOX_MEMORY_MB = 128
+
+const requireFromHere = createRequire(import.meta.url)
+// jsdom and its dependencies are the only files the sandbox process may read
+const NODE_MODULES = path.resolve(path.dirname(requireFromHere.resolve('jsdom/package.json')), '..')
+// Built by `npm run build:sandbox`: tsx can't run under the permission model (its loader needs a worker,
+// esbuild a child process). The lockdown is preloaded so it runs before jsdom is loaded.
+const SANDBOX_DIR = fileURLToPath(new URL('../../dist/sandbox/', import.meta.url))
+const SANDBOX_LOCKDOWN = path.join(SANDBOX_DIR, 'sandboxLockdown.mjs')
+const SANDBOX_ENTRY = path.join(SANDBOX_DIR, 'sandboxProcess.mjs')
+
+// Node 20 names the permission model flag --experimental-permission
+const PERMISSION_FLAG = process.allowedNodeEnvironmentFlags.has('--permission') ? '--permission' : '--experimental-permission'
+
+const pickEntry = (files: SourceFile[]): SourceFile | undefined => {
+  const html = files.filter((file) => file.language === 'html')
+  return html.find((file) => /(^|\/)index\.html?$/i.test(file.path)) ?? html[0]
+}
+
+/**
+ * Run one job in a fresh Node process: no child processes, workers, file writes, sockets or environment,
+ * reads limited to node_modules and the sandbox build, and no string compilation in the Node realm
+ */
+const runSandboxProcess = (input: SandboxInput, totalTimeoutMs: number): Promise<SandboxOutput> => {
+  if (!fs.existsSync(SANDBOX_LOCKDOWN) || !fs.existsSync(SANDBOX_ENTRY)) {
+    return Promise.reject(new Error('sandbox bundle is missing; run npm run build:sandbox'))
+  }
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [
+      PERMISSION_FLAG,
+      `--allow-fs-read=${NODE_MODULES}`,
+      `--allow-fs-read=${SANDBOX_DIR}`,
+      '--disallow-code-generation-from-strings',
+      `--max-old-space-size=${SANDBOX_MEMORY_MB}`,
+      '--no-warnings',
+      `--import=${pathToFileURL(SANDBOX_LOCKDOWN).href}`,
+      SANDBOX_ENTRY,
+    ], {cwd: path.dirname(NODE_MODULES), env: {}, stdio: ['ignore', 'ignore', 'pipe', 'ipc']})
+
+    let stderr = ''
+    child.stderr!.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-2000)
+    })
+
+    // The first of result, error, exit or timeout decides; the process never outlives the job
+    let settled = false
+    const settle = (finish: () => void): void => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      child.kill('SIGKILL')
+      finish()
+    }
+    const timer = setTimeout(() => settle(() => reject(new Error('verification timed out'))), totalTimeoutMs)
+
+    child.once('message', (output) => settle(() => resolve(output as SandboxOutput)))
+    child.on('error', (err) => settle(() => reject(err)))
+    child.once('exit', (code) => settle(() => {
+      const reason = stderr.trim().split('\n').find((line) => /Error/.test(line))
+      reject(new Error(`sandbox exited with code ${code}${reason ? `: ${reason}` : ''}`))
+    }))
+    child.send(input)
+  })
+}
+
+export const verifyProject = async (
+  files: SourceFile[],
+  checks: CheckInput[],
+  options: VerifyOptions = {},
+  skipped: string[] = []
+): Promise<VerificationReport> => {
+  const started = Date.now()
+  const parsed = checks.map((check) => (
+    typeof check === 'string' ? parseCheck(check) ?? {unsupported: check} : check
+  ))
+  const criteria = checks.map((check) => (typeof check === 'string' ? check : describeCheck(check)))
+  const report = (results: CriterionResult[], errors: string[], entry: string | null): VerificationReport => ({
+    passed: results.some((result) => result.status !== 'unsupported') &&
+      results.every((result) => result.status === 'pass' || result.status === 'unsupported'),
+    entry,
+    results,
+    errors,
+    skipped,
+    durationMs: Date.now() - started,
+  })
+
+  const entry = pickEntry(files)
+  if (!entry) {
+    return report(criteria.map((criterion) => ({criterion, status: 'error', message: 'No HTML file to load'})), [], null)
+  }
+
+  try {
+    const output = await runSandboxProcess({
+      entry: entry.path,
+      files,
+      checks: parsed,
+      scriptTimeoutMs: options.scriptTimeoutMs ?? DEFAULT_SCRIPT_TIMEOUT_MS,
+    }, options.totalTimeoutMs ?? DEFAULT_TOTAL_TIMEOUT_MS)
+    return report(output.results, output.errors, entry.path)
+  } catch (err) {
+    console.error('verifier_error', {name: (err as Error).name})
+    const message = `Sandbox failed: ${(err as Error).message}`
+    return report(criteria.map((criterion) => ({criterion, status: 'error', message})), [], entry.path)
+  }
+}
+
+export const verifyUploads = async (
+  uploads: UploadedFile[],
+  checks: CheckInput[],
+  options: VerifyOptions = {}
+): Promise<VerificationReport> => {
+  const {files, skipped} = collectSourceFiles(uploads)
+  return verifyProject(files, checks, options, skipped)
+}
+
+const STATUS_ICON: Record<CriterionResult['status'], string> = {pass: '✅', fail: '❌', error: '⚠️', unsupported: '❔'}
+
+/**
+ * Structured text for the "File Analysis" prompt section
+ */
+export const formatVerification = (report: VerificationReport): string => {
+  const passed = report.results.filter((result) => result.status === 'pass').length
+  const lines = [
+    `Verification of ${report.entry ?? 'upload'}: ${passed}/${report.results.length} criteria passed${report.passed ? ' - all checks pass' : ''}`,
+    ...report.results.map((result) => `${STATUS_ICON[result.status]} ${result.criterion} - ${result.message}`),
+  ]
+  if (report.errors.length > 0) {
+    lines.push(`Runtime errors: ${report.errors.slice(0, 5).join('; ')}`)
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,426 @@
+/**
+ * Purpose: Token-accurate chunking that respects Markdown headings, fenced code blocks and code files.
+ * Inputs: document text, format (markdown|code|text), token limits
+ * Outputs: chunks of ~800–1200 tokens with ~15% overlap and heading breadcrumbs
+ * Example: const chunks = chunkDocument(markdown, {format: detectFormat('notes.md')})
+ */
+import {Tiktoken} from 'js-tiktoken/lite'
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base'
+
+// text-embedding-3-large (and gpt-4o-mini's predecessor family) tokenize with cl100k_base
+const encoder = new Tiktoken(cl100k_base)
+
+export type ChunkFormat = 'markdown' | 'code' | 'text'
+
+export interface ChunkOptions {
+  format?: ChunkFormat | undefined
+  maxTokens?: number | undefined // target ceiling per chunk, overlap included
+  minTokens?: number | undefined // below this we keep filling instead of breaking at a heading
+  overlap?: number | undefined // fraction of maxTokens carried into the next chunk
+}
+
+export interface TextChunk {
+  text: string // breadcrumb + body, what gets embedded
+  body: string
+  headingPath: string[]
+  tokens: number
+}
+
+interface Block {
+  kind: 'heading' | 'code' | 'text'
+  text: string
+  headingPath: string[]
+  tokens: number
+  fence?: string | undefined // opening fence line for fenced code, e.g. ```css
+}
+
+const MARKDOWN_EXTENSIONS = ['.md', '.mdc', '.markdown', '.mdx']
+const CODE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.css', '.scss', '.html', '.json', '.py', '.sh', '.prisma', '.sql']
+
+/**
+ * Count tokens with the embedding model's tokenizer
+ */
+export const countTokens = (text: string): number => encoder.encode(text).length
+
+/**
+ * Guess the chunk format from a file name or path
+ */
+export const detectFormat = (fileName: string): ChunkFormat => {
+  const lower = fileName.toLowerCase()
+  if (MARKDOWN_EXTENSIONS.some((ext) => lower.endsWith(ext))) return 'markdown'
+  if (CODE_EXTENSIONS.some((ext) => lower.endsWith(ext))) return 'code'
+  return 'text'
+}
+
+const LANGUAGES: Record<string, string> = {
+  html: 'html', htm: 'html',
+  css: 'css', scss: 'scss',
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  ts: 'typescript', tsx: 'typescript',
+  json: 'json',
+  md: 'markdown', mdc: 'markdown', mdx: 'markdown', markdown: 'markdown',
+  py: 'python', sh: 'shell', sql: 'sql', prisma: 'prisma',
+}
+
+/**
+ * Language of a file for retrieval filters ("only CSS docs"), from its extension
+ */
+export const detectLanguage = (fileName: string): string | undefined => {
+  const extension = fileName.toLowerCase().split('/').pop()!.split('.')
+  return extension.length > 1 ? LANGUAGES[extension.pop()!] : undefined
+}
+
+const makeBlock = (kind: Block['kind'], text: string, headingPath: string[], fence?: string): Block => ({
+  kind,
+  text,
+  headingPath,
+  tokens: countTokens(text),
+  fence,
+})
+
+const FENCE = /^\s*(`{3,}|~{3,})/
+
+// A fence closes with the same character, at least as long as the opener
+const closesFence = (line: string, fence: string): boolean => line.trim().startsWith(fence) && line.trim().replace(/[`~]/g, '') === ''
+
+/**
+ * Code lines of a block without its fence lines, and the line that closes it. An unterminated
+ * fence has no closing line to strip; pieces of it are closed with the opener's marker.
+ */
+const codeLines = (block: Block): {lines: string[], closing: string} => {
+  const lines = block.text.split('\n')
+  if (!block.fence) return {lines, closing: ''}
+  lines.shift()
+  const fence = block.fence.match(FENCE)?.[1] ?? '```'
+  const last = lines[lines.length - 1]
+  const closing = last !== undefined && closesFence(last, fence) ? lines.pop()! : fence
+  return {lines, closing}
+}
+
+/**
+ * Split Markdown into heading, fenced-code and paragraph blocks, tracking the heading stack
+ */
+const parseMarkdown = (text: string): Block[] => {
+  const blocks: Block[] = []
+  const headings: string[] = []
+  let paragraph: string[] = []
+  let code: string[] | null = null
+  let fence = ''
+
+  const flushParagraph = (): void => {
+    const body = paragraph.join('\n').trim()
+    if (body) blocks.push(makeBlock('text', body, [...headings]))
+    paragraph = []
+  }
+
+  for (const line of text.split('\n')) {
+    if (code) {
+      code.push(line)
+      if (closesFence(line, fence)) {
+        blocks.push(makeBlock('code', code.join('\n'), [...headings], code[0]))
+        code = null
+      }
+      continue
+    }
+
+    const fenceMatch = line.match(FENCE)
+    if (fenceMatch?.[1]) {
+      flushParagraph()
+      fence = fenceMatch[1]
+      code = [line]
+      continue
+    }
+
+    const headingMatch = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/)
+    if (headingMatch?.[1] && headingMatch[2]) {
+      flushParagraph()
+      const level = headingMatch[1].length
+      headings.splice(level - 1)
+      // Fill skipped levels so the path depth always matches the heading level
+      while (headings.length < level - 1) headings.push('')
+      headings.push(headingMatch[2])
+      blocks.push(makeBlock('heading', line.trim(), headings.filter(Boolean)))
+      continue
+    }
+
+    if (line.trim() === '') {
+      flushParagraph()
+    } else {
+      paragraph.push(line)
+    }
+  }
+
+  // Unterminated fence: keep what we have as code
+  if (code) blocks.push(makeBlock('code', code.join('\n'), headings.filter(Boolean), code[0]))
+  flushParagraph()
+
+  return blocks.map((block) => ({...block, headingPath: block.headingPath.filter(Boolean)}))
+}
+
+/**
+ * Code files split at blank lines, which usually fall between top-level declarations and rules
+ */
+const parseCode = (text: string): Block[] => (
+  text.split(/\n\s*\n/)
+    .filter((part) => part.trim().length > 0)
+    .map((part) => makeBlock('code', part.replace(/\s+$/, ''), []))
+)
+
+const parseText = (text: string): Block[] => (
+  text.split(/\n\s*\n/)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part) => makeBlock('text', part, []))
+)
+
+/**
+ * Hard split by token count, used only when no natural boundary is small enough
+ */
+const splitByTokens = (text: string, maxTokens: number): string[] => {
+  const tokens = encoder.encode(text)
+  const parts: string[] = []
+  for (let i = 0; i < tokens.length; i += maxTokens) {
+    parts.push(encoder.decode(tokens.slice(i, i + maxTokens)))
+  }
+  return parts
+}
+
+/**
+ * Group lines into pieces under the token limit, re-wrapping fenced code so every piece stays valid Markdown
+ */
+const splitCodeBlock = (block: Block, maxTokens: number): Block[] => {
+  const {lines, closing} = codeLines(block)
+  const wrap = (body: string): string => (block.fence ? `${block.fence}\n${body}\n${closing}` : body)
+  const budget = maxTokens - (block.fence ? countTokens(wrap('')) : 0)
+
+  const pieces: Block[] = []
+  let current: string[] = []
+  let currentTokens = 0
+  const flush = (): void => {
+    if (current.length === 0) return
+    pieces.push(makeBlock('code', wrap(current.join('\n')), block.headingPath, block.fence))
+    current = []
+    currentTokens = 0
+  }
+
+  for (const line of lines) {
+    const lineTokens = countTokens(line) + 1
+    if (lineTokens > budget) {
+      flush()
+      splitByTokens(line, budget).forEach((part) => {
+        pieces.push(makeBlock('code', wrap(part), block.headingPath, block.fence))
+      })
+      continue
+    }
+    if (currentTokens + lineTokens > budget) flush()
+    current.push(line)
+    currentTokens += lineTokens
+  }
+  flush()
+
+  return pieces
+}
+
+/**
+ * Split prose at sentence ends. Punctuation must be followed by whitespace, so
+ * `console.log` or `1.5rem` never start a new sentence.
+ */
+const splitTextBlock = (block: Block, maxTokens: number): Block[] => {
+  const sentences = block.text.split(/(?<=[.!?])\s+/)
+  const pieces: Block[] = []
+  let current = ''
+
+  const flush = (): void => {
+    if (current.trim()) pieces.push(makeBlock('text', current.trim(), block.headingPath))
+    current = ''
+  }
+
+  for (const sentence of sentences) {
+    if (countTokens(sentence) > maxTokens) {
+      flush()
+      splitByTokens(sentence, maxTokens).forEach((part) => {
+        pieces.push(makeBlock('text', part.trim(), block.headingPath))
+      })
+      continue
+    }
+    const candidate = current ? `${current} ${sentence}` : sentence
+    if (countTokens(candidate) > maxTokens) {
+      flush()
+      current = sentence
+    } else {
+      current = candidate
+    }
+  }
+  flush()
+
+  return pieces
+}
+
+/**
+ * Trailing slice of a block that fits the overlap budget, or null when nothing sensible fits
+ */
+const tailOf = (block: Block, budget: number): Block | null => {
+  if (block.tokens <= budget) return block
+  if (block.kind === 'heading') return null
+
+  if (block.kind === 'code') {
+    const {lines, closing} = codeLines(block)
+    const kept: string[] = []
+    let used = block.fence ? countTokens(`${block.fence}\n\n${closing}`) : 0
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const line = lines[i] ?? ''
+      const lineTokens = countTokens(line) + 1
+      if (used + lineTokens > budget) break
+      kept.unshift(line)
+      used += lineTokens
+    }
+    if (kept.length === 0) return null
+    const body = kept.join('\n')
+    return makeBlock('code', block.fence ? `${block.fence}\n${body}\n${closing}` : body, block.headingPath, block.fence)
+  }
+
+  // Prose: last `budget` tokens, trimmed forward to a word boundary
+  const tokens = encoder.encode(block.text)
+  const tail = encoder.decode(tokens.slice(-budget))
+  const trimmed = tail.replace(/^\S*\s+/, '')
+  return trimmed ? makeBlock('text', trimmed, block.headingPath) : null
+}
+
+const breadcrumbFor = (blocks: Block[]): string[] => {
+  const first = blocks[0]
+  if (!first) return []
+  // A chunk that opens with a heading already shows it; only keep its parents as context
+  return first.kind === 'heading' ? first.headingPath.slice(0, -1) : first.headingPath
+}
+
+const renderChunk = (blocks: Block[]): TextChunk => {
+  const headingPath = breadcrumbFor(blocks)
+  const body = blocks.map((block) => block.text).join('\n\n')
+  const text = headingPath.length > 0 ? `${headingPath.join(' > ')}\n\n${body}` : body
+  return {text, body, headingPath, tokens: countTokens(text)}
+}
+
+/**
+ * Chunk a document into ~800–1200 token pieces with ~15% overlap.
+ * Markdown keeps fenced code intact where possible and prefixes each chunk with its heading breadcrumb.
+ */
+export const chunkDocument = (text: string, options: ChunkOptions = {}): TextChunk[] => {
+  const maxTokens = options.maxTokens ?? 1000
+  const minTokens = options.minTokens ?? Math.min(800, Math.floor(maxTokens * 0.8))
+  const overlapTokens = Math.floor(maxTokens * (options.overlap ?? 0.15))
+  const format = options.format ?? (/^(#{1,6}\s|\s*```)/m.test(text) ? 'markdown' : 'text')
+  // Leave room for the breadcrumb line so finished chunks stay under maxTokens
+  const blockLimit = Math.max(50, maxTokens - 64)
+
+  const parsed = format === 'markdown' ? parseMarkdown(text) : format === 'code' ? parseCode(text) : parseText(text)
+  const blocks = parsed.flatMap((block) => {
+    if (block.tokens <= blockLimit - overlapTokens) return [block]
+    return block.kind === 'code'
+      ? splitCodeBlock(block, blockLimit - overlapTokens)
+      : splitTextBlock(block, blockLimit - overlapTokens)
+  })
+
+  const chunks: TextChunk[] = []
+  let current: Block[] = []
+  let currentTokens = 0
+  let hasNewContent = false
+
+  const flush = (): void => {
+    if (!hasNewContent) return
+    chunks.push(renderChunk(current))
+
+    // Carry trailing blocks (or the tail of the last one) into the next chunk as overlap
+    const carried: Block[] = []
+    let carriedTokens = 0
+    for (let i = current.length - 1; i >= 0; i--) {
+      const block = current[i]
+      if (!block) break
+      const piece = tailOf(block, overlapTokens - carriedTokens)
+      if (!piece) break
+      carried.unshift(piece)
+      carriedTokens += piece.tokens
+      if (piece !== block) break
+    }
+    current = carried
+    currentTokens = carriedTokens
+    hasNewContent = false
+  }
+
+  for (const block of blocks) {
+    // Prefer breaking at a top-level section once the chunk is big enough
+    const sectionStart = block.kind === 'heading' && /^#{1,2}\s/.test(block.text)
+    if (hasNewContent && (currentTokens + block.tokens > blockLimit || (sectionStart && currentTokens >= minTokens))) {
+      flush()
+    }
+    // Overlap never belongs to a different top-level section
+    if (sectionStart && !hasNewContent) {
+      current = []
+      currentTokens = 0
+    }
+    current.push(block)
+    currentTokens += block.tokens + 1
+    hasNewContent = true
+  }
+  flush()
+
+  return chunks
+}
+
+export interface LineRange {
+  startLine: number // 1-based, inclusive
+  endLine: number
+}
+
+const sameLine = (content: string, body: string): boolean => content === body || content.includes(body)
+
+/**
+ * Map chunks back to the line ranges they came from. Chunk bodies keep the source's
+ * non-blank lines in order, so a chunk starts where the longest run of its lines appears
+ * (searching forward from the previous chunk) and ends at its last matched line. Split pieces only
+ * match partially; a chunk that can't be placed gets no range.
+ */
+export const locateChunks = (text: string, chunks: TextChunk[]): Array<LineRange | undefined> => {
+  const lines = text.split('\n')
+    .map((line, index) => ({line: index + 1, text: line.trim()}))
+    .filter((line) => line.text.length > 0)
+
+  let cursor = 0
+  return chunks.map((chunk) => {
+    const body = chunk.body.split('\n').map((line) => line.trim()).filter(Boolean)
+    // Length of the contiguous run of body lines found at this index
+    const runAt = (index: number): number => {
+      let run = 0
+      while (run < body.length && lines[index + run] && sameLine(lines[index + run]!.text, body[run]!)) run++
+      return run
+    }
+
+    // Short repeated lines (`}`, `try {`) can match early, so the longest run wins
+    let start = -1
+    let best = 0
+    const minimum = Math.min(3, body.length)
+    for (let index = cursor; index < lines.length && best < body.length; index++) {
+      const run = runAt(index)
+      if (run >= minimum && run > best) {
+        start = index
+        best = run
+      }
+    }
+    if (start < 0) return undefined
+
+    // Lines that don't match (re-wrapped fences, prose joined across lines) are skipped
+    let next = start
+    for (const line of body) {
+      const candidate = lines[next]
+      if (candidate && sameLine(candidate.text, line)) next++
+    }
+    cursor = start
+    return {startLine: lines[start]!.line, endLine: lines[Math.max(start, next - 1)]!.line}
+  })
+}
+
+/**
+ * Chunk text into ~800-1200 token pieces with ~15% overlap
+ */
+export const chunkText = (text: string, maxTokens: number = 1000, overlap: number = 0.15): string[] => (
+  chunkDocument(text, {maxTokens, overlap}).map((chunk) => chunk.text)
+)
@@ -1,8 +1,8 @@
 /**
- * Purpose: Shared Prisma client instance.
+ * Purpose: Shared Prisma client instance and error helpers.
  * Example: import {prisma} from './db/client.js'
  */
-import {PrismaClient} from '@prisma/client'
+import {Prisma, PrismaClient} from '@prisma/client'
 
 declare global {
   var __prisma: PrismaClient | undefined
@@ -17,3 +17,9 @@ if (process.env.NODE_ENV !== 'production') {
   globalThis.__prisma = prisma
 }
 
+/**
+ * A unique constraint rejected the write (P2002), e.g. two requests inserting the same position
+ */
+export const isUniqueViolation = (err: unknown): boolean => (
+  err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002'
+)
@@ -0,0 +1,146 @@
+/**
+ * Purpose: Ingest bookkeeping - per-document content hashes, source cursors and the history of ingest runs.
+ * Inputs: source name, document ids and hashes, cursor values, per-source run counts
+ * Outputs: DocumentState, SourceCursor and IngestRun records
+ * Example: const states = await getDocumentStates('notion')
+ */
+import {z} from 'zod'
+import {prisma} from './client.js'
+
+export const INGEST_RUN_STATUSES = ['running', 'completed', 'failed'] as const
+export type IngestRunStatus = typeof INGEST_RUN_STATUSES[number]
+
+export const SourceStatsSchema = z.object({
+  added: z.number().int(),
+  updated: z.number().int(),
+  deleted: z.number().int(),
+  skipped: z.number().int(),
+  chunks: z.number().int(), // chunks embedded and written
+  pruned: z.number().int(), // orphaned chunks removed
+  failed: z.number().int().optional(), // documents that couldn't be embedded or written
+  error: z.string().optional(),
+})
+
+export type SourceStats = z.infer<typeof SourceStatsSchema>
+
+export const emptySourceStats = (): SourceStats => ({added: 0, updated: 0, deleted: 0, skipped: 0, chunks: 0, pruned: 0})
+
+export interface DocumentStateRecord {
+  source: string
+  documentId: string
+  title: string | null
+  contentHash: string
+  version: string | null
+  schemaVersion: number // chunk layout the document's chunks were written with
+  chunkCount: number
+  lastRunId: string | null
+  updatedAt: Date
+}
+
+export interface IngestRunRecord {
+  id: string
+  sources: string[]
+  full: boolean
+  status: IngestRunStatus
+  stats: Record<string, SourceStats>
+  error: string | null
+  startedAt: Date
+  finishedAt: Date | null
+}
+
+type StateRow = NonNullable<Awaited<ReturnType<typeof prisma.documentState.findUnique>>>
+type RunRow = NonNullable<Awaited<ReturnType<typeof prisma.ingestRun.findUnique>>>
+
+const toStateRecord = (row: StateRow): DocumentStateRecord => ({
+  source: row.source,
+  documentId: row.documentId,
+  title: row.title,
+  contentHash: row.contentHash,
+  version: row.version,
+  schemaVersion: row.schemaVersion,
+  chunkCount: row.chunkCount,
+  lastRunId: row.lastRunId,
+  updatedAt: row.updatedAt,
+})
+
+const toRunRecord = (row: RunRow): IngestRunRecord => {
+  const sources = z.array(z.string()).safeParse(row.sources)
+  const stats = z.record(SourceStatsSchema).safeParse(row.stats)
+  return {
+    id: row.id,
+    sources: sources.success ? sources.data : [],
+    full: row.full,
+    status: (INGEST_RUN_STATUSES as readonly string[]).includes(row.status) ? row.status as IngestRunStatus : 'failed',
+    stats: stats.success ? stats.data : {},
+    error: row.error,
+    startedAt: row.startedAt,
+    finishedAt: row.finishedAt,
+  }
+}
+
+/**
+ * Every known document of a source, keyed by documentId
+ */
+export const getDocumentStates = async (source: string): Promise<Map<string, DocumentStateRecord>> => {
+  const rows = await prisma.documentState.findMany({where: {source}})
+  return new Map(rows.map((row) => [row.documentId, toStateRecord(row)]))
+}
+
+export const saveDocumentState = async (
+  state: Omit<DocumentStateRecord, 'updatedAt'>
+): Promise<DocumentStateRecord> => {
+  const data = {
+    title: state.title,
+    contentHash: state.contentHash,
+    version: state.version,
+    schemaVersion: state.schemaVersion,
+    chunkCount: state.chunkCount,
+    lastRunId: state.lastRunId,
+  }
+  const row = await prisma.documentState.upsert({
+    where: {source_documentId: {source: state.source, documentId: state.documentId}},
+    create: {source: state.source, documentId: state.documentId, ...data},
+    update: data,
+  })
+  return toStateRecord(row)
+}
+
+export const deleteDocumentState = async (source: string, documentId: string): Promise<void> => {
+  await prisma.documentState.deleteMany({where: {source, documentId}})
+}
+
+export const getSourceCursors = async (source: string): Promise<Map<string, string>> => {
+  const rows = await prisma.sourceCursor.findMany({where: {source}})
+  return new Map(rows.map((row) => [row.key, row.value]))
+}
+
+export const saveSourceCursors = async (source: string, cursors: Record<string, string>): Promise<void> => {
+  await prisma.$transaction(Object.entries(cursors).map(([key, value]) => prisma.sourceCursor.upsert({
+    where: {source_key: {source, key}},
+    create: {source, key, value},
+    update: {value},
+  })))
+}
+
+export const startIngestRun = async (sources: string[], full: boolean): Promise<IngestRunRecord> => {
+  const row = await prisma.ingestRun.create({data: {sources, full}})
+  return toRunRecord(row)
+}
+
+export const finishIngestRun = async (
+  runId: string,
+  status: Exclude<IngestRunStatus, 'running'>,
+  stats: Record<string, SourceStats>,
+  error?: string | undefined
+): Promise<IngestRunRecord> => {
+  const row = await prisma.ingestRun.update({
+    where: {id: runId},
+    data: {status, stats, error: error ?? null, finishedAt: new Date()},
+  })
+  return toRunRecord(row)
+}
+
+export const listIngestRuns = async (limit: number = 10): Promise<IngestRunRecord[]> => {
+  const rows = await prisma.ingestRun.findMany({orderBy: {startedAt: 'desc'}, take: limit})
+  return rows.map(toRunRecord)
+}
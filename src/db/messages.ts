@@ -0,0 +1,229 @@
+/**
+ * Purpose: One MessageStore interface for chat persistence, backed by Prisma (Postgres) or a JSON file.
+ * Inputs: sessionId, messages ({role, content})
+ * Outputs: stored messages, session listings
+ * Example: await messageStore.appendMessage(sessionId, {role:'user',content:'hi'})
+ */
+import fs from 'fs'
+import path from 'path'
+import {randomUUID} from 'crypto'
+import {fileURLToPath} from 'url'
+import {env} from '../env.js'
+import {prisma} from './client.js'
+
+export type MessageRole = 'user' | 'assistant' | 'system'
+
+export interface ConversationMessage {
+  id?: string
+  role: MessageRole
+  content: string
+  timestamp: Date
+}
+
+export interface NewMessage {
+  role: MessageRole
+  content: string
+}
+
+export interface SessionInfo {
+  sessionId: string
+  messageCount: number
+  createdAt: Date
+  lastActivity: Date
+}
+
+export interface MessageStore {
+  kind: 'prisma' | 'file'
+  appendMessage: (sessionId: string, message: NewMessage) => Promise<ConversationMessage>
+  getMessages: (sessionId: string) => Promise<ConversationMessage[]>
+  getRecentMessages: (sessionId: string, limit: number) => Promise<ConversationMessage[]>
+  getMessagesAfter: (sessionId: string, afterMessageId?: string) => Promise<ConversationMessage[]> // oldest first; all when no id
+  listSessions: () => Promise<SessionInfo[]>
+  deleteSession: (sessionId: string) => Promise<boolean>
+}
+
+const toRole = (role: string): MessageRole => (
+  role === 'assistant' || role === 'system' ? role : 'user'
+)
+
+/**
+ * Prisma-backed store: sessions and messages live in the Session/Message tables
+ */
+export const createPrismaMessageStore = (): MessageStore => {
+  const toMessage = (row: {id: string, role: string, content: string, createdAt: Date}): ConversationMessage => ({
+    id: row.id,
+    role: toRole(row.role),
+    content: row.content,
+    timestamp: row.createdAt,
+  })
+
+  return {
+    kind: 'prisma',
+
+    appendMessage: async (sessionId, message) => {
+      // Session ids are minted by the client (or /chat), so create the row on first use
+      await prisma.session.upsert({
+        where: {id: sessionId},
+        create: {id: sessionId},
+        update: {},
+      })
+      const row = await prisma.message.create({
+        data: {sessionId, role: message.role, content: message.content},
+      })
+      return toMessage(row)
+    },
+
+    getMessages: async (sessionId) => {
+      const rows = await prisma.message.findMany({
+        where: {sessionId},
+        orderBy: {createdAt: 'asc'},
+      })
+      return rows.map(toMessage)
+    },
+
+    getRecentMessages: async (sessionId, limit) => {
+      const rows = await prisma.message.findMany({
+        where: {sessionId},
+        orderBy: {createdAt: 'desc'},
+        take: limit,
+      })
+      return rows.reverse().map(toMessage)
+    },
+
+    getMessagesAfter: async (sessionId, afterMessageId) => {
+      const rows = await prisma.message.findMany({
+        where: {sessionId},
+        orderBy: [{createdAt: 'asc'}, {id: 'asc'}],
+        ...(afterMessageId ? {cursor: {id: afterMessageId}, skip: 1} : {}),
+      })
+      return rows.map(toMessage)
+    },
+
+    listSessions: async () => {
+      const sessions = await prisma.session.findMany({
+        include: {
+          _count: {select: {messages: true}},
+          messages: {orderBy: {createdAt: 'desc'}, take: 1, select: {createdAt: true}},
+        },
+      })
+      return sessions
+        .filter((session) => session._count.messages > 0)
+        .map((session) => ({
+          sessionId: session.id,
+          messageCount: session._count.messages,
+          createdAt: session.createdAt,
+          lastActivity: session.messages[0]?.createdAt ?? session.updatedAt,
+        }))
+        .sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime())
+    },
+
+    deleteSession: async (sessionId) => {
+      // Messages cascade with the session
+      const {count} = await prisma.session.deleteMany({where: {id: sessionId}})
+      return count > 0
+    },
+  }
+}
+
+/**
+ * File-backed store for local development without Postgres. Keeps a Map in memory
+ * and rewrites the JSON file after every change.
+ */
+export const createFileMessageStore = (filePath: string): MessageStore => {
+  const history = new Map<string, ConversationMessage[]>()
+
+  const load = (): void => {
+    try {
+      if (!fs.existsSync(filePath)) return
+      const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, any[]>
+      Object.entries(parsed).forEach(([sessionId, messages]) => {
+        history.set(sessionId, messages.map((msg) => ({
+          id: msg.id ?? randomUUID(),
+          role: toRole(msg.role),
+          content: String(msg.content ?? ''),
+          timestamp: new Date(msg.timestamp),
+        })))
+      })
+      console.log(`📁 Loaded ${history.size} sessions from disk`)
+    } catch (err) {
+      console.error('message_file_load_error', {name: (err as Error).name})
+    }
+  }
+
+  const save = (): void => {
+    try {
+      fs.mkdirSync(path.dirname(filePath), {recursive: true})
+      fs.writeFileSync(filePath, JSON.stringify(Object.fromEntries(history), null, 2))
+    } catch (err) {
+      console.error('message_file_save_error', {name: (err as Error).name})
+    }
+  }
+
+  load()
+
+  return {
+    kind: 'file',
+
+    appendMessage: async (sessionId, message) => {
+      const stored: ConversationMessage = {
+        id: randomUUID(),
+        role: message.role,
+        content: message.content,
+        timestamp: new Date(),
+      }
+      const messages = history.get(sessionId) ?? []
+      messages.push(stored)
+      history.set(sessionId, messages)
+      save()
+      return stored
+    },
+
+    getMessages: async (sessionId) => [...(history.get(sessionId) ?? [])],
+
+    getRecentMessages: async (sessionId, limit) => (history.get(sessionId) ?? []).slice(-limit),
+
+    getMessagesAfter: async (sessionId, afterMessageId) => {
+      const messages = history.get(sessionId) ?? []
+      const index = afterMessageId ? messages.findIndex((msg) => msg.id === afterMessageId) : -1
+      return messages.slice(index + 1)
+    },
+
+    listSessions: async () => {
+      const sessions: SessionInfo[] = []
+      history.forEach((messages, sessionId) => {
+        const first = messages[0]
+        const last = messages[messages.length - 1]
+        if (!first || !last) return
+        sessions.push({
+          sessionId,
+          messageCount: messages.length,
+          createdAt: first.timestamp,
+          lastActivity: last.timestamp,
+        })
+      })
+      return sessions.sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime())
+    },
+
+    deleteSession: async (sessionId) => {
+      const deleted = history.delete(sessionId)
+      if (deleted) save()
+      return deleted
+    },
+  }
+}
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const messagesFile = path.join(__dirname, '../../data/messages.json')
+
+/**
+ * Pick the store from env: MESSAGE_STORE wins, otherwise Prisma when a database is configured
+ */
+const resolveStoreKind = (): MessageStore['kind'] => {
+  if (env.MESSAGE_STORE) return env.MESSAGE_STORE
+  return env.DATABASE_URL ? 'prisma' : 'file'
+}
+
+export const messageStore: MessageStore = resolveStoreKind() === 'prisma'
+  ? createPrismaMessageStore()
+  : createFileMessageStore(messagesFile)
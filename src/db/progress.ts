@@ -0,0 +1,146 @@
+/**
+ * Purpose: Persisted skill progress - current score per skill plus a history row for every update.
+ * Inputs: skillKey, score or delta, notes, source (manual|task|quiz|review|summary)
+ * Outputs: Progress records and ProgressEvent history
+ * Example: await recordProgress({skillKey:'flex-basics', delta:10, source:'quiz', notes:'centered a div'})
+ */
+import {z} from 'zod'
+import {prisma} from './client.js'
+
+// Skills from .cursor/rules/50-progress.mdc
+export const SKILL_KEYS = [
+  'html-basics',
+  'css-selectors',
+  'css-box-model',
+  'flex-basics',
+  'grid-basics',
+  'js-syntax',
+  'dom-basics',
+] as const
+
+export type SkillKey = typeof SKILL_KEYS[number]
+
+// What a chunk has to mention to count as teaching a skill; used to tag ingested chunks
+const SKILL_PATTERNS: Record<SkillKey, RegExp> = {
+  'html-basics': /<(html|head|body|h[1-6]|p|a|img|ul|ol|li|main|section|article|header|footer|nav|form|label|input|button)[\s>]|\bsemantic html\b|\bhtml (element|tag|attribute)s?\b/i,
+  'css-selectors': /\bselectors?\b|\bspecificity\b|\bpseudo-(class|element)s?\b|:(hover|focus|focus-visible|nth-child|not|is|where|has)\b/i,
+  'css-box-model': /\bbox[- ]model\b|\bbox-sizing\b|(^|[\s;{])(margin|padding|border)(-(top|right|bottom|left|width))?\s*:/im,
+  'flex-basics': /\bflexbox\b|display:\s*(inline-)?flex\b|\bflex-(direction|wrap|grow|shrink|basis)\b|\bjustify-content\b|\balign-items\b/i,
+  'grid-basics': /\bcss grid\b|display:\s*(inline-)?grid\b|\bgrid-template(-(columns|rows|areas))?\b|\bgrid-(column|row|area)\b/i,
+  'js-syntax': /\b(const|let)\s+\w+\s*=|\bfunction\s*\w*\s*\(|=>\s*[{(\w]|\barrow functions?\b|\btemplate literals?\b/i,
+  'dom-basics': /\bdocument\.(querySelector(All)?|getElementById|createElement)\b|\baddEventListener\b|\.(textContent|innerHTML|classList)\b|\bthe DOM\b/,
+}
+
+/**
+ * Skills a piece of text teaches, judged by keywords and code patterns
+ */
+export const inferSkillTags = (text: string): SkillKey[] => SKILL_KEYS.filter((key) => SKILL_PATTERNS[key].test(text))
+
+export const PROGRESS_SOURCES = ['manual', 'task', 'quiz', 'review', 'summary'] as const
+
+export type ProgressSource = typeof PROGRESS_SOURCES[number]
+
+export const ProgressUpdateSchema = z.object({
+  skillKey: z.enum(SKILL_KEYS),
+  score: z.number().int().min(0).max(100).optional(), // absolute score wins over delta
+  delta: z.number().int().min(-100).max(100).optional(),
+  notes: z.string().max(2000).optional(),
+  source: z.enum(PROGRESS_SOURCES).default('manual'),
+  sessionId: z.string().optional(),
+}).refine((update) => update.score !== undefined || update.delta !== undefined, {
+  message: 'score or delta is required',
+})
+
+export type ProgressUpdate = z.input<typeof ProgressUpdateSchema>
+
+export interface ProgressRecord {
+  skillKey: string
+  score: number
+  notes: string | null
+  updatedAt: Date
+}
+
+export interface ProgressEventRecord {
+  skillKey: string
+  score: number
+  delta: number
+  notes: string | null
+  source: string
+  sessionId: string | null
+  createdAt: Date
+}
+
+const clamp = (score: number): number => Math.max(0, Math.min(100, Math.round(score)))
+
+/**
+ * Score after an update: an absolute score replaces the previous one, a delta adjusts it; kept within 0-100
+ */
+export const nextScore = (previous: number, update: Pick<z.output<typeof ProgressUpdateSchema>, 'score' | 'delta'>): number => (
+  clamp(update.score ?? previous + (update.delta ?? 0))
+)
+
+export const isSkillKey = (value: string): value is SkillKey => (SKILL_KEYS as readonly string[]).includes(value)
+
+/**
+ * Apply one update: set or adjust the score, keep the latest notes, append a history row
+ */
+export const recordProgress = async (input: ProgressUpdate): Promise<ProgressRecord> => {
+  const update = ProgressUpdateSchema.parse(input)
+
+  return prisma.$transaction(async (tx) => {
+    // Quiz answers, tasks and reviews can update one skill at once: make sure the row exists (a
+    // concurrent first write waits instead of failing), then lock it so no increment is lost
+    await tx.progress.createMany({data: [{skillKey: update.skillKey, score: 0}], skipDuplicates: true})
+    const [current] = await tx.$queryRaw<Array<{score: number, notes: string | null}>>`
+      SELECT "score", "notes" FROM "Progress" WHERE "skillKey" = ${update.skillKey} FOR UPDATE
+    `
+    const previous = current?.score ?? 0
+    const score = nextScore(previous, update)
+    const notes = update.notes ?? current?.notes ?? null
+
+    const progress = await tx.progress.update({
+      where: {skillKey: update.skillKey},
+      data: {score, notes},
+    })
+    await tx.progressEvent.create({
+      data: {
+        skillKey: update.skillKey,
+        score,
+        delta: score - previous,
+        notes: update.notes ?? null,
+        source: update.source,
+        sessionId: update.sessionId ?? null,
+      },
+    })
+
+    return {skillKey: progress.skillKey, score: progress.score, notes: progress.notes, updatedAt: progress.updatedAt}
+  })
+}
+
+/**
+ * Current score for every skill that has been practiced, lowest first
+ */
+export const getProgress = async (): Promise<ProgressRecord[]> => {
+  const rows = await prisma.progress.findMany({orderBy: [{score: 'asc'}, {skillKey: 'asc'}]})
+  return rows.map((row) => ({skillKey: row.skillKey, score: row.score, notes: row.notes, updatedAt: row.updatedAt}))
+}
+
+/**
+ * Most recent updates, optionally for one skill
+ */
+export const getProgressHistory = async (skillKey?: string, limit: number = 50): Promise<ProgressEventRecord[]> => {
+  const rows = await prisma.progressEvent.findMany({
+    where: skillKey ? {skillKey} : {},
+    orderBy: {createdAt: 'desc'},
+    take: limit,
+  })
+  return rows.map((row) => ({
+    skillKey: row.skillKey,
+    score: row.score,
+    delta: row.delta,
+    notes: row.notes,
+    source: row.source,
+    sessionId: row.sessionId,
+    createdAt: row.createdAt,
+  }))
+}
@@ -0,0 +1,147 @@
+/**
+ * Purpose: Persist quizzes and their generated questions, answers and grades.
+ * Inputs: skillKey, generated questions, graded answers
+ * Outputs: Quiz and QuizQuestion records
+ * Example: const quiz = await createQuiz({skillKey:'flex-basics', length:5})
+ */
+import {prisma} from './client.js'
+
+export const QUESTION_TYPES = ['multiple-choice', 'css-explain', 'fill-in-code'] as const
+
+export type QuestionType = typeof QUESTION_TYPES[number]
+
+export interface QuestionSource {
+  source: string
+  sourceId: string
+  title?: string | undefined
+}
+
+export interface NewQuestion {
+  type: QuestionType
+  prompt: string
+  code?: string | undefined
+  choices: string[]
+  answer: string
+  rubric?: string | undefined
+  sources: QuestionSource[]
+}
+
+export interface QuestionRecord extends NewQuestion {
+  id: string
+  quizId: string
+  position: number
+  userAnswer: string | null
+  correct: boolean | null
+  score: number | null
+  feedback: string | null
+  answeredAt: Date | null
+}
+
+export interface QuizRecord {
+  id: string
+  skillKey: string
+  sessionId: string | null
+  status: 'active' | 'completed'
+  length: number
+  correctCount: number
+  createdAt: Date
+  completedAt: Date | null
+  questions: QuestionRecord[]
+}
+
+export interface Grade {
+  correct: boolean
+  score: number // 0-1
+  feedback: string
+}
+
+type QuestionRow = NonNullable<Awaited<ReturnType<typeof prisma.quizQuestion.findUnique>>>
+
+const toQuestion = (row: QuestionRow): QuestionRecord => ({
+  id: row.id,
+  quizId: row.quizId,
+  position: row.position,
+  type: row.type as QuestionType,
+  prompt: row.prompt,
+  code: row.code ?? undefined,
+  choices: Array.isArray(row.choices) ? row.choices.map(String) : [],
+  answer: row.answer,
+  rubric: row.rubric ?? undefined,
+  sources: Array.isArray(row.sources) ? row.sources as unknown as QuestionSource[] : [],
+  userAnswer: row.userAnswer,
+  correct: row.correct,
+  score: row.score,
+  feedback: row.feedback,
+  answeredAt: row.answeredAt,
+})
+
+export const createQuiz = async (input: {skillKey: string, length: number, sessionId?: string | undefined}): Promise<QuizRecord> => {
+  const row = await prisma.quiz.create({
+    data: {skillKey: input.skillKey, length: input.length, sessionId: input.sessionId ?? null},
+  })
+  return {...row, status: row.status as QuizRecord['status'], questions: []}
+}
+
+export const getQuiz = async (quizId: string): Promise<QuizRecord | null> => {
+  const row = await prisma.quiz.findUnique({
+    where: {id: quizId},
+    include: {questions: {orderBy: {position: 'asc'}}},
+  })
+  if (!row) return null
+  return {...row, status: row.status as QuizRecord['status'], questions: row.questions.map(toQuestion)}
+}
+
+export const addQuestion = async (quizId: string, position: number, question: NewQuestion): Promise<QuestionRecord> => {
+  const row = await prisma.quizQuestion.create({
+    data: {
+      quizId,
+      position,
+      type: question.type,
+      prompt: question.prompt,
+      code: question.code ?? null,
+      choices: question.choices,
+      answer: question.answer,
+      rubric: question.rubric ?? null,
+      sources: question.sources.map((source) => ({...source})),
+    },
+  })
+  return toQuestion(row)
+}
+
+/**
+ * Store the learner's answer and grade; completes the quiz when the last question is answered.
+ * Null when the question was already answered (e.g. a double-submitted form), so it isn't counted twice.
+ */
+export const saveAnswer = async (
+  quiz: QuizRecord,
+  questionId: string,
+  userAnswer: string,
+  grade: Grade
+): Promise<QuestionRecord | null> => {
+  return prisma.$transaction(async (tx) => {
+    const {count} = await tx.quizQuestion.updateMany({
+      where: {id: questionId, answeredAt: null},
+      data: {userAnswer, correct: grade.correct, score: grade.score, feedback: grade.feedback, answeredAt: new Date()},
+    })
+    if (count === 0) return null
+    const answered = await tx.quizQuestion.count({where: {quizId: quiz.id, answeredAt: {not: null}}})
+    await tx.quiz.update({
+      where: {id: quiz.id},
+      data: {
+        ...(grade.correct ? {correctCount: {increment: 1}} : {}),
+        ...(answered >= quiz.length ? {status: 'completed', completedAt: new Date()} : {}),
+      },
+    })
+    return toQuestion(await tx.quizQuestion.findUniqueOrThrow({where: {id: questionId}}))
+  })
+}
+
+/**
+ * Close a quiz early (no more questions could be generated); length shrinks to what was asked
+ */
+export const finishQuiz = async (quizId: string, asked: number): Promise<void> => {
+  await prisma.quiz.update({
+    where: {id: quizId},
+    data: {status: 'completed', completedAt: new Date(), length: asked},
+  })
+}
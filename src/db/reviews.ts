@@ -0,0 +1,65 @@
+/**
+ * Purpose: Persist spaced-repetition schedules (ReviewSchedule) per skill.
+ * Inputs: skillKey, schedule state
+ * Outputs: stored schedules
+ * Example: const schedules = await getSchedules()
+ */
+import {prisma} from './client.js'
+import type {ScheduleState} from '../agent/scheduler.js'
+
+export interface ScheduleRecord extends ScheduleState {
+  skillKey: string
+  lastReviewedAt: Date | null
+  lastQuality: number | null
+}
+
+const toRecord = (row: {
+  skillKey: string
+  easeFactor: number
+  intervalDays: number
+  repetitions: number
+  dueAt: Date
+  lastReviewedAt: Date | null
+  lastQuality: number | null
+}): ScheduleRecord => ({
+  skillKey: row.skillKey,
+  easeFactor: row.easeFactor,
+  intervalDays: row.intervalDays,
+  repetitions: row.repetitions,
+  dueAt: row.dueAt,
+  lastReviewedAt: row.lastReviewedAt,
+  lastQuality: row.lastQuality,
+})
+
+export const getSchedules = async (): Promise<ScheduleRecord[]> => {
+  const rows = await prisma.reviewSchedule.findMany({orderBy: {dueAt: 'asc'}})
+  return rows.map(toRecord)
+}
+
+export const getSchedule = async (skillKey: string): Promise<ScheduleRecord | null> => {
+  const row = await prisma.reviewSchedule.findUnique({where: {skillKey}})
+  return row ? toRecord(row) : null
+}
+
+/**
+ * Create or replace a skill's schedule; `review` is set when the state came from a graded review
+ */
+export const saveSchedule = async (
+  skillKey: string,
+  state: ScheduleState,
+  review?: {quality: number, reviewedAt: Date}
+): Promise<ScheduleRecord> => {
+  const data = {
+    easeFactor: state.easeFactor,
+    intervalDays: state.intervalDays,
+    repetitions: state.repetitions,
+    dueAt: state.dueAt,
+    ...(review ? {lastReviewedAt: review.reviewedAt, lastQuality: review.quality} : {}),
+  }
+  const row = await prisma.reviewSchedule.upsert({
+    where: {skillKey},
+    create: {skillKey, ...data},
+    update: data,
+  })
+  return toRecord(row)
+}
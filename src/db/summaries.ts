@@ -0,0 +1,132 @@
+/**
+ * Purpose: Persist versioned conversation summaries with typed JSON columns (topics, skill progress, learning style).
+ * Inputs: sessionId, summary fields, covered-until message pointer
+ * Outputs: ConversationSummary records, validated on read
+ * Example: const latest = await getLatestConversationSummary(sessionId)
+ */
+import {z} from 'zod'
+import {isUniqueViolation, prisma} from './client.js'
+
+// A verbatim excerpt from one stored message backing an observation
+export const EvidenceQuoteSchema = z.object({
+  messageId: z.string(),
+  quote: z.string().min(1).max(300),
+})
+
+export const SkillUpdateSchema = z.object({
+  skill: z.string(),
+  change: z.number().min(-100).max(100),
+  evidence: z.string(),
+  quotes: z.array(EvidenceQuoteSchema).default([]), // older rows have none
+})
+
+export const LearningStyleSchema = z.object({
+  preferredFormat: z.enum(['step-by-step', 'examples', 'concepts', 'mixed']),
+  pace: z.enum(['slow', 'medium', 'fast']),
+  feedback: z.enum(['detailed', 'brief', 'mixed']),
+  notes: z.array(z.string()),
+  quotes: z.array(EvidenceQuoteSchema).default([]),
+})
+
+export type EvidenceQuote = z.infer<typeof EvidenceQuoteSchema>
+export type SkillUpdate = z.infer<typeof SkillUpdateSchema>
+export type LearningStyle = z.infer<typeof LearningStyleSchema>
+
+export const DEFAULT_LEARNING_STYLE: LearningStyle = {
+  preferredFormat: 'mixed',
+  pace: 'medium',
+  feedback: 'mixed',
+  notes: [],
+  quotes: [],
+}
+
+export interface SummaryRecord {
+  sessionId: string
+  version: number
+  summary: string
+  topics: string[]
+  skillProgress: SkillUpdate[]
+  learningStyle: LearningStyle
+  coversUntilMessageId: string | null
+  coversUntil: Date
+  messageCount: number
+  createdAt: Date
+}
+
+export type NewSummary = Omit<SummaryRecord, 'version' | 'createdAt'>
+
+type SummaryRow = NonNullable<Awaited<ReturnType<typeof prisma.conversationSummary.findFirst>>>
+
+// JSON columns are validated on the way out; rows written by older code degrade to defaults
+const toRecord = (row: SummaryRow): SummaryRecord => {
+  const topics = z.array(z.string()).safeParse(row.topics)
+  const skillProgress = z.array(SkillUpdateSchema).safeParse(row.skillProgress)
+  const learningStyle = LearningStyleSchema.safeParse(row.learningStyle)
+  return {
+    sessionId: row.sessionId,
+    version: row.version,
+    summary: row.summary,
+    topics: topics.success ? topics.data : [],
+    skillProgress: skillProgress.success ? skillProgress.data : [],
+    learningStyle: learningStyle.success ? learningStyle.data : DEFAULT_LEARNING_STYLE,
+    coversUntilMessageId: row.coversUntilMessageId,
+    coversUntil: row.coversUntil,
+    messageCount: row.messageCount,
+    createdAt: row.createdAt,
+  }
+}
+
+export const getLatestConversationSummary = async (sessionId: string): Promise<SummaryRecord | null> => {
+  const row = await prisma.conversationSummary.findFirst({
+    where: {sessionId},
+    orderBy: {version: 'desc'},
+  })
+  return row ? toRecord(row) : null
+}
+
+export const listConversationSummaries = async (sessionId: string): Promise<SummaryRecord[]> => {
+  const rows = await prisma.conversationSummary.findMany({where: {sessionId}, orderBy: {version: 'asc'}})
+  return rows.map(toRecord)
+}
+
+// Concurrent runs (idle timer and message-count trigger, or two server processes) race for a version
+const SAVE_ATTEMPTS = 3
+
+/**
+ * Store the next version for the session (previous versions are kept as history). A run that
+ * loses the race for a version number retries with the next one.
+ */
+export const saveConversationSummary = async (summary: NewSummary): Promise<SummaryRecord> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const row = await prisma.$transaction(async (tx) => {
+        const latest = await tx.conversationSummary.findFirst({
+          where: {sessionId: summary.sessionId},
+          orderBy: {version: 'desc'},
+          select: {version: true},
+        })
+        return tx.conversationSummary.create({
+          data: {
+            sessionId: summary.sessionId,
+            version: (latest?.version ?? 0) + 1,
+            summary: summary.summary,
+            topics: summary.topics,
+            skillProgress: summary.skillProgress,
+            learningStyle: summary.learningStyle,
+            coversUntilMessageId: summary.coversUntilMessageId,
+            coversUntil: summary.coversUntil,
+            messageCount: summary.messageCount,
+          },
+        })
+      })
+      return toRecord(row)
+    } catch (err) {
+      if (!isUniqueViolation(err) || attempt >= SAVE_ATTEMPTS) throw err
+    }
+  }
+}
+
+export const deleteSessionSummaries = async (sessionId: string): Promise<number> => {
+  const result = await prisma.conversationSummary.deleteMany({where: {sessionId}})
+  return result.count
+}
@@ -0,0 +1,123 @@
+/**
+ * Purpose: Persist micro-tasks (one tiny step with acceptance criteria) and their status per session.
+ * Inputs: sessionId, task fields, status transitions
+ * Outputs: Task records
+ * Example: const task = await getOpenTask(sessionId)
+ */
+import {prisma} from './client.js'
+
+export const TASK_STATUSES = ['assigned', 'submitted', 'passed', 'failed', 'skipped'] as const
+
+export type TaskStatus = typeof TASK_STATUSES[number]
+
+// A task is open until it is passed, failed or skipped
+export const OPEN_TASK_STATUSES: readonly TaskStatus[] = ['assigned', 'submitted']
+
+export interface NewTask {
+  title: string
+  instructions: string
+  acceptanceCriteria: string[]
+  skillKey?: string | undefined
+  sourceMessageId?: string | undefined
+}
+
+export interface TaskRecord {
+  id: string
+  sessionId: string
+  title: string
+  instructions: string
+  acceptanceCriteria: string[]
+  skillKey: string | null
+  status: TaskStatus
+  evidence: string | null
+  notes: string | null
+  createdAt: Date
+  submittedAt: Date | null
+  completedAt: Date | null
+}
+
+type TaskRow = NonNullable<Awaited<ReturnType<typeof prisma.task.findUnique>>>
+
+const toRecord = (row: TaskRow): TaskRecord => ({
+  id: row.id,
+  sessionId: row.sessionId,
+  title: row.title,
+  instructions: row.instructions,
+  acceptanceCriteria: Array.isArray(row.acceptanceCriteria) ? row.acceptanceCriteria.map(String) : [],
+  skillKey: row.skillKey,
+  status: row.status as TaskStatus,
+  evidence: row.evidence,
+  notes: row.notes,
+  createdAt: row.createdAt,
+  submittedAt: row.submittedAt,
+  completedAt: row.completedAt,
+})
+
+export const getTask = async (taskId: string): Promise<TaskRecord | null> => {
+  const row = await prisma.task.findUnique({where: {id: taskId}})
+  return row ? toRecord(row) : null
+}
+
+/**
+ * The session's current step: the newest task that is still assigned or submitted
+ */
+export const getOpenTask = async (sessionId: string): Promise<TaskRecord | null> => {
+  const row = await prisma.task.findFirst({
+    where: {sessionId, status: {in: [...OPEN_TASK_STATUSES]}},
+    orderBy: {createdAt: 'desc'},
+  })
+  return row ? toRecord(row) : null
+}
+
+export const listTasks = async (sessionId: string, limit: number = 50): Promise<TaskRecord[]> => {
+  const rows = await prisma.task.findMany({where: {sessionId}, orderBy: {createdAt: 'desc'}, take: limit})
+  return rows.map(toRecord)
+}
+
+/**
+ * Assign a new step; any step still open in the session is marked skipped
+ */
+export const createTask = async (sessionId: string, task: NewTask): Promise<TaskRecord> => {
+  return prisma.$transaction(async (tx) => {
+    await tx.task.updateMany({
+      where: {sessionId, status: {in: [...OPEN_TASK_STATUSES]}},
+      data: {status: 'skipped', notes: 'Superseded by a new step', completedAt: new Date()},
+    })
+    const row = await tx.task.create({
+      data: {
+        sessionId,
+        title: task.title,
+        instructions: task.instructions,
+        acceptanceCriteria: task.acceptanceCriteria,
+        skillKey: task.skillKey ?? null,
+        sourceMessageId: task.sourceMessageId ?? null,
+      },
+    })
+    return toRecord(row)
+  })
+}
+
+export const submitTaskEvidence = async (taskId: string, evidence: string): Promise<TaskRecord> => {
+  const row = await prisma.task.update({
+    where: {id: taskId},
+    data: {status: 'submitted', evidence, submittedAt: new Date()},
+  })
+  return toRecord(row)
+}
+
+export const closeTask = async (
+  taskId: string,
+  status: Extract<TaskStatus, 'passed' | 'failed' | 'skipped'>,
+  notes?: string
+): Promise<TaskRecord> => {
+  const row = await prisma.task.update({
+    where: {id: taskId},
+    data: {status, completedAt: new Date(), ...(notes !== undefined ? {notes} : {})},
+  })
+  return toRecord(row)
+}
+
+export const deleteSessionTasks = async (sessionId: string): Promise<number> => {
+  const result = await prisma.task.deleteMany({where: {sessionId}})
+  return result.count
+}
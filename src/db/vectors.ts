@@ -1,19 +1,37 @@
 /**
  * Purpose: Vector operations for RAG system - embed, upsert, search.
  * Inputs: text chunks, search queries
- * Outputs: embeddings, similarity search results
+ * Outputs: embeddings, similarity search results filterable by source and chunk metadata (language, repo, path, skills, last-modified)
  * Example: const embeddings = await embedChunks(['chunk1', 'chunk2'])
  */
-import {env} from '../env.js'
+import {randomUUID} from 'crypto'
+import {Prisma} from '@prisma/client'
+import pgvector from 'pgvector'
+import {routeTask} from '../llm/provider.js'
 import {prisma} from './client.js'
 
-// OpenAI embedding model for text-embedding-3-large (3072 dimensions)
-const EMBEDDING_MODEL = 'text-embedding-3-large'
+// Where a chunk came from; used for per-source retrieval filters
+export const SOURCE_TYPES = ['notion', 'github', 'figma', 'internal', 'local', 'upload'] as const
+export type SourceType = typeof SOURCE_TYPES[number]
+
+// Reciprocal rank fusion constant (Cormack et al.); dampens the weight of top ranks
+const RRF_K = 60
 
 export interface EmbeddingChunk {
   source: string
   sourceId: string
   chunk: string
+  sessionId?: string | undefined // only for session-scoped uploads
+  metadata?: Record<string, unknown> | undefined // extras without a column (line ranges, upload pages)
+  documentId?: string | undefined
+  chunkIndex?: number | undefined
+  title?: string | undefined
+  url?: string | undefined
+  path?: string | undefined
+  headingPath?: string[] | undefined
+  language?: string | undefined
+  skillTags?: string[] | undefined
+  lastModified?: Date | undefined
 }
 
 export interface SearchResult {
@@ -22,29 +40,61 @@ export interface SearchResult {
   sourceId: string
   chunk: string
   similarity: number
+  metadata: Record<string, unknown>
+  documentId: string | null
+  chunkIndex: number | null
+  title: string | null
+  url: string | null
+  path: string | null
+  headingPath: string[]
+  language: string | null
+  skillTags: string[]
+  lastModified: Date | null
+}
+
+/**
+ * Narrow retrieval by chunk metadata; every given filter must match
+ */
+export interface ChunkFilters {
+  documentIds?: string[] | undefined
+  repo?: string | undefined // "owner/repo": only that GitHub repository's files
+  pathPrefix?: string | undefined // e.g. "src/styles/"
+  languages?: string[] | undefined // e.g. ["css", "scss"]
+  skillTags?: string[] | undefined // chunks tagged with any of these
+  modifiedSince?: Date | undefined
+  modifiedBefore?: Date | undefined
+}
+
+export interface SearchOptions extends ChunkFilters {
+  sources?: SourceType[] | undefined
+  sessionId?: string | undefined // also search this session's uploads
+}
+
+export interface HybridSearchResult extends SearchResult {
+  score: number // reciprocal rank fusion score across lexical and vector rankings
+  vectorRank?: number | undefined
+  lexicalRank?: number | undefined
 }
 
 /**
- * Generate embeddings for text chunks using OpenAI
+ * Generate embeddings for text chunks with the routed embedding model (3072 dimensions)
  */
 export const embedChunks = async (chunks: string[]): Promise<number[][]> => {
   try {
-    const {default: OpenAI} = await import('openai')
-    const openai = new OpenAI({apiKey: env.OPENAI_API_KEY})
-    
-    const response = await openai.embeddings.create({
-      model: EMBEDDING_MODEL,
-      input: chunks,
-      encoding_format: 'float',
-    })
-    
-    return response.data.map(item => item.embedding)
+    const {provider, model} = routeTask('embeddings')
+    return await provider.embed({model, input: chunks})
   } catch (err) {
     console.error('embedding_error', {name: (err as Error).name})
-    throw new Error('Failed to generate embeddings')
+    // Keep the cause: a dimension mismatch or missing model is a configuration fix, not a retry
+    throw new Error(`Failed to generate embeddings: ${(err as Error).message}`)
   }
 }
 
+/**
+ * Stable chunk id within a source: re-ingesting a document overwrites its chunks in place
+ */
+export const chunkSourceId = (documentId: string, chunkIndex: number): string => `${documentId}#${chunkIndex}`
+
 /**
  * Upsert chunks with embeddings to vector database
  */
@@ -56,31 +106,32 @@ export const upsertChunks = async (chunks: EmbeddingChunk[]): Promise<void> => {
     const texts = chunks.map(c => c.chunk)
     const embeddings = await embedChunks(texts)
     
-    // Upsert each chunk with its embedding (store as JSON string for local testing)
+    // Prisma can't write Unsupported("vector") columns, so upsert with raw SQL
     for (let i = 0; i < chunks.length; i++) {
       const chunk = chunks[i]
       const embedding = embeddings[i]
       
       if (!chunk || !embedding) continue
       
-      await prisma.vectorEmbedding.upsert({
-        where: {
-          source_sourceId: {
-            source: chunk.source,
-            sourceId: chunk.sourceId,
-          },
-        },
-        update: {
-          chunk: chunk.chunk,
-          embedding: JSON.stringify(embedding),
-        },
-        create: {
-          source: chunk.source,
-          sourceId: chunk.sourceId,
-          chunk: chunk.chunk,
-          embedding: JSON.stringify(embedding),
-        },
-      })
+      await prisma.$executeRaw`
+        INSERT INTO "VectorEmbedding" (
+          id, source, "sourceId", chunk, embedding, "sessionId", metadata,
+          "documentId", "chunkIndex", title, url, path, "headingPath", language, "skillTags", "lastModified"
+        )
+        VALUES (
+          ${randomUUID()}, ${chunk.source}, ${chunk.sourceId}, ${chunk.chunk}, ${pgvector.toSql(embedding)}::vector,
+          ${chunk.sessionId ?? null}, ${JSON.stringify(chunk.metadata ?? {})}::jsonb,
+          ${chunk.documentId ?? null}, ${chunk.chunkIndex ?? null}, ${chunk.title ?? null}, ${chunk.url ?? null},
+          ${chunk.path ?? null}, ${chunk.headingPath ?? []}::text[], ${chunk.language ?? null},
+          ${chunk.skillTags ?? []}::text[], ${chunk.lastModified ?? null}
+        )
+        ON CONFLICT (source, "sourceId") DO UPDATE
+        SET chunk = EXCLUDED.chunk, embedding = EXCLUDED.embedding,
+            "sessionId" = EXCLUDED."sessionId", metadata = EXCLUDED.metadata,
+            "documentId" = EXCLUDED."documentId", "chunkIndex" = EXCLUDED."chunkIndex", title = EXCLUDED.title,
+            url = EXCLUDED.url, path = EXCLUDED.path, "headingPath" = EXCLUDED."headingPath",
+            language = EXCLUDED.language, "skillTags" = EXCLUDED."skillTags", "lastModified" = EXCLUDED."lastModified"
+      `
     }
   } catch (err) {
     console.error('upsert_error', {name: (err as Error).name, message: (err as Error).message})
@@ -88,30 +139,107 @@ export const upsertChunks = async (chunks: EmbeddingChunk[]): Promise<void> => {
   }
 }
 
+// Columns every search returns besides the similarity
+const RESULT_COLUMNS = Prisma.sql`
+  id, source, "sourceId", chunk, metadata,
+  "documentId", "chunkIndex", title, url, path, "headingPath", language, "skillTags", "lastModified"
+`
+
 /**
- * Search for similar chunks using basic text search (for local testing)
+ * Metadata filters as AND clauses; empty lists mean no filter
+ */
+const metadataFilter = (filters: ChunkFilters): Prisma.Sql => {
+  const clauses: Prisma.Sql[] = []
+  if (filters.documentIds && filters.documentIds.length > 0) clauses.push(Prisma.sql`AND "documentId" IN (${Prisma.join(filters.documentIds)})`)
+  // GitHub document ids are `${owner}/${repo}@${branch}:${path}`
+  if (filters.repo) clauses.push(Prisma.sql`AND source = 'github' AND starts_with("documentId", ${`${filters.repo}@`})`)
+  if (filters.pathPrefix) clauses.push(Prisma.sql`AND starts_with(path, ${filters.pathPrefix})`)
+  if (filters.languages && filters.languages.length > 0) clauses.push(Prisma.sql`AND language IN (${Prisma.join(filters.languages)})`)
+  if (filters.skillTags && filters.skillTags.length > 0) clauses.push(Prisma.sql`AND "skillTags" && ${filters.skillTags}::text[]`)
+  if (filters.modifiedSince) clauses.push(Prisma.sql`AND "lastModified" >= ${filters.modifiedSince}`)
+  if (filters.modifiedBefore) clauses.push(Prisma.sql`AND "lastModified" < ${filters.modifiedBefore}`)
+  return clauses.length > 0 ? Prisma.join(clauses, ' ') : Prisma.empty
+}
+
+/**
+ * Source and metadata filters plus session scope: the shared corpus, and uploads only from the asking session
+ */
+const scopeFilter = (options: SearchOptions): Prisma.Sql => {
+  const sources = options.sources && options.sources.length > 0
+    ? Prisma.sql`AND source IN (${Prisma.join(options.sources)})`
+    : Prisma.empty
+  const session = options.sessionId
+    ? Prisma.sql`AND ("sessionId" IS NULL OR "sessionId" = ${options.sessionId})`
+    : Prisma.sql`AND "sessionId" IS NULL`
+  return Prisma.sql`${sources} ${session} ${metadataFilter(options)}`
+}
+
+/**
+ * Nearest neighbours for an already-embedded query, ranked by cosine distance
+ */
+const searchByVector = async (
+  queryEmbedding: number[],
+  limit: number,
+  options: SearchOptions
+): Promise<SearchResult[]> => {
+  const vector = pgvector.toSql(queryEmbedding)
+  
+  // Order by the indexed halfvec expression; thresholds are applied by callers
+  // because a WHERE on distance would stop the planner from using the HNSW index
+  const results = await prisma.$queryRaw<SearchResult[]>`
+    SELECT 
+      ${RESULT_COLUMNS},
+      1 - (embedding::halfvec(3072) <=> ${vector}::halfvec(3072)) AS similarity
+    FROM "VectorEmbedding"
+    WHERE embedding IS NOT NULL ${scopeFilter(options)}
+    ORDER BY embedding::halfvec(3072) <=> ${vector}::halfvec(3072)
+    LIMIT ${limit}
+  `
+  return results.map((result) => ({...result, similarity: Number(result.similarity)}))
+}
+
+/**
+ * Full-text matches ranked by ts_rank_cd. When the query embedding is known the
+ * similarity is the chunk's real cosine similarity, otherwise the normalized text rank.
+ */
+const searchByText = async (
+  query: string,
+  queryEmbedding: number[] | undefined,
+  limit: number,
+  options: SearchOptions
+): Promise<SearchResult[]> => {
+  const similarity = queryEmbedding
+    ? Prisma.sql`COALESCE(1 - (embedding::halfvec(3072) <=> ${pgvector.toSql(queryEmbedding)}::halfvec(3072)), 0)`
+    : Prisma.sql`ts_rank_cd(to_tsvector('english', chunk), websearch_to_tsquery('english', ${query}), 32)`
+  
+  // to_tsvector('english', chunk) matches the GIN index from the add_vector_column migration
+  const results = await prisma.$queryRaw<SearchResult[]>`
+    SELECT 
+      ${RESULT_COLUMNS},
+      ${similarity} AS similarity
+    FROM "VectorEmbedding"
+    WHERE to_tsvector('english', chunk) @@ websearch_to_tsquery('english', ${query}) ${scopeFilter(options)}
+    ORDER BY ts_rank_cd(to_tsvector('english', chunk), websearch_to_tsquery('english', ${query})) DESC
+    LIMIT ${limit}
+  `
+  return results.map((result) => ({...result, similarity: Number(result.similarity)}))
+}
+
+/**
+ * Search for similar chunks by cosine similarity (1 - cosine distance), dropping results below threshold
  */
 export const searchChunks = async (
   query: string,
   limit: number = 8,
-  threshold: number = 0.7
+  threshold: number = 0.7,
+  options: SearchOptions = {}
 ): Promise<SearchResult[]> => {
   try {
-    // For local testing, use basic text search instead of vector similarity
-    const results = await prisma.$queryRaw<SearchResult[]>`
-      SELECT 
-        id,
-        source,
-        "sourceId",
-        chunk,
-        0.8 as similarity
-      FROM "VectorEmbedding"
-      WHERE to_tsvector('english', chunk) @@ plainto_tsquery('english', ${query})
-      ORDER BY ts_rank(to_tsvector('english', chunk), plainto_tsquery('english', ${query})) DESC
-      LIMIT ${limit}
-    `
+    const [queryEmbedding] = await embedChunks([query])
+    if (!queryEmbedding) return []
     
-    return results
+    const results = await searchByVector(queryEmbedding, limit, options)
+    return results.filter((result) => result.similarity >= threshold)
   } catch (err) {
     console.error('search_error', {name: (err as Error).name})
     return []
@@ -119,34 +247,101 @@ export const searchChunks = async (
 }
 
 /**
- * Chunk text into ~800-1200 token pieces with ~15% overlap
+ * Merge both rankings by reciprocal rank fusion, best first, keeping each hit's rank per ranker
  */
-export const chunkText = (text: string, maxTokens: number = 1000, overlap: number = 0.15): string[] => {
-  // Simple chunking by sentences for now
-  // TODO: implement proper token-based chunking
-  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0)
-  const chunks: string[] = []
-  let currentChunk = ''
-  
-  for (const sentence of sentences) {
-    const testChunk = currentChunk + sentence + '. '
-    if (testChunk.length > maxTokens * 4) { // Rough token estimate
-      if (currentChunk) {
-        chunks.push(currentChunk.trim())
-        // Add overlap
-        const overlapText = currentChunk.split(' ').slice(-Math.floor(currentChunk.split(' ').length * overlap)).join(' ')
-        currentChunk = overlapText + sentence + '. '
-      } else {
-        currentChunk = sentence + '. '
-      }
-    } else {
-      currentChunk = testChunk
-    }
+export const fuseRankings = (
+  vectorResults: SearchResult[],
+  lexicalResults: SearchResult[],
+  threshold: number,
+  limit: number
+): HybridSearchResult[] => {
+  const fused = new Map<string, HybridSearchResult>()
+  const addRanking = (results: SearchResult[], key: 'vectorRank' | 'lexicalRank'): void => {
+    results.forEach((result, index) => {
+      const rank = index + 1
+      const existing = fused.get(result.id) ?? {...result, score: 0}
+      existing.score += 1 / (RRF_K + rank)
+      existing[key] = rank
+      fused.set(result.id, existing)
+    })
   }
+
+  addRanking(vectorResults.filter((result) => result.similarity >= threshold), 'vectorRank')
+  addRanking(lexicalResults, 'lexicalRank')
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
+
+/**
+ * Hybrid search: lexical and vector rankings merged with reciprocal rank fusion.
+ * Vector hits below threshold are dropped before fusion; lexical hits always count.
+ * Falls back to lexical-only ranking when the query can't be embedded.
+ */
+export const hybridSearch = async (
+  query: string,
+  limit: number = 8,
+  threshold: number = 0.3,
+  options: SearchOptions = {}
+): Promise<HybridSearchResult[]> => {
+  // Pull a deeper candidate list from each ranker than we return
+  const candidates = limit * 4
   
-  if (currentChunk.trim()) {
-    chunks.push(currentChunk.trim())
+  let queryEmbedding: number[] | undefined
+  try {
+    [queryEmbedding] = await embedChunks([query])
+  } catch {
+    queryEmbedding = undefined
   }
   
-  return chunks
+  try {
+    const [vectorResults, lexicalResults] = await Promise.all([
+      queryEmbedding ? searchByVector(queryEmbedding, candidates, options) : Promise.resolve([]),
+      searchByText(query, queryEmbedding, candidates, options),
+    ])
+    
+    return fuseRankings(vectorResults, lexicalResults, threshold, limit)
+  } catch (err) {
+    console.error('hybrid_search_error', {name: (err as Error).name})
+    return []
+  }
+}
+
+/**
+ * Remove a session's uploaded chunks (called when the session is deleted)
+ */
+export const deleteSessionChunks = async (sessionId: string): Promise<number> => {
+  const {count} = await prisma.vectorEmbedding.deleteMany({where: {sessionId}})
+  return count
+}
+
+/**
+ * Remove a document's shared-corpus chunks, except the ids in keep (the chunks just written)
+ */
+export const deleteDocumentChunks = async (
+  source: SourceType,
+  documentId: string,
+  keep: string[] = []
+): Promise<number> => {
+  const prefix = chunkSourceId(documentId, 0).slice(0, -1)
+  const kept = keep.length > 0 ? Prisma.sql`AND "sourceId" NOT IN (${Prisma.join(keep)})` : Prisma.empty
+  // Only "<documentId>#<n>": "proj:notes#draft.md#0" belongs to another document that shares the prefix.
+  // Rows from before the documentId column carry the id only in sourceId, so match on that.
+  return prisma.$executeRaw`
+    DELETE FROM "VectorEmbedding"
+    WHERE source = ${source} AND "sessionId" IS NULL
+      AND starts_with("sourceId", ${prefix}) AND substr("sourceId", ${prefix.length + 1}) ~ '^[0-9]+$' ${kept}
+  `
 }
+
+/**
+ * Remove every shared-corpus chunk of a source that isn't in keep: documents that
+ * no longer exist and chunks written under an older id scheme
+ */
+export const pruneSourceChunks = async (source: SourceType, keep: string[]): Promise<number> => (
+  prisma.$executeRaw`
+    DELETE FROM "VectorEmbedding"
+    WHERE source = ${source} AND "sessionId" IS NULL AND NOT ("sourceId" = ANY(${keep}::text[]))
+  `
+)
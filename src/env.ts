@@ -7,6 +7,8 @@
 import 'dotenv/config'
 import {z} from 'zod'
 
+const Provider = z.enum(['openai','local','fake'])
+
 const EnvSchema = z.object({
   DATABASE_URL: z.string().optional(),
   OPENAI_API_KEY: z.string().optional(),
@@ -14,7 +16,30 @@ const EnvSchema = z.object({
   NOTION_DATABASE_ID: z.string().optional(),
   GITHUB_TOKEN: z.string().optional(),
   FIGMA_TOKEN: z.string().optional(),
+  // Ingest config file: repositories, branches and include/exclude globs (default ./ingest.config.json)
+  INGEST_CONFIG: z.string().optional(),
+  // Design tokens for the CSS token linter: comma-separated token JSON files or folders (default ./design-tokens)
+  DESIGN_TOKENS: z.string().optional(),
   PORT: z.string().optional(),
+  // Chat persistence: 'prisma' (Session/Message tables) or 'file' (data/messages.json)
+  MESSAGE_STORE: z.enum(['prisma','file']).optional(),
+  // Max prompt tokens per chat call (policy, summary, skills, docs, history)
+  PROMPT_TOKEN_BUDGET: z.coerce.number().int().positive().optional(),
+  // Background summarization: after every N new messages and after a session goes idle
+  SUMMARY_EVERY_MESSAGES: z.coerce.number().int().positive().optional(),
+  SUMMARY_IDLE_MINUTES: z.coerce.number().positive().optional(),
+  // LLM routing: default provider (openai when OPENAI_API_KEY is set, else fake), per-task overrides
+  LLM_PROVIDER: Provider.optional(),
+  LOCAL_LLM_BASE_URL: z.string().url().optional(),
+  LOCAL_LLM_API_KEY: z.string().optional(),
+  CHAT_PROVIDER: Provider.optional(),
+  CHAT_MODEL: z.string().optional(),
+  VISION_PROVIDER: Provider.optional(),
+  VISION_MODEL: z.string().optional(),
+  SUMMARY_PROVIDER: Provider.optional(),
+  SUMMARY_MODEL: z.string().optional(),
+  EMBEDDING_PROVIDER: Provider.optional(),
+  EMBEDDING_MODEL: z.string().optional(),
 })
 
 const parsed = EnvSchema.safeParse(process.env)
@@ -0,0 +1,40 @@
+/**
+ * Purpose: Save a Figma file's variables, styles and components as JSON for offline ingestion.
+ * Inputs: FIGMA_TOKEN, file key, optional output path (default data/figma/<key>.json)
+ * Outputs: a FigmaExport JSON file to list under `figma.exports` in ingest.config.json
+ * Example: npm run figma-export -- AbC123xyz data/figma/design-system.json
+ */
+import fs from 'fs/promises'
+import path from 'path'
+import {env} from '../env.js'
+import {fetchFigmaExport} from './sources/figma.js'
+import {renderFigmaExport} from './sources/figmaRender.js'
+
+async function main(): Promise<void> {
+  const [key, output] = process.argv.slice(2)
+  if (!key) {
+    console.error('Usage: npm run figma-export -- <fileKey> [output.json]')
+    process.exit(1)
+  }
+  if (!env.FIGMA_TOKEN) {
+    console.error('❌ FIGMA_TOKEN is not set')
+    process.exit(1)
+  }
+
+  try {
+    const data = await fetchFigmaExport(key, env.FIGMA_TOKEN)
+    const file = path.resolve(output ?? path.join('data', 'figma', `${key}.json`))
+    await fs.mkdir(path.dirname(file), {recursive: true})
+    await fs.writeFile(file, `${JSON.stringify(data, null, 2)}\n`)
+    const kinds = renderFigmaExport(data).map((document) => document.kind)
+    console.log(`✅ Saved ${data.file.name} to ${file} (${kinds.join(', ') || 'nothing to ingest'})`)
+  } catch (err) {
+    console.error('❌ Figma export failed:', (err as Error).message)
+    process.exit(1)
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main()
+}
@@ -1,385 +1,405 @@
 /**
- * Purpose: Ingest content from Notion/GitHub/Figma into vector database for RAG.
- * Inputs: API tokens, source configurations
- * Outputs: Chunked and embedded content in vector database
- * Example: npm run ingest
+ * Purpose: Incrementally ingest Notion/GitHub/Figma/internal/local content into the vector database for RAG.
+ * Inputs: API tokens, ingest config, CLI flags --source <name> (repeatable), --dry-run, --full, --watch
+ * Outputs: embedded chunks for new/changed documents, stale chunks removed, an IngestRun with per-source counts
+ * Example: npm run ingest -- --source notion --dry-run
  */
-import {env} from '../env.js'
-import {chunkText, upsertChunks, type EmbeddingChunk} from '../db/vectors.js'
+import {createHash} from 'crypto'
+import {parseArgs} from 'util'
+import {chunkDocument, detectLanguage, locateChunks} from '../db/chunker.js'
+import {inferSkillTags} from '../db/progress.js'
+import {
+  chunkSourceId,
+  deleteDocumentChunks,
+  pruneSourceChunks,
+  upsertChunks,
+  type EmbeddingChunk,
+  type SourceType,
+} from '../db/vectors.js'
+import {
+  deleteDocumentState,
+  emptySourceStats,
+  finishIngestRun,
+  getDocumentStates,
+  getSourceCursors,
+  saveDocumentState,
+  saveSourceCursors,
+  startIngestRun,
+  type DocumentStateRecord,
+  type SourceStats,
+} from '../db/ingest.js'
+import {figmaConnector} from './sources/figma.js'
+import {githubConnector} from './sources/github.js'
+import {internalConnector} from './sources/internal.js'
+import {localConnector} from './sources/local.js'
+import {notionConnector} from './sources/notion.js'
+import type {SourceConnector, SourceDocument, SourceListing} from './sources/types.js'
 
-// Source types for tracking
-type SourceType = 'notion' | 'github' | 'figma' | 'internal'
+const CONNECTORS: SourceConnector[] = [notionConnector, githubConnector, figmaConnector, internalConnector, localConnector]
 
-interface IngestConfig {
-  source: SourceType
-  sourceId: string
-  content: string
-  metadata?: Record<string, any>
+export interface IngestOptions {
+  dryRun: boolean // report what would change without embedding or writing anything
+  full: boolean // re-embed every document even when its hash is unchanged
+  runId: string | null
 }
 
+// Bump when the stored chunk columns change. Documents written with an older layout are
+// re-embedded on the next run even when their version, hash and source cursor are unchanged.
+const CHUNK_SCHEMA_VERSION = 2
+
 /**
- * Ingest content from Notion database
+ * Hash of everything that ends up in the stored chunks
  */
-async function ingestNotion(): Promise<void> {
-  if (!env.NOTION_TOKEN || !env.NOTION_DATABASE_ID) {
-    console.log('⚠️  Notion token or database ID not configured, skipping...')
-    return
-  }
+const hashDocument = (document: SourceDocument, content: string): string => createHash('sha256')
+  .update(JSON.stringify([
+    document.title,
+    document.format ?? null,
+    document.metadata ?? {},
+    document.language ?? null,
+    document.lastModified ?? null,
+    content,
+  ]))
+  .digest('hex')
 
-  try {
-    console.log('📚 Ingesting Notion content...')
-    const {Client} = await import('@notionhq/client')
-    const notion = new Client({auth: env.NOTION_TOKEN})
-    
-    // Query database for pages
-    const response = await notion.databases.query({
-      database_id: env.NOTION_DATABASE_ID,
-      page_size: 100,
-    })
-    
-    const chunks: EmbeddingChunk[] = []
-    
-    for (const page of response.results) {
-      if ('properties' in page) {
-        // Extract page content with proper type handling
-        let title = 'Untitled Page'
-        let lastEdited = new Date().toISOString()
-        
-        // Try to extract title from various possible property types
-        const titleProperty = page.properties.title || page.properties.Name || page.properties.name
-        if (titleProperty && 'title' in titleProperty && Array.isArray(titleProperty.title) && titleProperty.title[0]?.plain_text) {
-          title = titleProperty.title[0].plain_text
-        } else if (titleProperty && 'rich_text' in titleProperty && Array.isArray(titleProperty.rich_text) && titleProperty.rich_text[0]?.plain_text) {
-          title = titleProperty.rich_text[0].plain_text
-        }
-        
-        // Try to get last edited time - check if it exists on the page object
-        if ('last_edited_time' in page && page.last_edited_time) {
-          lastEdited = page.last_edited_time
-        }
-        
-        const content = `Title: ${title}\nPage ID: ${page.id}\nLast edited: ${lastEdited}\n\nThis is content from your Notion workspace. You can expand this to extract actual page content.`
-        
-        // Chunk the content
-        const textChunks = chunkText(content)
-        textChunks.forEach((chunk, index) => {
-          chunks.push({
-            source: 'notion',
-            sourceId: `${page.id}-${index}`,
-            chunk,
-          })
-        })
-      }
-    }
-    
-    if (chunks.length > 0) {
-      await upsertChunks(chunks)
-      console.log(`✅ Ingested ${chunks.length} Notion chunks`)
-    }
-  } catch (err) {
-    console.error('❌ Notion ingest failed:', err)
-  }
+const stringField = (metadata: Record<string, unknown> | undefined, key: string): string | undefined => {
+  const value = metadata?.[key]
+  return typeof value === 'string' && value ? value : undefined
 }
 
 /**
- * Ingest content from GitHub repository
+ * Column values shared by every chunk of a document
  */
-async function ingestGitHub(): Promise<void> {
-  if (!env.GITHUB_TOKEN) {
-    console.log('⚠️  GitHub token not configured, skipping...')
-    return
+const documentColumns = (document: SourceDocument): Pick<EmbeddingChunk, 'documentId' | 'title' | 'url' | 'path' | 'language' | 'lastModified'> => {
+  const path = stringField(document.metadata, 'path')
+  const lastModified = document.lastModified ? new Date(document.lastModified) : undefined
+  return {
+    documentId: document.documentId,
+    title: document.title,
+    url: stringField(document.metadata, 'url'),
+    path,
+    language: document.language ?? (path ? detectLanguage(path) : undefined) ?? (document.format === 'markdown' ? 'markdown' : undefined),
+    lastModified: lastModified && !Number.isNaN(lastModified.getTime()) ? lastModified : undefined,
   }
+}
+
+const chunkIds = (documentId: string, count: number): string[] => (
+  Array.from({length: count}, (_, index) => chunkSourceId(documentId, index))
+)
+
+/**
+ * Where a pass reads and writes document states, cursors and chunks; the database unless a test swaps it
+ */
+export interface IngestStore {
+  getDocumentStates: (source: string) => Promise<Map<string, DocumentStateRecord>>
+  saveDocumentState: (state: Omit<DocumentStateRecord, 'updatedAt'>) => Promise<unknown>
+  deleteDocumentState: (source: string, documentId: string) => Promise<void>
+  getSourceCursors: (source: string) => Promise<Map<string, string>>
+  saveSourceCursors: (source: string, cursors: Record<string, string>) => Promise<void>
+  upsertChunks: (chunks: EmbeddingChunk[]) => Promise<void>
+  deleteDocumentChunks: (source: SourceType, documentId: string, keep?: string[]) => Promise<number>
+  pruneSourceChunks: (source: SourceType, keep: string[]) => Promise<number>
+}
+
+const databaseStore: IngestStore = {
+  getDocumentStates,
+  saveDocumentState,
+  deleteDocumentState,
+  getSourceCursors,
+  saveSourceCursors,
+  upsertChunks,
+  deleteDocumentChunks,
+  pruneSourceChunks,
+}
+
+/**
+ * Bring one source in line with its current documents: embed new and changed ones,
+ * skip unchanged versions and hashes, and drop chunks of removed documents and shrunk tails
+ */
+export const ingestSource = async (
+  connector: SourceConnector,
+  options: IngestOptions,
+  store: IngestStore = databaseStore
+): Promise<SourceStats> => {
+  const {source} = connector
+  const stats = emptySourceStats()
+
+  const [previous, cursors] = await Promise.all([store.getDocumentStates(source), store.getSourceCursors(source)])
+  // A cursor only says the source didn't change; outdated chunks still need the full listing
+  const outdated = [...previous.values()].some((state) => state.schemaVersion !== CHUNK_SCHEMA_VERSION)
 
+  let listing: SourceListing
   try {
-    console.log('📚 Ingesting GitHub content...')
-    const {Octokit} = await import('@octokit/rest')
-    const octokit = new Octokit({auth: env.GITHUB_TOKEN})
-    
-    // Ingest from your actual repos (you can add more)
-    const repos = [
-        {owner: 'BethCNC', repo: 'coding_coach_agent'},
-        // Add more of your repos here:
-        // {owner: 'BethCNC', repo: 'another-repo'},
-        // {owner: 'BethCNC', repo: 'project-name'},
-    ]
-    
-    // You can also ingest from other file types
-    const fileExtensions = ['.md', '.txt', '.js', '.ts', '.html', '.css', '.json']
-    
-    const chunks: EmbeddingChunk[] = []
-    
-    // Process each repository
-    for (const {owner, repo} of repos) {
-      try {
-        console.log(`📁 Processing GitHub repo: ${owner}/${repo}`)
-        
-        // Get repository files
-        const {data: filesResponse} = await octokit.repos.getContent({
-          owner,
-          repo,
-          path: '',
-        })
-        
-        // Ensure files is an array
-        const files = Array.isArray(filesResponse) ? filesResponse : []
-        
-                // Process files (simplified - you can expand this)
-        for (const file of files) {
-          if (file.type === 'file' && fileExtensions.some(ext => file.name.endsWith(ext))) {
-        try {
-          const {data: content} = await octokit.repos.getContent({
-            owner,
-            repo,
-            path: file.path,
-          })
-          
-          if ('content' in content) {
-            const textContent = Buffer.from(content.content, 'base64').toString()
-            const textChunks = chunkText(textContent)
-            
-            textChunks.forEach((chunk, index) => {
-              chunks.push({
-                source: 'github',
-                sourceId: `${file.path}-${index}`,
-                chunk,
-              })
-            })
-          }
-        } catch (err) {
-          console.warn(`⚠️  Failed to process ${file.path}:`, err)
-        }
-      }
-    }
+    listing = await connector.load({previous, cursors: outdated ? new Map() : cursors, full: options.full})
   } catch (err) {
-    console.error('github_ingest_error', {name: (err as Error).name, repo: `${owner}/${repo}`})
+    // Nothing is deleted when the listing is incomplete
+    console.error(`❌ ${source} ingest failed:`, (err as Error).message)
+    return {...stats, error: (err as Error).message}
   }
-}
-    
-    if (chunks.length > 0) {
-      await upsertChunks(chunks)
-      console.log(`✅ Ingested ${chunks.length} GitHub chunks`)
+
+  const seen = new Set<string>()
+  const keep: string[] = []
+
+  for (const document of listing.documents) {
+    if (seen.has(document.documentId)) {
+      console.warn(`⚠️  Duplicate ${source} document ${document.documentId}, keeping the first`)
+      continue
+    }
+    seen.add(document.documentId)
+
+    const state = previous.get(document.documentId)
+    const version = document.version ?? null
+    const current = state?.schemaVersion === CHUNK_SCHEMA_VERSION
+    if (state && current && !options.full && version !== null && state.version === version) {
+      stats.skipped++
+      keep.push(...chunkIds(document.documentId, state.chunkCount))
+      continue
+    }
+
+    let content: string
+    try {
+      content = typeof document.content === 'string' ? document.content : await document.content()
+    } catch (err) {
+      console.error(`❌ Failed to load ${source} document ${document.documentId}:`, (err as Error).message)
+      stats.failed = (stats.failed ?? 0) + 1
+      if (state) keep.push(...chunkIds(document.documentId, state.chunkCount))
+      continue
+    }
+
+    const contentHash = hashDocument(document, content)
+    if (state && current && state.contentHash === contentHash && !options.full) {
+      stats.skipped++
+      keep.push(...chunkIds(document.documentId, state.chunkCount))
+      // Same content under a new version: remember the version so the next run doesn't refetch
+      if (!options.dryRun && state.version !== version) {
+        await store.saveDocumentState({...state, version, lastRunId: options.runId})
+      }
+      continue
+    }
+
+    const textChunks = chunkDocument(content, {format: document.format})
+    const lineRanges = document.lines ? locateChunks(content, textChunks) : []
+    const ids = chunkIds(document.documentId, textChunks.length)
+    keep.push(...ids)
+    if (state) stats.updated++
+    else stats.added++
+    stats.chunks += textChunks.length
+    if (options.dryRun) continue
+
+    const columns = documentColumns(document)
+    const chunks: EmbeddingChunk[] = textChunks.map((chunk, chunkIndex) => ({
+      source,
+      sourceId: ids[chunkIndex]!,
+      chunk: chunk.text,
+      ...columns,
+      chunkIndex,
+      headingPath: chunk.headingPath,
+      skillTags: inferSkillTags(chunk.text),
+      metadata: {...document.metadata, ...lineRanges[chunkIndex]},
+    }))
+    try {
+      await store.upsertChunks(chunks)
+      await store.deleteDocumentChunks(source, document.documentId, ids)
+      await store.saveDocumentState({
+        source,
+        documentId: document.documentId,
+        title: document.title,
+        contentHash,
+        version,
+        schemaVersion: CHUNK_SCHEMA_VERSION,
+        chunkCount: chunks.length,
+        lastRunId: options.runId,
+      })
+    } catch (err) {
+      // The old state stays, so the next run retries this document
+      console.error(`❌ Failed to ingest ${source} document ${document.documentId}:`, (err as Error).message)
+      if (state) stats.updated--
+      else stats.added--
+      stats.chunks -= chunks.length
+      stats.failed = (stats.failed ?? 0) + 1
+      if (state) keep.push(...chunkIds(document.documentId, state.chunkCount))
     }
-  } catch (err) {
-    console.error('❌ GitHub ingest failed:', err)
   }
-}
 
-/**
- * Ingest content from Figma file
- */
-async function ingestFigma(): Promise<void> {
-  if (!env.FIGMA_TOKEN) {
-    console.log('⚠️  Figma token not configured, skipping...')
-    return
+  for (const documentId of previous.keys()) {
+    if (seen.has(documentId)) continue
+    stats.deleted++
+    if (options.dryRun) continue
+    await store.deleteDocumentChunks(source, documentId)
+    await store.deleteDocumentState(source, documentId)
   }
 
+  // Catches chunks no state accounts for, e.g. ones written before documents were tracked
+  if (!options.dryRun) stats.pruned = await store.pruneSourceChunks(source, keep)
+  // A failed document must be retried, so cursors only move after a clean pass
+  if (!options.dryRun && !stats.failed && listing.cursors) await store.saveSourceCursors(source, listing.cursors)
+  return stats
+}
+
+const USAGE = `Usage: npm run ingest -- [--source <${CONNECTORS.map((c) => c.source).join('|')}>]... [--dry-run] [--full] [--watch]`
+
+interface CliArgs {
+  sources: SourceType[]
+  dryRun: boolean
+  full: boolean
+  watch: boolean
+}
+
+const parseCliArgs = (argv: string[]): CliArgs | null => {
   try {
-    console.log('📚 Ingesting Figma content...')
-    
-    // For now, add placeholder Figma content (you can implement API later)
-    const figmaContent = `
-Figma Design System:
-- Color palette: Primary blue, secondary gray, accent orange
-- Typography: Heading fonts, body text, code fonts
-- Components: Buttons, forms, navigation, cards
-- Layout: Grid system, spacing, responsive breakpoints
-- Icons: SVG icon library, consistent sizing
-    `
-    
-    const chunks: EmbeddingChunk[] = []
-    const textChunks = chunkText(figmaContent)
-    
-    textChunks.forEach((chunk, index) => {
-      chunks.push({
-        source: 'figma',
-        sourceId: `design-system-${index}`,
-        chunk,
-      })
+    const {values} = parseArgs({
+      args: argv,
+      options: {
+        source: {type: 'string', multiple: true},
+        'dry-run': {type: 'boolean', default: false},
+        full: {type: 'boolean', default: false},
+        watch: {type: 'boolean', default: false},
+      },
     })
-    
-    if (chunks.length > 0) {
-      await upsertChunks(chunks)
-      console.log(`✅ Ingested ${chunks.length} Figma chunks`)
+    const known = CONNECTORS.map((connector) => connector.source)
+    // --source notion,github and repeated --source flags are both accepted
+    const requested = (values.source ?? []).flatMap((value) => value.split(',')).map((value) => value.trim()).filter(Boolean)
+    const unknown = requested.filter((value) => !known.includes(value as SourceType))
+    if (unknown.length > 0) {
+      console.error(`Unknown source: ${unknown.join(', ')}`)
+      return null
+    }
+    return {
+      sources: requested.length > 0 ? known.filter((source) => requested.includes(source)) : known,
+      dryRun: values['dry-run'] ?? false,
+      full: values.full ?? false,
+      watch: values.watch ?? false,
     }
   } catch (err) {
-    console.error('❌ Figma ingest failed:', err)
+    console.error((err as Error).message)
+    return null
   }
 }
 
+// Quiet period after the last file event before a watch pass starts
+const WATCH_DEBOUNCE_MS = 1000
+
 /**
- * Ingest internal content (learning materials, documentation)
+ * One ingest pass over the given connectors, recorded as an IngestRun, with a per-source summary table
  */
-async function ingestInternal(): Promise<void> {
-  console.log('📚 Ingesting internal content...')
-  
-  // Read CSS design system files
-  let cssDesignSystemContent = ''
-  let cssBestPracticesContent = ''
-  
+const runIngest = async (connectors: SourceConnector[], args: CliArgs): Promise<Record<string, SourceStats>> => {
+  const results: Record<string, SourceStats> = {}
+  let runId: string | null = null
   try {
-    const fs = await import('fs/promises')
-    const path = await import('path')
-    
-    // Read CSS design system documentation
-    const designSystemPath = path.join(process.cwd(), '.cursor', 'css_design_system_documentation.mdc')
-    cssDesignSystemContent = await fs.readFile(designSystemPath, 'utf-8')
-    console.log('✅ Loaded CSS design system documentation')
-  } catch (err) {
-    console.warn('⚠️ Could not load CSS design system documentation:', err)
-  }
-  
-  try {
-    const fs = await import('fs/promises')
-    const path = await import('path')
-    
-    // Read CSS best practices
-    const bestPracticesPath = path.join(process.cwd(), '.cursor', 'css_design_system_best_practices.mdc')
-    cssBestPracticesContent = await fs.readFile(bestPracticesPath, 'utf-8')
-    console.log('✅ Loaded CSS best practices')
+    // Dry runs leave no trace, not even run history
+    if (!args.dryRun) runId = (await startIngestRun(connectors.map((c) => c.source), args.full)).id
+    const options: IngestOptions = {dryRun: args.dryRun, full: args.full, runId}
+
+    for (const connector of connectors) {
+      const reason = connector.unavailable()
+      if (reason) {
+        console.log(`⚠️  ${reason}, skipping ${connector.source}...`)
+        continue
+      }
+      console.log(`📚 Ingesting ${connector.source} content...`)
+      results[connector.source] = await ingestSource(connector, options)
+    }
+
+    if (runId) await finishIngestRun(runId, 'completed', results)
   } catch (err) {
-    console.warn('⚠️ Could not load CSS best practices:', err)
+    if (runId) await finishIngestRun(runId, 'failed', results, (err as Error).message).catch(() => undefined)
+    throw err
   }
-  
-  const internalContent = [
-    {
-      title: 'HTML Basics',
-      content: `
-HTML (HyperText Markup Language) is the standard markup language for creating web pages.
-HTML describes the structure of a web page semantically and originally included cues for the appearance of the document.
-
-Key HTML concepts:
-- Elements are the building blocks of HTML pages
-- Tags come in pairs: opening and closing tags
-- Attributes provide additional information about elements
-- Semantic HTML helps with accessibility and SEO
-
-Common HTML elements:
-- <html>: Root element of an HTML page
-- <head>: Contains meta information about the document
-- <body>: Contains the visible page content
-- <h1> to <h6>: Heading elements
-- <p>: Paragraph element
-- <div>: Division or section element
-- <span>: Inline element for grouping text
-- <a>: Anchor element for links
-- <img>: Image element
-- <ul>, <ol>, <li>: List elements
-      `,
-    },
-    {
-      title: 'CSS Fundamentals',
-      content: `
-CSS (Cascading Style Sheets) is a style sheet language used for describing the presentation of a document written in HTML.
-CSS is designed to enable the separation of presentation and content, including layout, colors, and fonts.
-
-CSS Selectors:
-- Element selectors: p, div, h1
-- Class selectors: .classname
-- ID selectors: #idname
-- Descendant selectors: div p
-- Child selectors: div > p
-- Pseudo-classes: :hover, :focus, :active
-
-CSS Box Model:
-- Content: The actual content of the element
-- Padding: Space between content and border
-- Border: Border around the element
-- Margin: Space outside the border
-
-CSS Layout:
-- Display: block, inline, inline-block, flex, grid
-- Position: static, relative, absolute, fixed, sticky
-- Flexbox: flex-direction, justify-content, align-items
-- Grid: grid-template-columns, grid-template-rows
-      `,
-    },
-    {
-      title: 'JavaScript Essentials',
-      content: `
-JavaScript is a programming language that is one of the core technologies of the World Wide Web.
-JavaScript enables interactive web pages and is an essential part of web applications.
-
-JavaScript Fundamentals:
-- Variables: let, const, var
-- Data types: string, number, boolean, object, array, null, undefined
-- Functions: function declarations, expressions, arrow functions
-- Control flow: if/else, switch, loops (for, while, forEach)
-- Objects and arrays: creation, manipulation, methods
-
-DOM Manipulation:
-- Selecting elements: getElementById, querySelector, querySelectorAll
-- Modifying content: innerHTML, textContent, innerText
-- Changing attributes: setAttribute, getAttribute
-- Event handling: addEventListener, removeEventListener
-- Creating elements: createElement, appendChild, removeChild
-
-Modern JavaScript:
-- ES6+ features: arrow functions, destructuring, spread operator
-- Promises and async/await for asynchronous operations
-- Modules: import/export statements
-- Template literals for string interpolation
-      `,
-    },
-  ]
-  
-  // Add CSS design system content if available
-  if (cssDesignSystemContent) {
-    internalContent.push({
-      title: 'CSS Design System Documentation',
-      content: cssDesignSystemContent,
-    })
+
+  console.table(Object.fromEntries(Object.entries(results).map(([source, stats]) => [source, {
+    added: stats.added,
+    updated: stats.updated,
+    deleted: stats.deleted,
+    skipped: stats.skipped,
+    failed: stats.failed ?? 0,
+    chunks: stats.chunks,
+    ...(args.dryRun ? {} : {pruned: stats.pruned}),
+    ...(stats.error ? {error: stats.error} : {}),
+  }])))
+  return results
+}
+
+/**
+ * Re-run watchable sources after file changes settle. Passes never overlap; changes
+ * during a pass queue exactly one more.
+ */
+const watchSources = async (connectors: SourceConnector[], args: CliArgs): Promise<void> => {
+  let timer: NodeJS.Timeout | undefined
+  let running = false
+  let pending = false
+
+  const pass = async (): Promise<void> => {
+    if (running) {
+      pending = true
+      return
+    }
+    running = true
+    try {
+      console.log(`🔄 Change detected, re-ingesting ${connectors.map((c) => c.source).join(', ')}...`)
+      await runIngest(connectors, {...args, full: false})
+    } catch (err) {
+      console.error('❌ Watch ingest failed:', (err as Error).message)
+    } finally {
+      running = false
+      if (pending) {
+        pending = false
+        void pass()
+      }
+    }
   }
-  
-  if (cssBestPracticesContent) {
-    internalContent.push({
-      title: 'CSS Design System Best Practices',
-      content: cssBestPracticesContent,
-    })
+
+  const onChange = (): void => {
+    clearTimeout(timer)
+    timer = setTimeout(() => void pass(), WATCH_DEBOUNCE_MS)
   }
-  
-  const chunks: EmbeddingChunk[] = []
-  
-  internalContent.forEach((item, itemIndex) => {
-    const textChunks = chunkText(item.content)
-    textChunks.forEach((chunk, chunkIndex) => {
-      chunks.push({
-        source: 'internal',
-        sourceId: `${item.title.toLowerCase().replace(/\s+/g, '-')}-${itemIndex}-${chunkIndex}`,
-        chunk,
-      })
-    })
+
+  const stops = await Promise.all(connectors.map((connector) => connector.watch!(onChange)))
+  process.once('SIGINT', () => {
+    clearTimeout(timer)
+    stops.forEach((stop) => stop())
+    process.exit(0)
   })
-  
-  if (chunks.length > 0) {
-    await upsertChunks(chunks)
-    console.log(`✅ Ingested ${chunks.length} internal chunks`)
-  }
+  console.log('👀 Watching for changes (Ctrl+C to stop)')
 }
 
 /**
  * Main ingest function
  */
 async function main(): Promise<void> {
-  console.log('🚀 Starting content ingestion...')
-  
+  const args = parseCliArgs(process.argv.slice(2))
+  if (!args) {
+    console.error(USAGE)
+    process.exit(1)
+  }
+
+  const connectors = CONNECTORS.filter((connector) => args.sources.includes(connector.source))
+  const watchable = connectors.filter((connector) => connector.watch)
+  if (args.watch && watchable.length === 0) {
+    console.error(`--watch needs a watchable source (${CONNECTORS.filter((c) => c.watch).map((c) => c.source).join(', ')})`)
+    process.exit(1)
+  }
+
+  const mode = [args.dryRun ? 'dry run' : '', args.full ? 'full' : 'incremental'].filter(Boolean).join(', ')
+  console.log(`🚀 Starting content ingestion (${mode}): ${args.sources.join(', ')}`)
+
+  let results: Record<string, SourceStats>
   try {
-    // Ingest from all sources
-    await Promise.all([
-      ingestNotion(),
-      ingestGitHub(),
-      ingestFigma(),
-      ingestInternal(),
-    ])
-    
-    console.log('✅ Content ingestion completed!')
+    results = await runIngest(connectors, args)
   } catch (err) {
     console.error('❌ Ingestion failed:', err)
     process.exit(1)
   }
+
+  const failed = Object.values(results).some((stats) => stats.error || stats.failed)
+  console.log(failed ? '⚠️  Content ingestion finished with errors' : `✅ Content ingestion ${args.dryRun ? 'dry run ' : ''}completed!`)
+  if (failed) process.exitCode = 1
+
+  if (args.watch) await watchSources(watchable, args)
 }
 
 // Run if called directly
 if (import.meta.url === `file://${process.argv[1]}`) {
-  main()
+  main().catch((err) => {
+    console.error('❌ Content ingestion failed:', err)
+    process.exitCode = 1
+  })
 }
-
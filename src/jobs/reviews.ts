@@ -0,0 +1,44 @@
+/**
+ * Purpose: Daily review job - schedule low/stale skills and print what is due today.
+ * Inputs: Progress and ReviewSchedule tables
+ * Outputs: new schedules, due reviews with micro-exercises on stdout
+ * Example: npm run reviews
+ */
+import {getDueReviews, scheduleNeededReviews} from '../agent/reviews.js'
+import {prisma} from '../db/client.js'
+
+async function main(): Promise<void> {
+  console.log('🔁 Checking spaced-repetition reviews...')
+
+  try {
+    const scheduled = await scheduleNeededReviews()
+    if (scheduled.length > 0) {
+      console.log(`🗓️  Scheduled ${scheduled.length} skill(s): ${scheduled.join(', ')}`)
+    }
+
+    const due = await getDueReviews(3)
+    if (due.length === 0) {
+      console.log('✅ Nothing due today')
+      return
+    }
+
+    due.forEach((review) => {
+      console.log(`\n• ${review.skillKey} (${review.reason}, score ${review.score ?? 'n/a'})`)
+      console.log(`  ${review.exercise.title}: ${review.exercise.instructions}`)
+      review.exercise.acceptanceCriteria.forEach((criterion) => console.log(`  - ${criterion}`))
+    })
+  } catch (err) {
+    console.error('❌ Review job failed:', err)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((err) => {
+    console.error('❌ Review job failed:', err)
+    process.exitCode = 1
+  })
+}
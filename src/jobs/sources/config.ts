@@ -0,0 +1,82 @@
+/**
+ * Purpose: Load and validate the ingest config file (which repositories, branches, Figma files and local folders to ingest).
+ * Inputs: INGEST_CONFIG (default ./ingest.config.json)
+ * Outputs: typed IngestConfig; a missing file means nothing is configured
+ * Example: const {github} = await loadIngestConfig()
+ */
+import fs from 'fs/promises'
+import path from 'path'
+import {z} from 'zod'
+import {env} from '../../env.js'
+import {globError} from './files.js'
+
+const DEFAULT_INCLUDE = ['**/*.{md,mdx,mdc,txt,html,css,scss,js,jsx,ts,tsx,json}']
+const DEFAULT_EXCLUDE = ['**/node_modules/**', '**/dist/**', '**/build/**', '**/.next/**', '**/coverage/**', '**/*.min.{js,css}']
+
+// A pattern that doesn't compile fails the config load instead of aborting a source mid-run
+const Glob = z.string().min(1).superRefine((glob, ctx) => {
+  const error = globError(glob)
+  if (error) ctx.addIssue({code: z.ZodIssueCode.custom, message: `Invalid glob "${glob}": ${error}`})
+})
+
+const FileFilters = {
+  include: z.array(Glob).default(DEFAULT_INCLUDE),
+  exclude: z.array(Glob).default(DEFAULT_EXCLUDE),
+}
+
+const RepoSchema = z.object({
+  owner: z.string().min(1),
+  repo: z.string().min(1),
+  branch: z.string().min(1).optional(), // defaults to the repository's default branch
+  ...FileFilters,
+})
+
+const DirectorySchema = z.object({
+  path: z.string().min(1), // relative to the config file
+  name: z.string().min(1).optional(), // document id prefix, defaults to the folder name
+  ...FileFilters,
+})
+
+export const IngestConfigSchema = z.object({
+  github: z.object({
+    repos: z.array(RepoSchema).default([]),
+    maxFileBytes: z.number().int().positive().default(200_000),
+  }).default({}),
+  figma: z.object({
+    files: z.array(z.object({key: z.string().min(1)})).default([]), // fetched with FIGMA_TOKEN
+    exports: z.array(z.string().min(1)).default([]), // saved `npm run figma-export` files, relative to the config
+  }).default({}),
+  local: z.object({
+    directories: z.array(DirectorySchema).default([]),
+    maxFileBytes: z.number().int().positive().default(200_000),
+  }).default({}),
+})
+
+export type IngestConfig = z.infer<typeof IngestConfigSchema>
+export type RepoConfig = z.infer<typeof RepoSchema>
+export type DirectoryConfig = z.infer<typeof DirectorySchema>
+
+export const configPath = (): string => path.resolve(process.cwd(), env.INGEST_CONFIG ?? 'ingest.config.json')
+
+/**
+ * Paths inside the config are relative to the config file
+ */
+export const resolveConfigPath = (relative: string): string => path.resolve(path.dirname(configPath()), relative)
+
+/**
+ * Read the config file; invalid JSON or shape throws with the file path and the failing fields
+ */
+export const loadIngestConfig = async (): Promise<IngestConfig> => {
+  const file = configPath()
+  let raw: unknown = {}
+  try {
+    raw = JSON.parse(await fs.readFile(file, 'utf-8'))
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw new Error(`Invalid ingest config ${file}: ${(err as Error).message}`)
+  }
+  const parsed = IngestConfigSchema.safeParse(raw)
+  if (!parsed.success) {
+    throw new Error(`Invalid ingest config ${file}: ${JSON.stringify(parsed.error.flatten().fieldErrors)}`)
+  }
+  return parsed.data
+}
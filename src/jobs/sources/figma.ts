@@ -0,0 +1,98 @@
+/**
+ * Purpose: Figma ingest source - variables, text/color/effect styles and components of the configured files.
+ * Inputs: ingest config `figma.files` (needs FIGMA_TOKEN) and/or `figma.exports` (saved JSON, works offline)
+ * Outputs: one Markdown SourceDocument per token layer and style kind, id `${fileKey}:${kind}`
+ * Example: const {documents} = await figmaConnector.load(context)
+ */
+import fs from 'fs/promises'
+import path from 'path'
+import {env} from '../../env.js'
+import {loadIngestConfig, resolveConfigPath} from './config.js'
+import {FigmaExportSchema, renderFigmaExport, type FigmaExport} from './figmaRender.js'
+import type {SourceConnector, SourceDocument, SourceListing} from './types.js'
+
+// GET /files/:key/nodes takes a comma-separated id list; keep URLs well under length limits
+const NODE_BATCH = 100
+
+/**
+ * Fetch everything the renderer needs for one file. Variables need an Enterprise plan,
+ * so a 403 there leaves them out instead of failing the file.
+ */
+export const fetchFigmaExport = async (key: string, token: string): Promise<FigmaExport> => {
+  const Figma = await import('figma-js')
+  const client = Figma.Client({personalAccessToken: token})
+
+  // depth 1: styles and components come with the file metadata, the node tree isn't needed
+  const {data: file} = await client.file(key, {depth: 1})
+
+  const nodes: Record<string, unknown> = {}
+  const styleIds = Object.keys(file.styles)
+  for (let i = 0; i < styleIds.length; i += NODE_BATCH) {
+    const {data} = await client.fileNodes(key, {ids: styleIds.slice(i, i + NODE_BATCH)})
+    Object.assign(nodes, data.nodes)
+  }
+
+  let variables: unknown
+  try {
+    const {data} = await client.client.get(`files/${key}/variables/local`)
+    variables = data.meta
+  } catch (err) {
+    const status = (err as {response?: {status?: number}}).response?.status
+    if (status !== 403 && status !== 404) throw err
+    console.warn(`⚠️  Figma variables unavailable for ${key} (HTTP ${status}), ingesting styles and components only`)
+  }
+
+  return FigmaExportSchema.parse({key, file, nodes, variables})
+}
+
+export const readFigmaExport = async (file: string): Promise<FigmaExport> => {
+  const parsed = FigmaExportSchema.safeParse(JSON.parse(await fs.readFile(file, 'utf-8')))
+  if (!parsed.success) throw new Error(`Invalid Figma export ${file}: ${parsed.error.issues[0]?.message ?? 'unknown shape'}`)
+  return parsed.data
+}
+
+const toDocuments = (key: string, data: FigmaExport): SourceDocument[] => (
+  renderFigmaExport(data).map((document) => ({
+    documentId: `${key}:${document.kind}`,
+    title: document.title,
+    content: document.markdown,
+    format: 'markdown',
+    // Token layers and styles are CSS custom properties and classes
+    language: document.kind === 'component-list' ? 'markdown' : 'css',
+    lastModified: data.file.lastModified,
+    metadata: {
+      fileKey: key,
+      fileName: data.file.name,
+      layer: document.kind,
+      url: `https://www.figma.com/design/${key}`,
+    },
+  }))
+)
+
+const load = async (): Promise<SourceListing> => {
+  const {figma} = await loadIngestConfig()
+  if (figma.files.length === 0 && figma.exports.length === 0) console.log('⚠️  No Figma files or exports configured')
+  // Skipping configured files would read as deleting their documents, so fail instead
+  if (figma.files.length > 0 && !env.FIGMA_TOKEN) throw new Error('figma.files are configured but FIGMA_TOKEN is not set')
+
+  const documents: SourceDocument[] = []
+  for (const {key} of figma.files) {
+    console.log(`🎨 Fetching Figma file ${key}`)
+    documents.push(...toDocuments(key, await fetchFigmaExport(key, env.FIGMA_TOKEN!)))
+  }
+  for (const exportPath of figma.exports) {
+    const file = resolveConfigPath(exportPath)
+    const data = await readFigmaExport(file)
+    const key = data.key ?? path.basename(file, path.extname(file))
+    console.log(`🎨 Reading Figma export ${exportPath} (${data.file.name})`)
+    documents.push(...toDocuments(key, data))
+  }
+  return {documents}
+}
+
+export const figmaConnector: SourceConnector = {
+  source: 'figma',
+  // Exports need no token; load() checks the token when live files are configured
+  unavailable: () => undefined,
+  load,
+}
@@ -0,0 +1,358 @@
+/**
+ * Purpose: Turn a Figma export (file, style nodes, local variables) into design-system documents, one per token layer.
+ * Inputs: FigmaExport - the GET /files, /files/:key/nodes and /files/:key/variables/local responses
+ * Outputs: Markdown documents with CSS custom properties: primitives → alias → mapped → responsive → components, plus text/color styles; raw tokens for the linter
+ * Example: renderFigmaExport(FigmaExportSchema.parse(json)) → [{layer:'primitives', markdown:'# ...'}]
+ */
+import {z} from 'zod'
+import {COMPONENT_NAME, TOKEN_LAYERS, formatTokenNumber, layerFromDepth, layerFromName, type RawToken, type TokenLayer} from '../../analysis/tokens.js'
+
+const ColorSchema = z.object({r: z.number(), g: z.number(), b: z.number(), a: z.number().default(1)})
+const AliasSchema = z.object({type: z.literal('VARIABLE_ALIAS'), id: z.string()})
+const VariableValueSchema = z.union([AliasSchema, ColorSchema, z.number(), z.string(), z.boolean()])
+
+const VariableSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  resolvedType: z.enum(['COLOR', 'FLOAT', 'STRING', 'BOOLEAN']),
+  valuesByMode: z.record(VariableValueSchema),
+  description: z.string().default(''),
+  variableCollectionId: z.string(),
+})
+
+const CollectionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  modes: z.array(z.object({modeId: z.string(), name: z.string()})),
+  defaultModeId: z.string(),
+  variableIds: z.array(z.string()).default([]),
+})
+
+const StyleMetaSchema = z.object({
+  name: z.string(),
+  styleType: z.enum(['FILL', 'TEXT', 'EFFECT', 'GRID']),
+  description: z.string().default(''),
+})
+
+const ComponentMetaSchema = z.object({
+  name: z.string(),
+  description: z.string().default(''),
+  componentSetId: z.string().optional(),
+})
+
+const PaintSchema = z.object({type: z.string(), color: ColorSchema.optional(), opacity: z.number().optional(), visible: z.boolean().optional()})
+
+const StyleNodeSchema = z.object({
+  style: z.object({
+    fontFamily: z.string().optional(),
+    fontWeight: z.number().optional(),
+    fontSize: z.number().optional(),
+    lineHeightPx: z.number().optional(),
+    lineHeightPercentFontSize: z.number().optional(),
+    letterSpacing: z.number().optional(),
+  }).optional(),
+  fills: z.array(PaintSchema).optional(),
+  effects: z.array(z.object({
+    type: z.string(),
+    color: ColorSchema.optional(),
+    offset: z.object({x: z.number(), y: z.number()}).optional(),
+    radius: z.number().optional(),
+    spread: z.number().optional(),
+    visible: z.boolean().optional(),
+  })).optional(),
+})
+
+/**
+ * What `npm run figma-export` saves and the connector reads; unknown fields are ignored
+ */
+export const FigmaExportSchema = z.object({
+  key: z.string().optional(), // file key, used for document ids
+  file: z.object({
+    name: z.string(),
+    lastModified: z.string().optional(),
+    version: z.string().optional(),
+    styles: z.record(StyleMetaSchema).default({}), // by style node id
+    components: z.record(ComponentMetaSchema).default({}), // by component node id
+    componentSets: z.record(ComponentMetaSchema.omit({componentSetId: true})).default({}),
+  }),
+  // Style node documents by node id (the `nodes` of GET /files/:key/nodes)
+  nodes: z.record(z.object({document: z.unknown()}).nullable()).default({}),
+  // The `meta` of GET /files/:key/variables/local (Enterprise plans only)
+  variables: z.object({
+    variableCollections: z.record(CollectionSchema).default({}),
+    variables: z.record(VariableSchema).default({}),
+  }).optional(),
+})
+
+export type FigmaExport = z.infer<typeof FigmaExportSchema>
+type Variable = z.infer<typeof VariableSchema>
+type Collection = z.infer<typeof CollectionSchema>
+type VariableValue = z.infer<typeof VariableValueSchema>
+
+const LAYER_INFO: Record<TokenLayer, {title: string, description: string}> = {
+  primitives: {title: 'Primitive tokens', description: 'Raw values (colors, spacing, radii, fonts). Never used directly in UI code.'},
+  alias: {title: 'Alias tokens', description: 'Meaningful names for primitives, e.g. --color-primary: var(--color-blue-500).'},
+  mapped: {title: 'Mapped (semantic) tokens', description: 'What UI code consumes directly: surfaces, text, borders, icons.'},
+  responsive: {title: 'Responsive tokens', description: 'Breakpoints and per-device values; each mode is a device.'},
+  components: {title: 'Component tokens', description: 'Tokens scoped to components (buttons, inputs, cards), usually per size.'},
+}
+
+export interface FigmaDocument {
+  kind: TokenLayer | 'text-styles' | 'color-styles' | 'effect-styles' | 'component-list'
+  title: string
+  markdown: string
+}
+
+/**
+ * Figma names to CSS custom properties: "color/blue/500" → --color-blue-500
+ */
+export const cssVariableName = (name: string): string => `--${name.trim().toLowerCase()
+  .replace(/[\s/.]+/g, '-')
+  .replace(/[^a-z0-9_-]/g, '')
+  .replace(/-+/g, '-')
+  .replace(/^-|-$/g, '')}`
+
+const slug = (name: string): string => cssVariableName(name).slice(2)
+
+const round = (value: number, digits: number = 2): number => Number(value.toFixed(digits))
+
+const hex = (value: number): string => Math.round(Math.min(1, Math.max(0, value)) * 255).toString(16).padStart(2, '0')
+
+export const colorToHex = (color: {r: number, g: number, b: number, a: number}, opacity: number = 1): string => {
+  const alpha = color.a * opacity
+  return `#${hex(color.r)}${hex(color.g)}${hex(color.b)}${alpha < 1 ? hex(alpha) : ''}`
+}
+
+// Figma FLOATs carry no unit, so the variable's name decides
+const formatRaw = (variable: Variable, value: Exclude<VariableValue, {type: 'VARIABLE_ALIAS'}>): string => {
+  if (typeof value === 'object') return colorToHex(value)
+  if (typeof value === 'number') return formatTokenNumber(variable.name, value)
+  if (typeof value === 'string') return variable.resolvedType === 'STRING' ? `"${value.replace(/"/g, '\\"')}"` : value
+  return String(value)
+}
+
+const isAlias = (value: VariableValue | undefined): value is {type: 'VARIABLE_ALIAS', id: string} => (
+  typeof value === 'object' && value !== null && 'type' in value && value.type === 'VARIABLE_ALIAS'
+)
+
+/**
+ * Variable lookups for one export: alias targets, resolved values and chain depth
+ */
+const variableIndex = (meta: NonNullable<FigmaExport['variables']>) => {
+  const variables = meta.variables
+  const collections = meta.variableCollections
+
+  // Aliases into another collection resolve in that collection's default mode
+  const valueIn = (variable: Variable, modeId: string): VariableValue | undefined => {
+    const collection = collections[variable.variableCollectionId]
+    return variable.valuesByMode[modeId] ?? (collection ? variable.valuesByMode[collection.defaultModeId] : undefined)
+  }
+
+  const resolve = (variable: Variable, modeId: string, seen: Set<string> = new Set()): string | null => {
+    if (seen.has(variable.id)) return null // cycle
+    seen.add(variable.id)
+    const value = valueIn(variable, modeId)
+    if (value === undefined) return null
+    if (!isAlias(value)) return formatRaw(variable, value)
+    const target = variables[value.id]
+    return target ? resolve(target, modeId, seen) : null // target lives in another (remote) library
+  }
+
+  const depth = (variable: Variable, seen: Set<string> = new Set()): number => {
+    if (seen.has(variable.id)) return 0
+    seen.add(variable.id)
+    const collection = collections[variable.variableCollectionId]
+    const value = collection ? valueIn(variable, collection.defaultModeId) : undefined
+    if (!isAlias(value)) return 0
+    const target = variables[value.id]
+    return target ? 1 + depth(target, seen) : 1
+  }
+
+  return {variables, collections, valueIn, resolve, depth}
+}
+
+/**
+ * Layer of a collection: by name when it says so (collection or component prefix), otherwise by how far its aliases are from raw values
+ */
+const layerOf = (collection: Collection, members: Variable[], depth: (variable: Variable) => number): TokenLayer => {
+  const named = layerFromName(collection.name)
+  if (named) return named
+  if (members.every((variable) => COMPONENT_NAME.test(variable.name.toLowerCase()))) return 'components'
+  return layerFromDepth(Math.max(0, ...members.map(depth)))
+}
+
+const comment = (parts: Array<string | null | undefined>): string => {
+  const text = parts.filter((part): part is string => Boolean(part)).join(' - ').replace(/\*\//g, '*\\/')
+  return text ? ` /* ${text} */` : ''
+}
+
+const renderCollection = (collection: Collection, members: Variable[], index: ReturnType<typeof variableIndex>): string => {
+  const modes = collection.modes.map((mode) => mode.name).join(', ')
+  const sections = collection.modes.map((mode) => {
+    const selector = mode.modeId === collection.defaultModeId ? ':root' : `[data-${slug(collection.name)}="${slug(mode.name)}"]`
+    const lines = members.map((variable) => {
+      const value = index.valueIn(variable, mode.modeId)
+      if (value === undefined) return null
+      if (isAlias(value)) {
+        const target = index.variables[value.id]
+        const declared = target ? `var(${cssVariableName(target.name)})` : 'unset'
+        const resolved = index.resolve(variable, mode.modeId)
+        return `  ${cssVariableName(variable.name)}: ${declared};${comment([resolved, target ? null : 'alias to a variable outside this file', variable.description])}`
+      }
+      return `  ${cssVariableName(variable.name)}: ${formatRaw(variable, value)};${comment([variable.description])}`
+    }).filter((line): line is string => line !== null)
+    return `/* ${collection.name} / ${mode.name} */\n${selector} {\n${lines.join('\n')}\n}`
+  })
+  return `## ${collection.name}\n\nModes: ${modes}\n\n\`\`\`css\n${sections.join('\n\n')}\n\`\`\``
+}
+
+const styleNode = (data: FigmaExport, nodeId: string): z.infer<typeof StyleNodeSchema> | undefined => {
+  const parsed = StyleNodeSchema.safeParse(data.nodes[nodeId]?.document)
+  return parsed.success ? parsed.data : undefined
+}
+
+const renderTextStyles = (data: FigmaExport): string | null => {
+  const rules = Object.entries(data.file.styles)
+    .filter(([, style]) => style.styleType === 'TEXT')
+    .sort(([, a], [, b]) => a.name.localeCompare(b.name))
+    .map(([nodeId, style]) => {
+      const text = styleNode(data, nodeId)?.style
+      const name = slug(style.name)
+      if (!text) return `/* ${style.name}: values not exported */`
+      const lineHeight = text.lineHeightPercentFontSize !== undefined
+        ? round(text.lineHeightPercentFontSize / 100)
+        : text.lineHeightPx !== undefined && text.fontSize ? round(text.lineHeightPx / text.fontSize) : undefined
+      const declarations = [
+        text.fontFamily ? `font-family: "${text.fontFamily}";` : null,
+        text.fontWeight !== undefined ? `font-weight: ${text.fontWeight};` : null,
+        text.fontSize !== undefined ? `font-size: ${round(text.fontSize)}px;` : null,
+        lineHeight !== undefined ? `line-height: ${lineHeight};` : null,
+        text.letterSpacing ? `letter-spacing: ${round(text.letterSpacing)}px;` : null,
+      ].filter(Boolean).map((line) => `  ${line}`)
+      return `.text-${name} {${comment([style.description])}\n${declarations.join('\n')}\n}`
+    })
+  if (rules.length === 0) return null
+  return `Typography roles as utility classes (from Figma text styles).\n\n\`\`\`css\n${rules.join('\n\n')}\n\`\`\``
+}
+
+const renderColorStyles = (data: FigmaExport): string | null => {
+  const lines = Object.entries(data.file.styles)
+    .filter(([, style]) => style.styleType === 'FILL')
+    .sort(([, a], [, b]) => a.name.localeCompare(b.name))
+    .map(([nodeId, style]) => {
+      const fill = styleNode(data, nodeId)?.fills?.find((paint) => paint.visible !== false)
+      const value = fill?.type === 'SOLID' && fill.color ? colorToHex(fill.color, fill.opacity ?? 1) : null
+      if (value) return `  ${cssVariableName(style.name)}: ${value};${comment([style.description])}`
+      const missing = fill ? fill.type.toLowerCase().replace(/_/g, ' ') : 'values not exported'
+      return `  ${comment([`${cssVariableName(style.name)}: ${missing}`, style.description]).trimStart()}`
+    })
+  if (lines.length === 0) return null
+  return `Color styles as custom properties (from Figma fill styles).\n\n\`\`\`css\n:root {\n${lines.join('\n')}\n}\n\`\`\``
+}
+
+const renderEffectStyles = (data: FigmaExport): string | null => {
+  const lines = Object.entries(data.file.styles)
+    .filter(([, style]) => style.styleType === 'EFFECT')
+    .sort(([, a], [, b]) => a.name.localeCompare(b.name))
+    .map(([nodeId, style]) => {
+      const shadows = (styleNode(data, nodeId)?.effects ?? [])
+        .filter((effect) => effect.visible !== false && /SHADOW/.test(effect.type) && effect.color && effect.offset)
+        .map((effect) => `${effect.type === 'INNER_SHADOW' ? 'inset ' : ''}${round(effect.offset!.x)}px ${round(effect.offset!.y)}px ${round(effect.radius ?? 0)}px ${round(effect.spread ?? 0)}px ${colorToHex(effect.color!)}`)
+      return shadows.length > 0
+        ? `  ${cssVariableName(`shadow/${style.name}`)}: ${shadows.join(', ')};${comment([style.description])}`
+        : `  /* ${style.name}: not a shadow */`
+    })
+  if (lines.length === 0) return null
+  return `Shadows as custom properties (from Figma effect styles).\n\n\`\`\`css\n:root {\n${lines.join('\n')}\n}\n\`\`\``
+}
+
+const renderComponents = (data: FigmaExport): string | null => {
+  const sets = new Map<string, Array<{name: string, description: string}>>()
+  const standalone: Array<{name: string, description: string}> = []
+  for (const component of Object.values(data.file.components)) {
+    if (component.componentSetId && data.file.componentSets[component.componentSetId]) {
+      const variants = sets.get(component.componentSetId) ?? []
+      variants.push(component)
+      sets.set(component.componentSetId, variants)
+    } else {
+      standalone.push(component)
+    }
+  }
+
+  const line = (item: {name: string, description: string}): string => `- ${item.name}${item.description ? ` - ${item.description}` : ''}`
+  const sections = [...sets.entries()]
+    .map(([setId, variants]) => {
+      const set = data.file.componentSets[setId]!
+      return `### ${set.name}\n\n${set.description ? `${set.description}\n\n` : ''}Variants:\n${variants.map(line).sort().join('\n')}`
+    })
+    .sort()
+  if (standalone.length > 0) sections.push(`### Other components\n\n${standalone.map(line).sort().join('\n')}`)
+  return sections.length > 0 ? sections.join('\n\n') : null
+}
+
+/**
+ * Variables as raw design tokens (default mode), for the token linter. Aliases keep their
+ * reference so chains resolve the same way as hand-written token JSON.
+ */
+export const figmaTokens = (data: FigmaExport, file: string): RawToken[] => {
+  if (!data.variables) return []
+  const index = variableIndex(data.variables)
+  return Object.values(index.collections).flatMap((collection) => {
+    const members = Object.values(index.variables).filter((variable) => variable.variableCollectionId === collection.id)
+    const layer = members.length > 0 ? layerOf(collection, members, (variable) => index.depth(variable)) : undefined
+    return members.flatMap((variable): RawToken[] => {
+      const value = index.valueIn(variable, collection.defaultModeId)
+      if (value === undefined) return []
+      const target = isAlias(value) ? index.variables[value.id] : undefined
+      return [{
+        name: slug(variable.name),
+        // Aliases into a library outside this file can't be resolved
+        value: isAlias(value) ? (target ? `var(${cssVariableName(target.name)})` : 'unset') : formatRaw(variable, value),
+        file,
+        layer,
+        type: variable.resolvedType.toLowerCase(),
+        description: variable.description || undefined,
+      }]
+    })
+  })
+}
+
+/**
+ * Every document an export yields; layers without content are left out
+ */
+export const renderFigmaExport = (data: FigmaExport): FigmaDocument[] => {
+  const fileName = data.file.name
+  const documents: FigmaDocument[] = []
+  const doc = (kind: FigmaDocument['kind'], title: string, body: string): void => {
+    documents.push({kind, title: `${fileName}: ${title}`, markdown: `# ${fileName}: ${title}\n\n${body}`})
+  }
+
+  if (data.variables) {
+    const index = variableIndex(data.variables)
+    const byLayer = new Map<TokenLayer, string[]>()
+    const collections = Object.values(index.collections).sort((a, b) => a.name.localeCompare(b.name))
+    for (const collection of collections) {
+      const members = Object.values(index.variables)
+        .filter((variable) => variable.variableCollectionId === collection.id)
+        .sort((a, b) => a.name.localeCompare(b.name))
+      if (members.length === 0) continue
+      const layer = layerOf(collection, members, (variable) => index.depth(variable))
+      byLayer.set(layer, [...(byLayer.get(layer) ?? []), renderCollection(collection, members, index)])
+    }
+    for (const layer of TOKEN_LAYERS) {
+      const sections = byLayer.get(layer)
+      if (sections) doc(layer, LAYER_INFO[layer].title, `${LAYER_INFO[layer].description}\n\n${sections.join('\n\n')}`)
+    }
+  }
+
+  const textStyles = renderTextStyles(data)
+  if (textStyles) doc('text-styles', 'Text styles', textStyles)
+  const colorStyles = renderColorStyles(data)
+  if (colorStyles) doc('color-styles', 'Color styles', colorStyles)
+  const effectStyles = renderEffectStyles(data)
+  if (effectStyles) doc('effect-styles', 'Effect styles', effectStyles)
+  const components = renderComponents(data)
+  if (components) doc('component-list', 'Components', `Component names and descriptions.\n\n${components}`)
+
+  return documents
+}
@@ -0,0 +1,158 @@
+/**
+ * Purpose: File filters shared by file-based ingest sources - globs, .gitignore rules, lockfiles and binary detection.
+ * Inputs: repo-relative paths (forward slashes), file contents
+ * Outputs: match results and skip reasons
+ * Example: matchesAny('src/server.ts', ['src/**', '*.md']) → true
+ */
+
+// Generated or non-text files that only add noise to retrieval
+const LOCKFILES = new Set([
+  'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'npm-shrinkwrap.json',
+  'composer.lock', 'Gemfile.lock', 'Cargo.lock', 'poetry.lock', 'Pipfile.lock', 'go.sum',
+])
+
+const BINARY_EXTENSIONS = new Set([
+  'png', 'jpg', 'jpeg', 'gif', 'webp', 'avif', 'ico', 'bmp', 'tiff', 'psd', 'fig', 'sketch',
+  'woff', 'woff2', 'ttf', 'otf', 'eot',
+  'zip', 'gz', 'tgz', 'bz2', 'xz', '7z', 'rar', 'tar', 'jar',
+  'pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx',
+  'mp3', 'mp4', 'mov', 'avi', 'webm', 'wav', 'ogg',
+  'exe', 'dll', 'so', 'dylib', 'wasm', 'bin', 'class', 'pyc', 'node', 'sqlite', 'db',
+])
+
+const escapeRegExp = (text: string): string => text.replace(/[.+^$()|[\]\\]/g, '\\$&')
+
+/**
+ * Index of the `}` closing the brace at `open`, skipping nested braces; -1 when unbalanced
+ */
+const closingBrace = (glob: string, open: number): number => {
+  let depth = 0
+  for (let i = open; i < glob.length; i++) {
+    if (glob[i] === '{') depth++
+    else if (glob[i] === '}' && --depth === 0) return i
+  }
+  return -1
+}
+
+/**
+ * Split brace contents at top-level commas: "a,{b,c}" → ["a", "{b,c}"]
+ */
+const alternatives = (body: string): string[] => {
+  const parts: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '{') depth++
+    else if (body[i] === '}') depth--
+    else if (body[i] === ',' && depth === 0) {
+      parts.push(body.slice(start, i))
+      start = i + 1
+    }
+  }
+  return [...parts, body.slice(start)]
+}
+
+const globSource = (glob: string): string => {
+  let pattern = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` also matches zero directories
+        const slash = glob[i + 2] === '/'
+        pattern += slash ? '(?:.*/)?' : '.*'
+        i += slash ? 2 : 1
+      } else {
+        pattern += '[^/]*'
+      }
+    } else if (char === '?') {
+      pattern += '[^/]'
+    } else if (char === '{') {
+      const end = closingBrace(glob, i)
+      if (end < 0) {
+        pattern += '\\{'
+        continue
+      }
+      // Each alternative is a glob of its own: {*.md,docs/**}
+      pattern += `(?:${alternatives(glob.slice(i + 1, end)).map(globSource).join('|')})`
+      i = end
+    } else {
+      pattern += escapeRegExp(char)
+    }
+  }
+  return pattern
+}
+
+/**
+ * Glob to an anchored RegExp: `**` spans directories, `*` and `?` stay within one, `{a,b}` alternates (and nests)
+ */
+export const globToRegExp = (glob: string): RegExp => new RegExp(`^${globSource(glob)}$`)
+
+/**
+ * Why a glob can't be used, for config validation; undefined when it compiles
+ */
+export const globError = (glob: string): string | undefined => {
+  try {
+    globToRegExp(glob)
+    return undefined
+  } catch (err) {
+    return (err as Error).message
+  }
+}
+
+export const matchesAny = (path: string, globs: string[]): boolean => (
+  globs.some((glob) => globToRegExp(glob).test(path))
+)
+
+export interface IgnoreRule {
+  base: string // directory of the .gitignore, relative to the walk root ('' for the root)
+  pattern: RegExp
+  negate: boolean
+  dirOnly: boolean
+}
+
+/**
+ * .gitignore lines to rules. A pattern with an inner or leading slash is anchored to
+ * the file's directory; anything else matches at any depth.
+ */
+export const parseGitignore = (content: string, base: string = ''): IgnoreRule[] => content.split(/\r?\n/)
+  .map((line) => line.replace(/(?<!\\)\s+$/, ''))
+  .filter((line) => line && !line.startsWith('#'))
+  .map((line) => {
+    const negate = line.startsWith('!')
+    let pattern = (negate ? line.slice(1) : line).replace(/^\\([#!])/, '$1')
+    const dirOnly = pattern.endsWith('/')
+    if (dirOnly) pattern = pattern.slice(0, -1)
+    const anchored = pattern.includes('/')
+    pattern = pattern.replace(/^\//, '')
+    return {base, pattern: globToRegExp(anchored ? pattern : `**/${pattern}`), negate, dirOnly}
+  })
+
+/**
+ * Last matching rule wins, as in git. Paths are relative to the walk root.
+ */
+export const isIgnored = (path: string, isDirectory: boolean, rules: IgnoreRule[]): boolean => {
+  let ignored = false
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue
+    const relative = rule.base ? (path.startsWith(`${rule.base}/`) ? path.slice(rule.base.length + 1) : null) : path
+    if (relative !== null && rule.pattern.test(relative)) ignored = !rule.negate
+  }
+  return ignored
+}
+
+/**
+ * Why a path should never be ingested, judging by its name alone
+ */
+export const skipReason = (path: string): 'lockfile' | 'binary' | undefined => {
+  const name = path.split('/').pop() ?? path
+  if (LOCKFILES.has(name) || name.endsWith('.lock')) return 'lockfile'
+  const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : ''
+  if (BINARY_EXTENSIONS.has(extension)) return 'binary'
+  return undefined
+}
+
+/**
+ * Binary sniffing the way git does it: a NUL byte in the first 8000 bytes
+ */
+export const isBinaryContent = (content: Buffer): boolean => content.subarray(0, 8000).includes(0)
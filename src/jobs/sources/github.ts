@@ -0,0 +1,127 @@
+/**
+ * Purpose: GitHub ingest source - the full git tree of each configured repository branch.
+ * Inputs: GITHUB_TOKEN, ingest config (repos, branches, include/exclude globs, size limit)
+ * Outputs: one SourceDocument per file, id `${owner}/${repo}@${branch}:${path}`, with path and line ranges
+ * Example: const {documents} = await githubConnector.load(context)
+ */
+import {createHash} from 'crypto'
+import {env} from '../../env.js'
+import {detectFormat} from '../../db/chunker.js'
+import {loadIngestConfig, type RepoConfig} from './config.js'
+import {isBinaryContent, matchesAny, skipReason} from './files.js'
+import type {LoadContext, SourceConnector, SourceDocument, SourceListing} from './types.js'
+
+type Octokit = InstanceType<typeof import('@octokit/rest').Octokit>
+
+/**
+ * Blob contents by SHA; binaries that slipped past the extension check come back empty
+ */
+const blobLoader = (octokit: Octokit, owner: string, repo: string, sha: string, path: string) => async (): Promise<string> => {
+  const {data} = await octokit.git.getBlob({owner, repo, file_sha: sha})
+  const content = Buffer.from(data.content, data.encoding === 'base64' ? 'base64' : 'utf-8')
+  if (isBinaryContent(content)) {
+    console.warn(`⚠️  Skipping binary file ${owner}/${repo}:${path}`)
+    return ''
+  }
+  return content.toString('utf-8')
+}
+
+const loadRepo = async (
+  octokit: Octokit,
+  config: RepoConfig,
+  maxFileBytes: number,
+  context: LoadContext
+): Promise<{documents: SourceDocument[], key: string, cursor: string}> => {
+  const {owner, repo} = config
+  const branch = config.branch ?? (await octokit.repos.get({owner, repo})).data.default_branch
+  const {data: head} = await octokit.repos.getBranch({owner, repo, branch})
+  const commit = head.commit.sha
+  const key = `${owner}/${repo}@${branch}`
+  const prefix = `${key}:`
+
+  // The cursor covers the filters too, so editing include/exclude re-walks the tree
+  const filters = createHash('sha256').update(JSON.stringify([config.include, config.exclude, maxFileBytes])).digest('hex').slice(0, 12)
+  const cursor = `${commit}:${filters}`
+
+  // Same commit, same filters: re-list what was stored last time; versions match, so nothing is fetched
+  if (!context.full && context.cursors.get(key) === cursor) {
+    console.log(`⏭️  ${key} unchanged at ${commit.slice(0, 7)}`)
+    const documents = [...context.previous.values()]
+      .filter((state) => state.documentId.startsWith(prefix) && state.version)
+      .map((state): SourceDocument => {
+        const path = state.documentId.slice(prefix.length)
+        return {
+          documentId: state.documentId,
+          title: state.title ?? path,
+          content: blobLoader(octokit, owner, repo, state.version!, path),
+          version: state.version!,
+        }
+      })
+    return {documents, key, cursor}
+  }
+
+  console.log(`📁 Processing GitHub repo: ${key} (${commit.slice(0, 7)})`)
+  const {data: tree} = await octokit.git.getTree({owner, repo, tree_sha: commit, recursive: 'true'})
+  if (tree.truncated) {
+    // Missing entries would read as deletions, so refuse rather than ingest a partial tree
+    throw new Error(`${key}: git tree too large to list in one request; narrow it with include globs`)
+  }
+
+  const documents: SourceDocument[] = []
+  const skipped: Record<string, number> = {}
+  for (const entry of tree.tree) {
+    if (entry.type !== 'blob' || !entry.path || !entry.sha) continue
+    const path = entry.path
+    if (!matchesAny(path, config.include) || matchesAny(path, config.exclude)) continue
+
+    const reason = skipReason(path) ?? ((entry.size ?? 0) > maxFileBytes ? 'too large' : undefined)
+    if (reason) {
+      skipped[reason] = (skipped[reason] ?? 0) + 1
+      continue
+    }
+
+    documents.push({
+      documentId: `${prefix}${path}`,
+      title: path,
+      // Blob SHAs only change with the file's content, so unchanged files are never downloaded
+      content: blobLoader(octokit, owner, repo, entry.sha, path),
+      version: entry.sha,
+      format: detectFormat(path),
+      lines: true,
+      metadata: {
+        repo: `${owner}/${repo}`,
+        branch,
+        commit,
+        path,
+        url: `https://github.com/${owner}/${repo}/blob/${commit}/${path}`,
+      },
+    })
+  }
+
+  const skippedSummary = Object.entries(skipped).map(([reason, count]) => `${count} ${reason}`).join(', ')
+  console.log(`   ${documents.length} files${skippedSummary ? `, skipped ${skippedSummary}` : ''}`)
+  return {documents, key, cursor}
+}
+
+const load = async (context: LoadContext): Promise<SourceListing> => {
+  const {github} = await loadIngestConfig()
+  if (github.repos.length === 0) console.log('⚠️  No GitHub repositories configured')
+
+  const {Octokit} = await import('@octokit/rest')
+  const octokit = new Octokit({auth: env.GITHUB_TOKEN})
+  const documents: SourceDocument[] = []
+  const cursors: Record<string, string> = {}
+
+  for (const repo of github.repos) {
+    const listing = await loadRepo(octokit, repo, github.maxFileBytes, context)
+    documents.push(...listing.documents)
+    cursors[listing.key] = listing.cursor
+  }
+  return {documents, cursors}
+}
+
+export const githubConnector: SourceConnector = {
+  source: 'github',
+  unavailable: () => (!env.GITHUB_TOKEN ? 'GitHub token not configured' : undefined),
+  load,
+}
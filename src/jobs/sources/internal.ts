@@ -0,0 +1,124 @@
+/**
+ * Purpose: Internal ingest source - built-in lessons plus the CSS design system docs in .cursor/.
+ * Inputs: .cursor/css_design_system_*.mdc (optional)
+ * Outputs: one SourceDocument per lesson or doc file
+ * Example: const {documents} = await internalConnector.load(context)
+ */
+import fs from 'fs/promises'
+import path from 'path'
+import type {SourceConnector, SourceDocument, SourceListing} from './types.js'
+
+const LESSONS = [
+  {
+    title: 'HTML Basics',
+    content: `
+HTML (HyperText Markup Language) is the standard markup language for creating web pages.
+HTML describes the structure of a web page semantically and originally included cues for the appearance of the document.
+
+Key HTML concepts:
+- Elements are the building blocks of HTML pages
+- Tags come in pairs: opening and closing tags
+- Attributes provide additional information about elements
+- Semantic HTML helps with accessibility and SEO
+
+Common HTML elements:
+- <html>: Root element of an HTML page
+- <head>: Contains meta information about the document
+- <body>: Contains the visible page content
+- <h1> to <h6>: Heading elements
+- <p>: Paragraph element
+- <div>: Division or section element
+- <span>: Inline element for grouping text
+- <a>: Anchor element for links
+- <img>: Image element
+- <ul>, <ol>, <li>: List elements
+    `,
+  },
+  {
+    title: 'CSS Fundamentals',
+    content: `
+CSS (Cascading Style Sheets) is a style sheet language used for describing the presentation of a document written in HTML.
+CSS is designed to enable the separation of presentation and content, including layout, colors, and fonts.
+
+CSS Selectors:
+- Element selectors: p, div, h1
+- Class selectors: .classname
+- ID selectors: #idname
+- Descendant selectors: div p
+- Child selectors: div > p
+- Pseudo-classes: :hover, :focus, :active
+
+CSS Box Model:
+- Content: The actual content of the element
+- Padding: Space between content and border
+- Border: Border around the element
+- Margin: Space outside the border
+
+CSS Layout:
+- Display: block, inline, inline-block, flex, grid
+- Position: static, relative, absolute, fixed, sticky
+- Flexbox: flex-direction, justify-content, align-items
+- Grid: grid-template-columns, grid-template-rows
+    `,
+  },
+  {
+    title: 'JavaScript Essentials',
+    content: `
+JavaScript is a programming language that is one of the core technologies of the World Wide Web.
+JavaScript enables interactive web pages and is an essential part of web applications.
+
+JavaScript Fundamentals:
+- Variables: let, const, var
+- Data types: string, number, boolean, object, array, null, undefined
+- Functions: function declarations, expressions, arrow functions
+- Control flow: if/else, switch, loops (for, while, forEach)
+- Objects and arrays: creation, manipulation, methods
+
+DOM Manipulation:
+- Selecting elements: getElementById, querySelector, querySelectorAll
+- Modifying content: innerHTML, textContent, innerText
+- Changing attributes: setAttribute, getAttribute
+- Event handling: addEventListener, removeEventListener
+- Creating elements: createElement, appendChild, removeChild
+
+Modern JavaScript:
+- ES6+ features: arrow functions, destructuring, spread operator
+- Promises and async/await for asynchronous operations
+- Modules: import/export statements
+- Template literals for string interpolation
+    `,
+  },
+]
+
+const DOC_FILES = [
+  {title: 'CSS Design System Documentation', file: 'css_design_system_documentation.mdc'},
+  {title: 'CSS Design System Best Practices', file: 'css_design_system_best_practices.mdc'},
+]
+
+const slugify = (title: string): string => title.toLowerCase().replace(/\s+/g, '-')
+
+const load = async (): Promise<SourceListing> => {
+  const documents: SourceDocument[] = LESSONS.map((lesson) => ({
+    documentId: slugify(lesson.title),
+    title: lesson.title,
+    content: lesson.content,
+    format: 'text',
+  }))
+
+  for (const {title, file} of DOC_FILES) {
+    try {
+      const content = await fs.readFile(path.join(process.cwd(), '.cursor', file), 'utf-8')
+      documents.push({documentId: slugify(title), title, content, format: 'markdown', metadata: {path: `.cursor/${file}`}})
+    } catch (err) {
+      // A missing doc file counts as removed, so its chunks are cleaned up
+      console.warn(`⚠️ Could not load ${title}:`, (err as Error).message)
+    }
+  }
+  return {documents}
+}
+
+export const internalConnector: SourceConnector = {
+  source: 'internal',
+  unavailable: () => undefined,
+  load,
+}
@@ -0,0 +1,134 @@
+/**
+ * Purpose: Local ingest source - the learner's project folders, honoring .gitignore, with a file watcher for --watch.
+ * Inputs: ingest config `local.directories` (path, name, include/exclude globs) and `local.maxFileBytes`
+ * Outputs: one SourceDocument per file, id `${name}:${relativePath}`, with path and line ranges
+ * Example: const {documents} = await localConnector.load(context)
+ */
+import {watch as watchFs} from 'fs'
+import fs from 'fs/promises'
+import path from 'path'
+import {detectFormat} from '../../db/chunker.js'
+import {loadIngestConfig, resolveConfigPath, type DirectoryConfig} from './config.js'
+import {isBinaryContent, isIgnored, matchesAny, parseGitignore, skipReason, type IgnoreRule} from './files.js'
+import type {SourceConnector, SourceDocument, SourceListing} from './types.js'
+
+// Never worth walking, ignored or not
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules'])
+
+/**
+ * Relative paths (forward slashes) of every file not excluded by a .gitignore on the way down
+ */
+const walk = async (root: string, relative: string = '', rules: IgnoreRule[] = []): Promise<string[]> => {
+  const directory = path.join(root, relative)
+  const entries = await fs.readdir(directory, {withFileTypes: true})
+  let scoped = rules
+  if (entries.some((entry) => entry.isFile() && entry.name === '.gitignore')) {
+    scoped = [...rules, ...parseGitignore(await fs.readFile(path.join(directory, '.gitignore'), 'utf-8'), relative)]
+  }
+
+  const files: string[] = []
+  for (const entry of entries) {
+    const child = relative ? `${relative}/${entry.name}` : entry.name
+    // Symlinks are skipped: they can point outside the folder or loop
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRECTORIES.has(entry.name) && !isIgnored(child, true, scoped)) files.push(...await walk(root, child, scoped))
+    } else if (entry.isFile() && !isIgnored(child, false, scoped)) {
+      files.push(child)
+    }
+  }
+  return files
+}
+
+const fileLoader = (file: string, relative: string) => async (): Promise<string> => {
+  const content = await fs.readFile(file)
+  if (isBinaryContent(content)) {
+    console.warn(`⚠️  Skipping binary file ${relative}`)
+    return ''
+  }
+  return content.toString('utf-8')
+}
+
+const directoryName = (directory: DirectoryConfig): string => directory.name ?? path.basename(resolveConfigPath(directory.path))
+
+const loadDirectory = async (directory: DirectoryConfig, maxFileBytes: number): Promise<SourceDocument[]> => {
+  const root = resolveConfigPath(directory.path)
+  const name = directoryName(directory)
+  console.log(`📁 Scanning ${name} (${root})`)
+
+  const documents: SourceDocument[] = []
+  const skipped: Record<string, number> = {}
+  for (const relative of await walk(root)) {
+    if (!matchesAny(relative, directory.include) || matchesAny(relative, directory.exclude)) continue
+    const file = path.join(root, relative)
+    const stats = await fs.stat(file)
+    const reason = skipReason(relative) ?? (stats.size > maxFileBytes ? 'too large' : undefined)
+    if (reason) {
+      skipped[reason] = (skipped[reason] ?? 0) + 1
+      continue
+    }
+
+    documents.push({
+      documentId: `${name}:${relative}`,
+      title: relative,
+      content: fileLoader(file, relative),
+      // Unchanged mtime and size: the file isn't read again
+      version: `${stats.mtimeMs}:${stats.size}`,
+      format: detectFormat(relative),
+      lines: true,
+      metadata: {directory: name, path: relative},
+      lastModified: stats.mtime.toISOString(),
+    })
+  }
+
+  const skippedSummary = Object.entries(skipped).map(([reason, count]) => `${count} ${reason}`).join(', ')
+  console.log(`   ${documents.length} files${skippedSummary ? `, skipped ${skippedSummary}` : ''}`)
+  return documents
+}
+
+const load = async (): Promise<SourceListing> => {
+  const {local} = await loadIngestConfig()
+  if (local.directories.length === 0) console.log('⚠️  No local directories configured')
+
+  const documents: SourceDocument[] = []
+  for (const directory of local.directories) {
+    documents.push(...await loadDirectory(directory, local.maxFileBytes))
+  }
+  return {documents}
+}
+
+/**
+ * Recursive fs.watch per directory. Events are only a hint: the next load() re-scans
+ * and compares versions, so noisy or coalesced events are harmless.
+ * A directory that is missing or whose watcher fails (ENOSPC, root deleted) is logged
+ * and dropped; the other directories keep being watched.
+ */
+const watch = async (onChange: () => void): Promise<() => void> => {
+  const {local} = await loadIngestConfig()
+  const watchers = local.directories.flatMap((directory) => {
+    const root = resolveConfigPath(directory.path)
+    try {
+      const watcher = watchFs(root, {recursive: true}, (_event, file) => {
+        const relative = file ? file.toString().split(path.sep).join('/') : ''
+        if (relative.split('/').some((part) => SKIPPED_DIRECTORIES.has(part))) return
+        onChange()
+      })
+      watcher.on('error', (err) => {
+        console.error(`❌ Stopped watching ${root}: ${err.message}`)
+        watcher.close()
+      })
+      console.log(`👀 Watching ${root}`)
+      return [watcher]
+    } catch (err) {
+      console.error(`❌ Cannot watch ${root}: ${(err as Error).message}`)
+      return []
+    }
+  })
+  return () => watchers.forEach((watcher) => watcher.close())
+}
+
+export const localConnector: SourceConnector = {
+  source: 'local',
+  unavailable: () => undefined,
+  load,
+  watch,
+}
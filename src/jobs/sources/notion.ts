@@ -0,0 +1,192 @@
+/**
+ * Purpose: Notion ingest source - every page of the configured database, bodies converted to Markdown.
+ * Inputs: NOTION_TOKEN, NOTION_DATABASE_ID
+ * Outputs: one Markdown SourceDocument per page (url, title, last-edited metadata); bodies are only fetched for edited pages
+ * Example: const {documents} = await notionConnector.load(context)
+ */
+import {Client, collectPaginatedAPI, isFullBlock, isFullPage, iteratePaginatedAPI} from '@notionhq/client'
+import type {BlockObjectResponse, PageObjectResponse, RichTextItemResponse} from '@notionhq/client/build/src/api-endpoints.js'
+import {env} from '../../env.js'
+import type {SourceConnector, SourceDocument, SourceListing} from './types.js'
+
+// Nested toggles/lists deeper than this are left out rather than fetched one request per level
+const MAX_DEPTH = 8
+
+type NotionBlock = BlockObjectResponse & {children?: NotionBlock[]}
+
+interface Rendered {
+  markdown: string
+  list: boolean // consecutive items of the same list type are separated by a single newline
+}
+
+/**
+ * Rich text to inline Markdown (bold, italic, strikethrough, code, links)
+ */
+export const richTextToMarkdown = (items: RichTextItemResponse[]): string => items.map((item) => {
+  if (item.type === 'equation') return `$${item.equation.expression}$`
+  let text = item.plain_text
+  if (!text.trim()) return text
+  const {bold, italic, strikethrough, code} = item.annotations
+  if (code) text = `\`${text}\``
+  if (bold) text = `**${text}**`
+  if (italic) text = `_${text}_`
+  if (strikethrough) text = `~~${text}~~`
+  if (item.href) text = `[${text}](${item.href})`
+  return text
+}).join('')
+
+const indent = (markdown: string, prefix: string): string => (
+  markdown.split('\n').map((line) => (line ? `${prefix}${line}` : line)).join('\n')
+)
+
+const withChildren = (line: string, block: NotionBlock, prefix: string): string => {
+  const children = renderBlocks(block.children ?? [])
+  return children ? `${line}\n${indent(children, prefix)}` : line
+}
+
+// Notion-hosted file URLs are signed and expire, so only external links are kept
+const fileLink = (label: string, file: {type: 'external', external: {url: string}} | {type: 'file', file: {url: string}}): string => (
+  file.type === 'external' ? `[${label}](${file.external.url})` : `[${label}]`
+)
+
+const renderBlock = (block: NotionBlock, number: number): Rendered | null => {
+  const list = (markdown: string): Rendered => ({markdown, list: true})
+  const single = (markdown: string): Rendered => ({markdown, list: false})
+
+  switch (block.type) {
+    case 'paragraph':
+      return single(withChildren(richTextToMarkdown(block.paragraph.rich_text), block, '  '))
+    // The page title is the document's H1, so Notion headings start one level down
+    case 'heading_1':
+      return single(withChildren(`## ${richTextToMarkdown(block.heading_1.rich_text)}`, block, ''))
+    case 'heading_2':
+      return single(withChildren(`### ${richTextToMarkdown(block.heading_2.rich_text)}`, block, ''))
+    case 'heading_3':
+      return single(withChildren(`#### ${richTextToMarkdown(block.heading_3.rich_text)}`, block, ''))
+    case 'bulleted_list_item':
+      return list(withChildren(`- ${richTextToMarkdown(block.bulleted_list_item.rich_text)}`, block, '  '))
+    case 'numbered_list_item':
+      return list(withChildren(`${number}. ${richTextToMarkdown(block.numbered_list_item.rich_text)}`, block, '   '))
+    case 'to_do':
+      return list(withChildren(`- [${block.to_do.checked ? 'x' : ' '}] ${richTextToMarkdown(block.to_do.rich_text)}`, block, '  '))
+    case 'toggle':
+      return list(withChildren(`- ${richTextToMarkdown(block.toggle.rich_text)}`, block, '  '))
+    case 'quote':
+      return single(indent(withChildren(richTextToMarkdown(block.quote.rich_text), block, ''), '> '))
+    case 'callout': {
+      const icon = block.callout.icon?.type === 'emoji' ? `${block.callout.icon.emoji} ` : ''
+      return single(indent(withChildren(`${icon}${richTextToMarkdown(block.callout.rich_text)}`, block, ''), '> '))
+    }
+    case 'code': {
+      const language = block.code.language === 'plain text' ? '' : block.code.language
+      const caption = richTextToMarkdown(block.code.caption)
+      const code = `\`\`\`${language}\n${block.code.rich_text.map((item) => item.plain_text).join('')}\n\`\`\``
+      return single(caption ? `${code}\n${caption}` : code)
+    }
+    case 'equation':
+      return single(`$$\n${block.equation.expression}\n$$`)
+    case 'divider':
+      return single('---')
+    case 'image':
+      return single(fileLink(richTextToMarkdown(block.image.caption) || 'image', block.image))
+    case 'video':
+      return single(fileLink(richTextToMarkdown(block.video.caption) || 'video', block.video))
+    case 'pdf':
+      return single(fileLink(richTextToMarkdown(block.pdf.caption) || 'pdf', block.pdf))
+    case 'file':
+      return single(fileLink(richTextToMarkdown(block.file.caption) || block.file.name || 'file', block.file))
+    case 'bookmark':
+      return single(`[${richTextToMarkdown(block.bookmark.caption) || block.bookmark.url}](${block.bookmark.url})`)
+    case 'embed':
+      return single(`[${richTextToMarkdown(block.embed.caption) || block.embed.url}](${block.embed.url})`)
+    case 'link_preview':
+      return single(`[${block.link_preview.url}](${block.link_preview.url})`)
+    case 'child_page':
+      return single(`📄 ${block.child_page.title}`)
+    case 'child_database':
+      return single(`🗃️ ${block.child_database.title}`)
+    case 'table': {
+      const rows = (block.children ?? []).flatMap((row) => (row.type === 'table_row'
+        ? [`| ${row.table_row.cells.map((cell) => richTextToMarkdown(cell).replace(/\|/g, '\\|')).join(' | ')} |`]
+        : []))
+      if (rows.length === 0) return null
+      const separator = `|${' --- |'.repeat(block.table.table_width)}`
+      return single([rows[0], separator, ...rows.slice(1)].join('\n'))
+    }
+    // Layout containers: only their content matters
+    case 'column_list':
+    case 'column':
+    case 'synced_block':
+    case 'template':
+      return single(renderBlocks(block.children ?? []))
+    default:
+      return null // table_of_contents, breadcrumb, audio, unsupported...
+  }
+}
+
+/**
+ * Blocks (with fetched children) to Markdown; runs of one list type stay tight, other blocks are separated by a blank line
+ */
+export const renderBlocks = (blocks: NotionBlock[]): string => {
+  let markdown = ''
+  let previousList: string | null = null
+  let number = 0
+  for (const block of blocks) {
+    number = block.type === 'numbered_list_item' ? number + 1 : 0
+    const rendered = renderBlock(block, number)
+    if (!rendered || !rendered.markdown.trim()) continue
+    if (markdown) markdown += rendered.list && previousList === block.type ? '\n' : '\n\n'
+    markdown += rendered.markdown
+    previousList = rendered.list ? block.type : null
+  }
+  return markdown
+}
+
+/**
+ * All children of a block or page, following next_cursor and recursing into nested blocks.
+ * Child pages and databases are separate documents, so they aren't descended into.
+ */
+const fetchBlocks = async (notion: Client, blockId: string, depth: number = 0): Promise<NotionBlock[]> => {
+  const results = await collectPaginatedAPI(notion.blocks.children.list, {block_id: blockId, page_size: 100})
+  const blocks: NotionBlock[] = results.filter(isFullBlock)
+  for (const block of blocks) {
+    if (!block.has_children || depth + 1 >= MAX_DEPTH) continue
+    if (block.type === 'child_page' || block.type === 'child_database') continue
+    block.children = await fetchBlocks(notion, block.id, depth + 1)
+  }
+  return blocks
+}
+
+const pageTitle = (page: PageObjectResponse): string => {
+  const property = Object.values(page.properties).find((value) => value.type === 'title')
+  const title = property?.type === 'title' ? property.title.map((item) => item.plain_text).join('').trim() : ''
+  return title || 'Untitled Page'
+}
+
+const load = async (): Promise<SourceListing> => {
+  const notion = new Client({auth: env.NOTION_TOKEN!})
+  const documents: SourceDocument[] = []
+
+  for await (const page of iteratePaginatedAPI(notion.databases.query, {database_id: env.NOTION_DATABASE_ID!, page_size: 100})) {
+    if (!isFullPage(page) || page.archived) continue
+    const title = pageTitle(page)
+
+    documents.push({
+      documentId: page.id,
+      title,
+      // Page bodies are one request per block level, so they're only fetched when last_edited_time moved
+      content: async () => `# ${title}\n\n${renderBlocks(await fetchBlocks(notion, page.id))}`,
+      version: page.last_edited_time,
+      format: 'markdown',
+      metadata: {url: page.url},
+      lastModified: page.last_edited_time,
+    })
+  }
+  return {documents}
+}
+
+export const notionConnector: SourceConnector = {
+  source: 'notion',
+  unavailable: () => (!env.NOTION_TOKEN || !env.NOTION_DATABASE_ID ? 'Notion token or database ID not configured' : undefined),
+  load,
+}
@@ -0,0 +1,43 @@
+/**
+ * Purpose: Shared shape of ingest sources - each connector loads whole documents, the ingest job chunks and embeds them.
+ * Inputs: n/a (types only)
+ * Outputs: SourceDocument, SourceListing, LoadContext, SourceConnector
+ * Example: const {documents} = await notionConnector.load(context)
+ */
+import type {ChunkFormat} from '../../db/chunker.js'
+import type {DocumentStateRecord} from '../../db/ingest.js'
+import type {SourceType} from '../../db/vectors.js'
+
+export interface SourceDocument {
+  documentId: string // stable within the source; chunks are stored as `${documentId}#${index}`
+  title: string
+  content: string | (() => Promise<string>) // a loader is only called when the version changed
+  version?: string | undefined // cheap change marker from the listing, e.g. last-edited time
+  format?: ChunkFormat | undefined
+  metadata?: Record<string, unknown> | undefined // copied onto every chunk; `url` and `path` also fill those columns
+  language?: string | undefined // defaults to the path's extension, or markdown
+  lastModified?: string | undefined // ISO time the document last changed, for "updated since" filters
+  lines?: boolean | undefined // store each chunk's startLine/endLine (files)
+}
+
+export interface SourceListing {
+  documents: SourceDocument[]
+  // Source-level markers (e.g. commit per repo) saved once every document was ingested
+  cursors?: Record<string, string> | undefined
+}
+
+export interface LoadContext {
+  previous: ReadonlyMap<string, DocumentStateRecord> // what the last runs stored, by documentId
+  cursors: ReadonlyMap<string, string>
+  full: boolean
+}
+
+export interface SourceConnector {
+  source: SourceType
+  // Reason the source can't run (e.g. missing token); the run skips it without touching stored chunks
+  unavailable: () => string | undefined
+  // Every current document; throwing aborts this source only, nothing is deleted
+  load: (context: LoadContext) => Promise<SourceListing>
+  // Optional change feed for --watch: call onChange when documents may have changed; returns a stop function
+  watch?: ((onChange: () => void) => Promise<() => void>) | undefined
+}
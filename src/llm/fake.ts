@@ -0,0 +1,67 @@
+/**
+ * Purpose: Deterministic offline LLMProvider for development, smoke tests and runs without an API key.
+ * Inputs: chat/vision/embedding requests
+ * Outputs: canned coaching replies, '{}' for JSON requests, hashed bag-of-words embeddings
+ * Example: const fake = createFakeProvider(); await fake.embed({model:'fake-embedding', input:['flexbox']})
+ */
+import {createHash} from 'crypto'
+import {EMBEDDING_DIMENSIONS, type ChatRequest, type LLMProvider} from './types.js'
+
+const OFFLINE_STEP = 'Tiny step: create an index.html with <h1>Hello</h1> in a folder. Then open it in your browser.'
+
+const hashOf = (text: string): Buffer => createHash('sha256').update(text).digest()
+
+/**
+ * Same input → same reply. JSON requests get an empty object so callers fall back to heuristics.
+ */
+const replyFor = (request: ChatRequest): string => {
+  if (request.json) return '{}'
+  const lastUser = [...request.messages].reverse().find((msg) => msg.role === 'user')
+  const question = (lastUser?.content ?? '').split('\n').pop()?.trim().slice(0, 80) ?? ''
+  return question
+    ? `(offline coach) You asked: "${question}". ${OFFLINE_STEP}`
+    : `(offline coach) ${OFFLINE_STEP}`
+}
+
+/**
+ * Signed feature hashing of lowercase word tokens, L2-normalized. Texts sharing words get
+ * positive cosine similarity, so retrieval behaves sensibly without a model.
+ */
+const embedText = (text: string): number[] => {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0)
+  const words = text.toLowerCase().match(/[a-z0-9#.-]+/g) ?? []
+  for (const word of words) {
+    const digest = hashOf(word)
+    const index = digest.readUInt32BE(0) % EMBEDDING_DIMENSIONS
+    const sign = (digest[4] ?? 0) % 2 === 0 ? 1 : -1
+    vector[index] = (vector[index] ?? 0) + sign
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  if (norm === 0) {
+    // Empty text still needs a valid, non-zero vector for cosine distance
+    vector[0] = 1
+    return vector
+  }
+  return vector.map((value) => value / norm)
+}
+
+export const createFakeProvider = (): LLMProvider => ({
+  name: 'fake',
+
+  chat: async (request) => replyFor(request),
+
+  streamChat: async (request, onToken) => {
+    const text = replyFor(request)
+    for (const word of text.split(/(?<= )/)) {
+      if (request.signal?.aborted) break
+      onToken(word)
+    }
+    return text
+  },
+
+  describeImage: async (request) => (
+    `(offline) Image ${request.image.mimeType} received (${hashOf(request.image.base64).toString('hex').slice(0, 8)}). Describe what it shows and I can review it.`
+  ),
+
+  embed: async (request) => request.input.map(embedText),
+})
@@ -0,0 +1,104 @@
+/**
+ * Purpose: LLMProvider over the OpenAI SDK; also serves OpenAI-compatible local endpoints (Ollama, LM Studio) via baseURL.
+ * Inputs: apiKey, optional baseURL
+ * Outputs: LLMProvider
+ * Example: const local = createOpenAIProvider({name:'local', apiKey:'ollama', baseURL:'http://localhost:11434/v1'})
+ */
+import type OpenAI from 'openai'
+import {EMBEDDING_DIMENSIONS, type LLMProvider, type ProviderName} from './types.js'
+
+interface OpenAIProviderOptions {
+  name: Extract<ProviderName, 'openai' | 'local'>
+  apiKey?: string | undefined
+  baseURL?: string | undefined
+}
+
+export const createOpenAIProvider = (options: OpenAIProviderOptions): LLMProvider => {
+  let client: OpenAI | undefined
+
+  // The SDK is loaded lazily so offline runs never touch it
+  const getClient = async (): Promise<OpenAI> => {
+    if (client) return client
+    const {default: OpenAIClient} = await import('openai')
+    client = new OpenAIClient({
+      apiKey: options.apiKey ?? '',
+      ...(options.baseURL ? {baseURL: options.baseURL} : {}),
+    })
+    return client
+  }
+
+  return {
+    name: options.name,
+
+    chat: async (request) => {
+      const openai = await getClient()
+      const completion = await openai.chat.completions.create({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.3,
+        ...(request.maxTokens ? {max_tokens: request.maxTokens} : {}),
+        ...(request.json ? {response_format: {type: 'json_object' as const}} : {}),
+      }, {signal: request.signal ?? null})
+      return completion.choices?.[0]?.message?.content?.trim() ?? ''
+    },
+
+    streamChat: async (request, onToken) => {
+      const openai = await getClient()
+      const stream = await openai.chat.completions.create({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.3,
+        ...(request.maxTokens ? {max_tokens: request.maxTokens} : {}),
+        stream: true,
+      }, {signal: request.signal ?? null})
+
+      let text = ''
+      for await (const part of stream) {
+        const delta = part.choices?.[0]?.delta?.content
+        if (delta) {
+          text += delta
+          onToken(delta)
+        }
+      }
+      return text
+    },
+
+    describeImage: async (request) => {
+      const openai = await getClient()
+      const response = await openai.chat.completions.create({
+        model: request.model,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              {type: 'text', text: request.prompt},
+              {type: 'image_url', image_url: {url: `data:${request.image.mimeType};base64,${request.image.base64}`}},
+            ],
+          },
+        ],
+        ...(request.maxTokens ? {max_tokens: request.maxTokens} : {}),
+      })
+      return response.choices?.[0]?.message?.content?.trim() ?? ''
+    },
+
+    embed: async (request) => {
+      const openai = await getClient()
+      const response = await openai.embeddings.create({
+        model: request.model,
+        input: request.input,
+        encoding_format: 'float',
+        // text-embedding-3-* can shorten; local models ignore or reject it, so only send for OpenAI
+        ...(options.name === 'openai' ? {dimensions: EMBEDDING_DIMENSIONS} : {}),
+      })
+      const embeddings = response.data.map((item) => item.embedding)
+      const mismatch = embeddings.find((embedding) => embedding.length !== EMBEDDING_DIMENSIONS)
+      if (mismatch) {
+        throw new Error(
+          `${options.name} embedding model ${request.model} returned ${mismatch.length} dimensions; the vector column needs ` +
+          `${EMBEDDING_DIMENSIONS}. Set EMBEDDING_PROVIDER/EMBEDDING_MODEL to a model that produces ${EMBEDDING_DIMENSIONS}.`
+        )
+      }
+      return embeddings
+    },
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Purpose: Provider-neutral LLM interface (chat, streaming chat, vision, embeddings) and per-task model routing.
+ * Inputs: task name ('chat' | 'vision' | 'summary' | 'embeddings'), provider/model settings from env.ts
+ * Outputs: {provider, model} to call for that task
+ * Example: const {provider, model} = routeTask('chat'); const text = await provider.chat({model, messages})
+ */
+import {env} from '../env.js'
+import {createOpenAIProvider} from './openai.js'
+import {createFakeProvider} from './fake.js'
+import type {LLMProvider, ModelTask, ProviderName} from './types.js'
+
+export type {ChatMessage, ChatRequest, EmbeddingRequest, LLMProvider, ModelTask, ProviderName, VisionRequest} from './types.js'
+export {EMBEDDING_DIMENSIONS} from './types.js'
+
+// No local embedding default: the common ones (nomic-embed-text, 768) can't fill the vector(3072) column
+const DEFAULT_MODELS: Record<ProviderName, Partial<Record<ModelTask, string>>> = {
+  openai: {
+    chat: 'gpt-4o-mini',
+    vision: 'gpt-4o-mini',
+    summary: 'gpt-4o-mini',
+    embeddings: 'text-embedding-3-large',
+  },
+  local: {
+    chat: 'llama3.1',
+    vision: 'llava',
+    summary: 'llama3.1',
+  },
+  fake: {
+    chat: 'fake-chat',
+    vision: 'fake-vision',
+    summary: 'fake-summary',
+    embeddings: 'fake-embedding',
+  },
+}
+
+const providers = new Map<ProviderName, LLMProvider>()
+
+const getProvider = (name: ProviderName): LLMProvider => {
+  const cached = providers.get(name)
+  if (cached) return cached
+
+  const provider = name === 'openai'
+    ? createOpenAIProvider({name, apiKey: env.OPENAI_API_KEY})
+    : name === 'local'
+      ? createOpenAIProvider({name, apiKey: env.LOCAL_LLM_API_KEY ?? 'local', baseURL: env.LOCAL_LLM_BASE_URL ?? 'http://localhost:11434/v1'})
+      : createFakeProvider()
+  providers.set(name, provider)
+  return provider
+}
+
+/**
+ * Default provider: LLM_PROVIDER if set, OpenAI when a key exists, otherwise the offline fake
+ */
+const defaultProviderName = (): ProviderName => {
+  if (env.LLM_PROVIDER) return env.LLM_PROVIDER
+  return env.OPENAI_API_KEY ? 'openai' : 'fake'
+}
+
+const TASK_SETTINGS: Record<ModelTask, {provider: ProviderName | undefined, model: string | undefined}> = {
+  chat: {provider: env.CHAT_PROVIDER, model: env.CHAT_MODEL},
+  vision: {provider: env.VISION_PROVIDER, model: env.VISION_MODEL},
+  summary: {provider: env.SUMMARY_PROVIDER, model: env.SUMMARY_MODEL},
+  embeddings: {provider: env.EMBEDDING_PROVIDER, model: env.EMBEDDING_MODEL},
+}
+
+const TASK_ENV_PREFIX: Record<ModelTask, string> = {chat: 'CHAT', vision: 'VISION', summary: 'SUMMARY', embeddings: 'EMBEDDING'}
+
+/**
+ * Resolve which provider and model handle a task. Per-task env vars override the default provider.
+ */
+export const routeTask = (task: ModelTask): {provider: LLMProvider, model: string} => {
+  const settings = TASK_SETTINGS[task]
+  const name = settings.provider ?? defaultProviderName()
+  const model = settings.model ?? DEFAULT_MODELS[name][task]
+  if (!model) {
+    throw new Error(`No default ${task} model for the ${name} provider; set ${TASK_ENV_PREFIX[task]}_MODEL (or ${TASK_ENV_PREFIX[task]}_PROVIDER)`)
+  }
+  return {provider: getProvider(name), model}
+}
@@ -0,0 +1,45 @@
+/**
+ * Purpose: Shared types for the LLM provider layer.
+ * Inputs: none
+ * Outputs: provider, request and task types
+ * Example: import type {LLMProvider} from './types.js'
+ */
+export type ProviderName = 'openai' | 'local' | 'fake'
+export type ModelTask = 'chat' | 'vision' | 'summary' | 'embeddings'
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface ChatRequest {
+  model: string
+  messages: ChatMessage[]
+  temperature?: number | undefined
+  maxTokens?: number | undefined
+  json?: boolean | undefined // ask for a JSON object response
+  signal?: AbortSignal | undefined
+}
+
+export interface VisionRequest {
+  model: string
+  prompt: string
+  image: {mimeType: string, base64: string}
+  maxTokens?: number | undefined
+}
+
+export interface EmbeddingRequest {
+  model: string
+  input: string[]
+}
+
+export interface LLMProvider {
+  name: ProviderName
+  chat: (request: ChatRequest) => Promise<string>
+  streamChat: (request: ChatRequest, onToken: (delta: string) => void) => Promise<string>
+  describeImage: (request: VisionRequest) => Promise<string>
+  embed: (request: EmbeddingRequest) => Promise<number[][]>
+}
+
+// Embeddings must match the vector(3072) column whichever provider produces them
+export const EMBEDDING_DIMENSIONS = 3072
@@ -8,8 +8,23 @@ import express from 'express'
 import bodyParser from 'body-parser'
 import multer from 'multer'
 import {env} from './env.js'
-import {generateAssistantReply} from './agent/index.js'
-import {storeMessage, getRecentMessages, getAllSessions, deleteSession} from './agent/retrieval.js'
+import {generateAssistantReply, streamAssistantReply, type AssistantReply} from './agent/index.js'
+import {messageStore} from './db/messages.js'
+import {deleteSessionChunks} from './db/vectors.js'
+import {isZip, languageFor} from './analysis/files.js'
+import {getProgress, getProgressHistory, recordProgress, ProgressUpdateSchema, SKILL_KEYS} from './db/progress.js'
+import {completeReview, getDueReviews} from './agent/reviews.js'
+import {answerQuestion, getQuizSummary, nextQuestion, startQuiz} from './agent/quiz.js'
+import {assignTask, completeTask, submitEvidence} from './agent/tasks.js'
+import {getCurrentTask, RetrievalFiltersSchema, type DocumentFilters} from './agent/retrieval.js'
+import {deleteSessionTasks, getTask, listTasks} from './db/tasks.js'
+import {deleteSessionSummaries} from './db/summaries.js'
+import {forgetSession, noteNewMessages} from './agent/summarizer.js'
+import {verifyUploads} from './analysis/verifier.js'
+import {CheckInputSchema} from './analysis/checks.js'
+import {loadDesignTokens, lintUploads, tokensFromJson} from './analysis/tokenLint.js'
+import {TOKEN_LAYERS} from './analysis/tokens.js'
+import {z} from 'zod'
 import path from 'path'
 import {fileURLToPath} from 'url'
 
@@ -23,11 +38,17 @@ const upload = multer({
     files: 5 // Max 5 files at once
   },
   fileFilter: (_req: any, file: any, cb: any) => {
-    // Allow images and PDFs
-    if (file.mimetype.startsWith('image/') || file.mimetype === 'application/pdf') {
+    // Allow images, PDFs, source files (.html/.css/.js) and zipped project folders.
+    // Source files are matched by extension since browsers label them inconsistently.
+    if (
+      file.mimetype.startsWith('image/') ||
+      file.mimetype === 'application/pdf' ||
+      languageFor(file.originalname) ||
+      isZip(file)
+    ) {
       cb(null, true)
     } else {
-      cb(new Error('Only images and PDFs are allowed'))
+      cb(new Error('Only images, PDFs, .html/.css/.js files and .zip projects are allowed'))
     }
   }
 })
@@ -46,44 +67,85 @@ app.get('/', (_req, res) => {
   res.sendFile(path.join(__dirname, '../public/index.html'))
 })
 
+const newSessionId = ():string => `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+/**
+ * Persist the step an assistant reply assigned; best effort, tasks need the database
+ */
+const saveReplyTask = async (sessionId: string, reply: AssistantReply, messageId?: string): Promise<void> => {
+  if (!reply.task) return
+  try {
+    await assignTask(sessionId, reply.task, messageId, reply.taskExplicit ?? false)
+  } catch (err) {
+    console.error('assign_task_error', {name: (err as Error).name})
+  }
+}
+
+/**
+ * Optional `filters` field of /chat: a JSON string in multipart bodies, an object in JSON ones
+ */
+const parseChatFilters = (raw: unknown): {filters: DocumentFilters} | {error: unknown} => {
+  if (raw === undefined || raw === '') return {filters: {}}
+  let value: unknown
+  try {
+    value = typeof raw === 'string' ? JSON.parse(raw) : raw
+  } catch {
+    return {error: 'filters must be a JSON object'}
+  }
+  const parsed = RetrievalFiltersSchema.safeParse(value)
+  return parsed.success ? {filters: parsed.data} : {error: parsed.error.flatten()}
+}
+
+/**
+ * Response body shared by /chat and the final event of /chat/stream
+ */
+const buildChatPayload = async (sessionId: string, reply: AssistantReply) => {
+  // Get recent messages for context (last 10 messages)
+  const recentMessages = await messageStore.getRecentMessages(sessionId, 10)
+
+  return {
+    sessionId,
+    assistantReply: reply.text,
+    citations: reply.citations ?? [], // sources behind the reply's [n] markers; empty means model knowledge only
+    currentTask: await getCurrentTask(sessionId) ?? null, // open micro-task after this reply
+    promptInfo: reply.prompt, // token budget usage and what was dropped
+    recentMessages: recentMessages.slice(-6), // Last 3 exchanges for context
+    sessionInfo: {
+      createdAt: recentMessages[0]?.timestamp,
+      messageCount: recentMessages.length
+    }
+  }
+}
+
 // Enhanced /chat endpoint with file upload and analysis
 app.post('/chat', upload.array('files', 5), async (req,res)=>{
   try{
     const userMessage = (req.body && req.body.message) || ''
-    const sessionId = req.body.sessionId || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    const sessionId = req.body.sessionId || newSessionId()
     const files = (req as any).files || []
+    const filters = parseChatFilters(req.body?.filters)
+    if ('error' in filters) {
+      res.status(400).json({error: 'invalid_request', details: filters.error})
+      return
+    }
 
-    // Store user message in the retrieval system
-    storeMessage(sessionId, {
+    // Store user message before generating so retrieval sees it
+    await messageStore.appendMessage(sessionId, {
       role: 'user',
       content: userMessage,
-      timestamp: new Date()
     })
 
     // Generate AI response with file analysis if files are uploaded
-    const assistantReply = await generateAssistantReply(userMessage, sessionId, files)
+    const reply = await generateAssistantReply(userMessage, sessionId, files, filters.filters)
 
-    // Store assistant message in the retrieval system
-    storeMessage(sessionId, {
+    const stored = await messageStore.appendMessage(sessionId, {
       role: 'assistant',
-      content: assistantReply,
-      timestamp: new Date()
+      content: reply.text,
     })
+    await saveReplyTask(sessionId, reply, stored.id)
+    noteNewMessages(sessionId, 2) // may summarize in the background
 
-    // Get recent messages for context (last 10 messages)
-    const recentMessages = await getRecentMessages(sessionId, 10)
-
-    const payload = {
-      sessionId,
-      assistantReply,
-      recentMessages: recentMessages.slice(-6), // Last 3 exchanges for context
-      sessionInfo: {
-        createdAt: recentMessages[0]?.timestamp,
-        messageCount: recentMessages.length
-      }
-    }
-
-    res.json(payload)
+    res.json(await buildChatPayload(sessionId, reply))
   }catch(err){
     // eslint-disable-next-line no-console
     console.error('chat_error', {name:(err as Error).name})
@@ -91,11 +153,77 @@ app.post('/chat', upload.array('files', 5), async (req,res)=>{
   }
 })
 
+// Streaming /chat over Server-Sent Events: `token` events with deltas, then one `done` event
+// carrying the same payload as /chat. The reply is persisted once the stream completes or the
+// client disconnects (partial text is kept).
+app.post('/chat/stream', upload.array('files', 5), async (req,res)=>{
+  const userMessage = (req.body && req.body.message) || ''
+  const sessionId = req.body.sessionId || newSessionId()
+  const files = (req as any).files || []
+  const filters = parseChatFilters(req.body?.filters)
+  if ('error' in filters) {
+    res.status(400).json({error: 'invalid_request', details: filters.error})
+    return
+  }
+  const controller = new AbortController()
+
+  const send = (event: string, data: unknown): void => {
+    if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+  }
+
+  res.on('close', ()=>{
+    if (!res.writableEnded) controller.abort()
+  })
+
+  try{
+    await messageStore.appendMessage(sessionId, {
+      role: 'user',
+      content: userMessage,
+    })
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    })
+    send('session', {sessionId})
+
+    const reply = await streamAssistantReply(userMessage, sessionId, files, {
+      onToken: (delta)=>send('token', {delta}),
+      signal: controller.signal,
+      filters: filters.filters,
+    })
+
+    if (reply.text) {
+      const stored = await messageStore.appendMessage(sessionId, {
+        role: 'assistant',
+        content: reply.text,
+      })
+      await saveReplyTask(sessionId, reply, stored.id)
+    }
+    noteNewMessages(sessionId, reply.text ? 2 : 1) // may summarize in the background
+
+    if (!controller.signal.aborted) {
+      send('done', await buildChatPayload(sessionId, reply))
+      res.end()
+    }
+  }catch(err){
+    console.error('chat_stream_error', {name:(err as Error).name})
+    if (!res.headersSent) {
+      res.status(500).json({error:'internal_error'})
+    } else {
+      send('error', {error:'internal_error'})
+      res.end()
+    }
+  }
+})
+
 // Get chat history for a session
 app.get('/chat/:sessionId', async (req, res) => {
   try {
     const {sessionId} = req.params
-    const recentMessages = await getRecentMessages(sessionId, 50) // Get last 50 messages
+    const recentMessages = await messageStore.getRecentMessages(sessionId, 50) // Get last 50 messages
 
     res.json({
       sessionId,
@@ -113,16 +241,32 @@ app.get('/chat/:sessionId', async (req, res) => {
 })
 
 // List all sessions with persistent data
-app.get('/sessions', (_req, res) => {
-  const sessions = getAllSessions()
-  res.json({sessions})
+app.get('/sessions', async (_req, res) => {
+  try {
+    const sessions = await messageStore.listSessions()
+    res.json({sessions})
+  } catch (err) {
+    console.error('list_sessions_error', {name: (err as Error).name})
+    res.status(500).json({error: 'internal_error'})
+  }
 })
 
 // Delete a session
-app.delete('/sessions/:sessionId', (req, res) => {
+app.delete('/sessions/:sessionId', async (req, res) => {
   try {
     const {sessionId} = req.params
-    const deleted = deleteSession(sessionId)
+    const deleted = await messageStore.deleteSession(sessionId)
+    forgetSession(sessionId)
+    // Uploaded files are scoped to the session; best effort when no vector store is configured
+    await deleteSessionChunks(sessionId).catch((err)=>{
+      console.error('delete_session_chunks_error', {name: (err as Error).name})
+    })
+    await deleteSessionTasks(sessionId).catch((err)=>{
+      console.error('delete_session_tasks_error', {name: (err as Error).name})
+    })
+    await deleteSessionSummaries(sessionId).catch((err)=>{
+      console.error('delete_session_summaries_error', {name: (err as Error).name})
+    })
     
     if (deleted) {
       res.json({success: true, message: 'Session deleted'})
@@ -135,10 +279,310 @@ app.delete('/sessions/:sessionId', (req, res) => {
   }
 })
 
+// Micro-tasks for a session: the open step (assigned/submitted) plus recent history
+app.get('/sessions/:sessionId/tasks', async (req, res) => {
+  try {
+    const {sessionId} = req.params
+    const [current, tasks] = await Promise.all([getCurrentTask(sessionId), listTasks(sessionId)])
+    res.json({current: current ?? null, tasks})
+  } catch (err) {
+    console.error('list_tasks_error', {name: (err as Error).name})
+    res.status(500).json({error: 'internal_error'})
+  }
+})
+
+const TaskEvidenceSchema = z.object({
+  evidence: z.string().min(1).max(20000), // code, a link or a description of what was done
+})
+
+// Submit evidence for a step; the coach checks it on the next /chat turn
+app.post('/tasks/:taskId/submit', async (req, res) => {
+  try {
+    const parsed = TaskEvidenceSchema.safeParse(req.body)
+    if (!parsed.success) {
+      res.status(400).json({error: 'invalid_request', details: parsed.error.flatten()})
+      return
+    }
+    const result = await submitEvidence(req.params.taskId, parsed.data.evidence)
+    if ('error' in result) {
+      res.status(result.error === 'task_not_found' ? 404 : 409).json(result)
+      return
+    }
+    res.json({task: result})
+  } catch (err) {
+    console.error('submit_task_error', {name: (err as Error).name})
+    res.status(500).json({error: 'internal_error'})
+  }
+})
+
+const TaskCompletionSchema = z.object({
+  status: z.enum(['passed', 'failed', 'skipped']).default('passed'),
+  notes: z.string().max(2000).optional(),
+})
+
+// Mark a step done; passed/failed steps with a skill key update progress
+app.post('/tasks/:taskId/complete', async (req, res) => {
+  try {
+    const parsed = TaskCompletionSchema.safeParse(req.body ?? {})
+    if (!parsed.success) {
+      res.status(400).json({error: 'invalid_request', details: parsed.error.flatten()})
+      return
+    }
+    const result = await completeTask(req.params.taskId, parsed.data.status, parsed.data.notes)
+    if ('error' in result) {
+      res.status(result.error === 'task_not_found' ? 404 : 409).json(result)
+      return
+    }
+    res.json(result)
+  } catch (err) {
+    console.error('complete_task_error', {name: (err as Error).name})
+    res.status(500).json({error: 'internal_error'})
+  }
+})
+
+const VerifyRequestSchema = z.object({
+  checks: z.array(CheckInputSchema).max(20).optional(),
+  taskId: z.string().optional(), // use this task's acceptance criteria as the checks
+})
+
+// Run uploaded HTML/CSS/JS in the sandbox against declarative checks (multipart: files + checks JSON)
+app.post('/verify', upload.array('files', 5), async (req, res) => {
+  try {
+    const files = (req as any).files || []
+    let checks: unknown
+    try {
+      checks = typeof req.body?.checks === 'string' ? JSON.parse(req.body.checks) : req.body?.checks
+    } catch {
+      res.status(400).json({error: 'invalid_request', details: 'checks must be a JSON array'})
+      return
+    }
+    const parsed = VerifyRequestSchema.safeParse({checks, taskId: req.body?.taskId})
+    if (!parsed.success) {
+      res.status(400).json({error: 'invalid_request', details: parsed.error.flatten()})
+      return
+    }
+
+    const task = parsed.data.taskId ? await getTask(parsed.data.taskId) : null
+    if (parsed.data.taskId && !task) {
+      res.status(404).json({error: 'task_not_found'})
+      return
+    }
+    const criteria = parsed.data.checks ?? task?.acceptanceCriteria ?? []
+    if (files.length === 0 || criteria.length === 0) {
+      res.status(400).json({error: 'invalid_request', details: 'files and checks (or a taskId with acceptance criteria) are required'})
+      return
+    }
+
+    res.json({report: await verifyUploads(files, criteria)})
+  } catch (err) {
+    console.error('verify_error', {name: (err as Error).name})
+    res.status(500).json({error: 'internal_error'})
+  }
+})
+
+// Configured design tokens with their layers and resolved values, plus alias cycles and missing references
+app.get('/tokens', async (_req, res) => {
+  try {
+    const set = await loadDesignTokens()
+    const tokens = [...set.tokens.values()]
+    res.json({
+      files: set.files,
+      layers: Object.fromEntries(TOKEN_LAYERS.map((layer) => [layer, tokens.filter((token) => token.layer === layer).length])),
+      tokens: tokens.map(({name, layer, value, resolved, chain, file}) => ({name, layer, value, resolved, chain, file})),
+      issues: set.issues,
+    })
+  } catch (err) {
+    console.error('tokens_error', {name: (err as Error).name})
+    res.status(500).json({error: 'internal_error'})
+  }
+})
+
+const TokenLintRequestSchema = z.object({
+  css: z.string().max(200_000).optional(), // CSS text instead of (or besides) uploaded files
+  tokens: z.unknown().optional(), // token JSON or a saved Figma export, checked on top of the configured tokens
+})
+
+// Lint CSS against the design tokens (multipart: files + optional tokens JSON; or JSON: {css, tokens})
+app.post('/tokens/lint', upload.array('files', 5), async (req, res) => {
+  try {
+    const files = (req as any).files || []
+    let tokens: unknown
+    try {
+      tokens = typeof req.body?.tokens === 'string' ? JSON.parse(req.body.tokens) : req.body?.tokens
+    } catch {
+      res.status(400).json({error: 'invalid_request', details: 'tokens must be JSON'})
+      return
+    }
+    const parsed = TokenLintRequestSchema.safeParse({css: req.body?.css, tokens})
+    if (!parsed.success) {
+      res.status(400).json({error: 'invalid_request', details: parsed.error.flatten()})
+      return
+    }
+    const uploads = parsed.data.css ? [...files, {originalname: 'styles.css', buffer: Buffer.from(parsed.data.css)}] : files
+    if (uploads.length === 0) {
+      res.status(400).json({error: 'invalid_request', details: 'CSS files or css text are required'})
+      return
+    }
+
+    const extra = parsed.data.tokens === undefined ? [] : tokensFromJson(parsed.data.tokens, 'request')
+    res.json({report: await lintUploads(uploads, extra)})
+  } catch (err) {
+    console.error('tokens_lint_error', {name: (err as Error).name})
+    res.status(500).json({error: 'internal_error'})
+  }
+})
+
+// Skill progress: current scores, plus history when ?skillKey= is given
+app.get('/progress', async (req, res) => {
+  try {
+    const skillKey = typeof req.query.skillKey === 'string' ? req.query.skillKey : undefined
+    const skills = await getProgress()
+    if (skillKey) {
+      res.json({
+        skill: skills.find((skill) => skill.skillKey === skillKey) ?? null,
+        history: await getProgressHistory(skillKey),
+      })
+      return
+    }
+    res.json({skills})
+  } catch (err) {
+    console.error('get_progress_error', {name: (err as Error).name})
+    res.status(500).json({error: 'internal_error'})
+  }
+})
+
+// Record a score (absolute `score` or relative `delta`) after a micro-task, quiz or review
+app.post('/progress', async (req, res) => {
+  try {
+    const parsed = ProgressUpdateSchema.safeParse(req.body)
+    if (!parsed.success) {
+      res.status(400).json({error: 'invalid_request', details: parsed.error.flatten()})
+      return
+    }
+    const progress = await recordProgress(parsed.data)
+    res.json({progress})
+  } catch (err) {
+    console.error('record_progress_error', {name: (err as Error).name})
+    res.status(500).json({error: 'internal_error'})
+  }
+})
+
+// Spaced-repetition reviews due now, each with a generated micro-exercise
+app.get('/reviews/due', async (req, res) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 3, 1), 10)
+    res.json({reviews: await getDueReviews(limit)})
+  } catch (err) {
+    console.error('get_reviews_error', {name: (err as Error).name})
+    res.status(500).json({error: 'internal_error'})
+  }
+})
+
+const ReviewCompletionSchema = z.object({
+  quality: z.number().int().min(0).max(5), // SM-2 grade: 0 = blackout, 5 = perfect recall
+  notes: z.string().max(2000).optional(),
+  sessionId: z.string().optional(),
+})
+
+// Grade a finished review; updates the schedule and the skill's progress
+app.post('/reviews/:skillKey/complete', async (req, res) => {
+  try {
+    const skillKey = z.enum(SKILL_KEYS).safeParse(req.params.skillKey)
+    const parsed = ReviewCompletionSchema.safeParse(req.body)
+    if (!skillKey.success || !parsed.success) {
+      res.status(400).json({
+        error: 'invalid_request',
+        details: skillKey.success ? parsed.error?.flatten() : skillKey.error.flatten(),
+      })
+      return
+    }
+    const result = await completeReview(skillKey.data, parsed.data.quality, parsed.data)
+    res.json(result)
+  } catch (err) {
+    console.error('complete_review_error', {name: (err as Error).name})
+    res.status(500).json({error: 'internal_error'})
+  }
+})
+
+const StartQuizSchema = z.object({
+  skillKey: z.enum(SKILL_KEYS),
+  length: z.number().int().min(1).max(10).optional(),
+  sessionId: z.string().optional(),
+})
+
+// Start a quiz for one skill; questions are generated on demand via /next
+app.post('/quiz', async (req, res) => {
+  try {
+    const parsed = StartQuizSchema.safeParse(req.body)
+    if (!parsed.success) {
+      res.status(400).json({error: 'invalid_request', details: parsed.error.flatten()})
+      return
+    }
+    res.json({quiz: await startQuiz(parsed.data)})
+  } catch (err) {
+    console.error('start_quiz_error', {name: (err as Error).name})
+    res.status(500).json({error: 'internal_error'})
+  }
+})
+
+app.get('/quiz/:quizId', async (req, res) => {
+  try {
+    const quiz = await getQuizSummary(req.params.quizId)
+    if (!quiz) {
+      res.status(404).json({error: 'quiz_not_found'})
+      return
+    }
+    res.json({quiz})
+  } catch (err) {
+    console.error('get_quiz_error', {name: (err as Error).name})
+    res.status(500).json({error: 'internal_error'})
+  }
+})
+
+// Next unanswered question (answer not included); question is null when the quiz is done
+app.get('/quiz/:quizId/next', async (req, res) => {
+  try {
+    const result = await nextQuestion(req.params.quizId)
+    if (!result) {
+      res.status(404).json({error: 'quiz_not_found'})
+      return
+    }
+    res.json(result)
+  } catch (err) {
+    console.error('next_question_error', {name: (err as Error).name})
+    res.status(500).json({error: 'internal_error'})
+  }
+})
+
+const QuizAnswerSchema = z.object({
+  questionId: z.string().min(1),
+  answer: z.string().min(1).max(4000),
+})
+
+// Grade an answer; the result also updates the skill's progress
+app.post('/quiz/:quizId/answer', async (req, res) => {
+  try {
+    const parsed = QuizAnswerSchema.safeParse(req.body)
+    if (!parsed.success) {
+      res.status(400).json({error: 'invalid_request', details: parsed.error.flatten()})
+      return
+    }
+    const result = await answerQuestion(req.params.quizId, parsed.data.questionId, parsed.data.answer)
+    if ('error' in result) {
+      res.status(result.error.endsWith('not_found') ? 404 : 409).json(result)
+      return
+    }
+    res.json(result)
+  } catch (err) {
+    console.error('quiz_answer_error', {name: (err as Error).name})
+    res.status(500).json({error: 'internal_error'})
+  }
+})
+
 const port = Number(env.PORT || 3001)
 app.listen(port, ()=>{
   // eslint-disable-next-line no-console
   console.log(`AI coach API on :${port}`)
-  console.log('mode: local-development (with AI integration, chat history, file analysis, and persistent storage)')
+  console.log(`mode: local-development (with AI integration, chat history, file analysis, and ${messageStore.kind} storage)`)
 })
 
@@ -2,13 +2,20 @@
  * Comprehensive smoke test for the coding coach agent
  */
 import {prisma} from './db/client.js'
+import {messageStore} from './db/messages.js'
 import {upsertChunks, searchChunks} from './db/vectors.js'
-import {summarizeSession} from './agent/summarizer.js'
+import {summarizeSession, getLatestSummary} from './agent/summarizer.js'
 import {buildContext} from './agent/retrieval.js'
+import {routeTask} from './llm/provider.js'
 
 async function smokeTest() {
   console.log('🚀 Starting comprehensive smoke test...\n')
   
+  // LLM_PROVIDER=fake runs everything offline, no API key needed
+  const routes = (['chat', 'summary', 'embeddings'] as const)
+    .map((task) => `${task}=${routeTask(task).provider.name}:${routeTask(task).model}`)
+  console.log(`🧠 LLM routing: ${routes.join(', ')}\n`)
+  
   try {
     // Test 1: Database Connection
     console.log('1️⃣ Testing database connection...')
@@ -32,26 +39,19 @@ async function smokeTest() {
     
     // Test 3: Session and Message Creation
     console.log('\n3️⃣ Testing session and message creation...')
-    const session = await prisma.session.create({data: {}})
-    const sessionId = session.id
+    const sessionId = `smoke_${Date.now()}`
     
     const testMessages = [
       {role: 'user', content: 'How do I create a button?'},
       {role: 'assistant', content: 'Use the <button> element in HTML'},
       {role: 'user', content: 'How do I style it with CSS?'},
       {role: 'assistant', content: 'Use CSS selectors to style your button'},
-    ]
+    ] as const
     
     for (const msg of testMessages) {
-      await prisma.message.create({
-        data: {
-          sessionId,
-          role: msg.role,
-          content: msg.content,
-        },
-      })
+      await messageStore.appendMessage(sessionId, msg)
     }
-    console.log('✅ Session and messages created successfully')
+    console.log(`✅ Session and messages created successfully (${messageStore.kind} store)`)
     
     // Test 4: Retrieval System
     console.log('\n4️⃣ Testing retrieval system...')
@@ -63,17 +63,11 @@ async function smokeTest() {
     console.log('\n5️⃣ Testing summarizer...')
     await summarizeSession(sessionId)
     
-    const summaryMessage = await prisma.message.findFirst({
-      where: {
-        sessionId,
-        role: 'system',
-        content: {startsWith: 'SESSION SUMMARY:'},
-      },
-    })
+    const summaryMessage = await getLatestSummary(sessionId)
     
     if (summaryMessage) {
       console.log('✅ Summary generated successfully')
-      console.log('📄 Summary preview:', summaryMessage.content.substring(0, 100) + '...')
+      console.log('📄 Summary preview:', summaryMessage.substring(0, 100) + '...')
     } else {
       console.log('❌ No summary found')
     }
@@ -100,8 +94,7 @@ async function smokeTest() {
     
     // Cleanup
     console.log('\n🧹 Cleaning up test data...')
-    await prisma.message.deleteMany({where: {sessionId}})
-    await prisma.session.delete({where: {id: sessionId}})
+    await messageStore.deleteSession(sessionId)
     await prisma.vectorEmbedding.deleteMany({where: {source: 'test'}})
     console.log('✅ Test data cleaned up')
     
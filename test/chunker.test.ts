@@ -0,0 +1,62 @@
+/**
+ * Purpose: Chunker tests - token ceilings, overlap between neighbours, fenced code splitting and breadcrumbs.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {chunkDocument, countTokens} from '../src/db/chunker.js'
+
+const paragraph = (index: number): string => (
+  `Paragraph ${index} explains how flexbox distributes free space between items along the main axis, ` +
+  `and why justify-content and gap usually beat margins for spacing a row of cards.`
+)
+
+const prose = Array.from({length: 60}, (_, index) => paragraph(index)).join('\n\n')
+
+const code = Array.from({length: 120}, (_, index) => `const value${index} = ${index} // line ${index}`).join('\n')
+
+describe('chunkDocument', () => {
+  it('keeps every chunk under maxTokens', () => {
+    const chunks = chunkDocument(prose, {maxTokens: 200})
+    assert.ok(chunks.length > 1)
+    for (const chunk of chunks) assert.ok(chunk.tokens <= 200, `${chunk.tokens} tokens`)
+    assert.equal(chunks[0]!.tokens, countTokens(chunks[0]!.text))
+  })
+
+  it('carries the end of one chunk into the start of the next', () => {
+    const chunks = chunkDocument(prose, {maxTokens: 200, overlap: 0.15})
+    for (let i = 1; i < chunks.length; i++) {
+      const opening = chunks[i]!.body.slice(0, 40)
+      assert.ok(chunks[i - 1]!.body.includes(opening), `chunk ${i} does not overlap chunk ${i - 1}`)
+    }
+  })
+
+  it('has no overlap when the fraction is 0', () => {
+    const chunks = chunkDocument(prose, {maxTokens: 200, overlap: 0})
+    const paragraphs = chunks.flatMap((chunk) => chunk.body.split('\n\n'))
+    assert.equal(new Set(paragraphs).size, paragraphs.length)
+  })
+
+  it('re-wraps split fenced code so every piece is a valid fence', () => {
+    const chunks = chunkDocument(`# Setup\n\n\`\`\`js\n${code}\n\`\`\`\n`, {format: 'markdown', maxTokens: 200})
+    const pieces = chunks.filter((chunk) => chunk.body.includes('const value'))
+    assert.ok(pieces.length > 1)
+    for (const piece of pieces) assert.match(piece.body, /```js\n[^`]+\n```$/)
+    assert.ok(pieces.some((piece) => piece.body.includes('line 119')))
+  })
+
+  it('keeps the last line of an unterminated fence', () => {
+    const chunks = chunkDocument(`# Setup\n\n\`\`\`js\n${code}`, {format: 'markdown', maxTokens: 200, overlap: 0})
+    const pieces = chunks.filter((chunk) => chunk.body.includes('const value'))
+    assert.ok(pieces.some((piece) => piece.body.includes('line 119')))
+    for (const piece of pieces) assert.match(piece.body, /```js\n[^`]+\n```$/)
+  })
+
+  it('prefixes chunks with their heading breadcrumb', () => {
+    const text = `# Layout\n\n## Flexbox\n\n${Array.from({length: 20}, (_, index) => paragraph(index)).join('\n\n')}`
+    const chunks = chunkDocument(text, {format: 'markdown', maxTokens: 200})
+    const later = chunks[chunks.length - 1]!
+    assert.deepEqual(later.headingPath, ['Layout', 'Flexbox'])
+    assert.ok(later.text.startsWith('Layout > Flexbox\n\n'))
+  })
+})
@@ -0,0 +1,78 @@
+/**
+ * Purpose: Citation tests - [n] markers kept or dropped against the prompt's sources, code left alone, GitHub line anchors.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {citationFor, extractCitations, type Citation} from '../src/agent/citations.js'
+
+const source = (number: number): Citation => ({
+  number,
+  source: 'notion',
+  sourceId: `page-${number}`,
+  title: `Page ${number}`,
+  snippet: 'Flexbox lays items out in one dimension.',
+})
+
+const sources = [source(1), source(2), source(3)]
+
+describe('extractCitations', () => {
+  it('keeps markers for prompt sources and lists them in order', () => {
+    const {text, citations} = extractCitations('Use gap [3]. Flex is one-dimensional [1,2].', sources)
+
+    assert.equal(text, 'Use gap [3]. Flex is one-dimensional [1, 2].')
+    assert.deepEqual(citations.map((citation) => citation.number), [1, 2, 3])
+  })
+
+  it('drops unknown markers together with their leading space', () => {
+    const {text, citations} = extractCitations('Grid is two-dimensional [7]. See also [2, 9].', sources)
+
+    assert.equal(text, 'Grid is two-dimensional. See also [2].')
+    assert.deepEqual(citations.map((citation) => citation.number), [2])
+  })
+
+  it('leaves code spans, code blocks, indexes and links alone', () => {
+    const reply = 'Read `items[1]` and items[2], or [the docs](https://example.com) [1].\n```js\nconst first = list [2]\n```'
+    const {text, citations} = extractCitations(reply, [source(1)])
+
+    assert.equal(text, reply)
+    assert.deepEqual(citations.map((citation) => citation.number), [1])
+  })
+
+  it('returns no citations when the reply cites nothing', () => {
+    assert.deepEqual(extractCitations('Just use flex.', sources), {text: 'Just use flex.', citations: []})
+  })
+})
+
+describe('citationFor', () => {
+  it('anchors GitHub permalinks to the chunk lines', () => {
+    const citation = citationFor({
+      source: 'github',
+      sourceId: 'acme/site:src/card.css',
+      chunk: '.card {\n  display: flex;\n}',
+      similarity: 0.9,
+      title: 'src/card.css',
+      path: 'src/card.css',
+      url: 'https://github.com/acme/site/blob/abc123/src/card.css',
+      metadata: {startLine: 4, endLine: 9},
+    }, 2)
+
+    assert.equal(citation.url, 'https://github.com/acme/site/blob/abc123/src/card.css#L4-L9')
+    assert.equal(citation.snippet, '.card { display: flex; }')
+    assert.equal(citation.number, 2)
+  })
+
+  it('names uploads by file and page', () => {
+    const citation = citationFor({
+      source: 'upload',
+      sourceId: 'upload-1',
+      chunk: 'Box model',
+      similarity: 0.5,
+      metadata: {fileName: 'notes.pdf', page: 3},
+    }, 1)
+
+    assert.equal(citation.title, 'notes.pdf p.3')
+    assert.equal(citation.path, 'notes.pdf')
+    assert.equal(citation.url, undefined)
+  })
+})
@@ -0,0 +1,78 @@
+/**
+ * Purpose: Figma export tests - variables rendered per layer and mode, aliases across collections, styles and component sets, and the tokens handed to the analyzer.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {fileURLToPath} from 'node:url'
+import {buildTokenSet} from '../src/analysis/tokens.js'
+import {readFigmaExport} from '../src/jobs/sources/figma.js'
+import {figmaTokens, renderFigmaExport} from '../src/jobs/sources/figmaRender.js'
+
+const data = await readFigmaExport(fileURLToPath(new URL('./fixtures/figma-export.json', import.meta.url)))
+const documents = renderFigmaExport(data)
+const markdown = (kind: string): string => documents.find((document) => document.kind === kind)!.markdown
+
+describe('renderFigmaExport', () => {
+  it('writes one document per layer and style kind, titled with the file name', () => {
+    assert.deepEqual(documents.map((document) => document.kind), [
+      'primitives', 'alias', 'mapped', 'components', 'text-styles', 'color-styles', 'effect-styles', 'component-list',
+    ])
+    assert.equal(documents[0]!.title, 'Coach UI: Primitive tokens')
+    assert.match(markdown('primitives'), /--color-blue-500: #2563eb;\n {2}--color-gray-900: #111827;\n {2}--spacing-4: 16px;/)
+  })
+
+  it('puts the default mode on :root and other modes behind a data attribute', () => {
+    const mapped = markdown('mapped')
+
+    assert.match(mapped, /Modes: Light, Dark/)
+    assert.match(mapped, /\/\* Semantic \/ Light \*\/\n:root \{[^}]*--text-default: var\(--color-gray-900\); \/\* #111827 \*\//)
+    assert.match(mapped, /\[data-semantic="dark"\] \{[^}]*--text-default: var\(--color-blue-500\); \/\* #2563eb \*\//)
+  })
+
+  it('resolves aliases into other collections through their default mode', () => {
+    assert.match(markdown('alias'), /--color-primary: var\(--color-blue-500\); \/\* #2563eb - Brand color \*\//)
+    assert.match(markdown('mapped'), /--surface-brand: var\(--color-primary\); \/\* #2563eb \*\//)
+    assert.match(markdown('components'), /--button-padding: var\(--spacing-4\); \/\* 16px \*\//)
+    assert.match(markdown('mapped'), /--border-focus: unset; \/\* alias to a variable outside this file \*\//)
+  })
+
+  it('renders text, color and effect styles as CSS', () => {
+    assert.match(markdown('text-styles'), /\.text-heading-h1 \{ \/\* Page titles \*\/\n {2}font-family: "Inter";\n {2}font-weight: 700;\n {2}font-size: 32px;\n {2}line-height: 1\.25;\n\}/)
+    assert.match(markdown('color-styles'), /--brand-primary: #2563eb80;/)
+    assert.match(markdown('color-styles'), /\n {2}\/\* --brand-gradient: gradient linear - Hero background \*\/\n/)
+    assert.match(markdown('effect-styles'), /--shadow-elevation-card: 0px 4px 8px 0px #00000040;/)
+  })
+
+  it('lists component sets with their variants and other components apart', () => {
+    assert.match(markdown('component-list'), /### Button\n\nPrimary actions\n\nVariants:\n- Size=Large\n- Size=Small - Compact/)
+    assert.match(markdown('component-list'), /### Other components\n\n- Icon\/Close/)
+  })
+})
+
+describe('figmaTokens', () => {
+  const tokens = figmaTokens(data, 'design/figma-export.json')
+  const named = (name: string) => tokens.find((token) => token.name === name)!
+
+  it('takes the layer from the collection name, or from alias depth when the name says nothing', () => {
+    assert.equal(named('color-blue-500').layer, 'primitives')
+    assert.equal(named('color-primary').layer, 'alias')
+    assert.equal(named('text-default').layer, 'mapped')
+    assert.equal(named('button-padding').layer, 'components')
+  })
+
+  it('emits default-mode values with aliases as var() references', () => {
+    assert.equal(named('spacing-4').value, '16px')
+    assert.equal(named('text-default').value, 'var(--color-gray-900)')
+    assert.equal(named('border-focus').value, 'unset')
+    assert.equal(named('color-primary').description, 'Brand color')
+  })
+
+  it('resolves through the token analyzer across collections', () => {
+    const set = buildTokenSet(tokens)
+
+    assert.deepEqual(set.issues, [])
+    assert.equal(set.tokens.get('surface-brand')!.resolved, '#2563eb')
+    assert.deepEqual(set.tokens.get('surface-brand')!.chain, ['surface-brand', 'color-primary', 'color-blue-500'])
+  })
+})
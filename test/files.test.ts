@@ -0,0 +1,77 @@
+/**
+ * Purpose: Upload unpacking tests - zip entry paths that escape the project, and the entry, file and total size limits.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {zipSync} from 'fflate'
+import {collectSourceFiles, safeRelativePath} from '../src/analysis/files.js'
+
+const text = (value: string): Uint8Array => new TextEncoder().encode(value)
+
+const zip = (entries: Record<string, Uint8Array>) => ({
+  originalname: 'project.zip',
+  buffer: Buffer.from(zipSync(entries)),
+})
+
+describe('safeRelativePath', () => {
+  it('keeps folders and drops a leading ./', () => {
+    assert.equal(safeRelativePath('./site/index.html'), 'site/index.html')
+    assert.equal(safeRelativePath('site\\css\\main.css'), 'site/css/main.css')
+    assert.equal(safeRelativePath('site/../index.html'), 'index.html')
+  })
+
+  it('rejects parent, absolute and drive-letter paths', () => {
+    for (const name of ['../evil.js', 'site/../../evil.js', '..\\evil.js', '/etc/passwd.js', 'C:/evil.js', 'c:evil.js', 'a\0.js']) {
+      assert.equal(safeRelativePath(name), undefined, name)
+    }
+  })
+})
+
+describe('collectSourceFiles', () => {
+  it('unpacks source files and skips unsafe paths, ignored folders and other extensions', () => {
+    const {files, skipped} = collectSourceFiles([zip({
+      'site/index.html': text('<h1>Hi</h1>'),
+      'site/style.css': text('h1 { color: red; }'),
+      '../escape.js': text('alert(1)'),
+      'node_modules/lib/index.js': text('module.exports = 1'),
+      'notes.txt': text('not source'),
+    })])
+
+    assert.deepEqual(files.map((file) => [file.path, file.language]).sort(), [['site/index.html', 'html'], ['site/style.css', 'css']])
+    assert.deepEqual(skipped, ['project.zip:../escape.js (unsafe path)'])
+  })
+
+  it('skips files over 512KB and stops at 5MB unpacked', () => {
+    const big = new Uint8Array(600 * 1024).fill(0x61)
+    const entries: Record<string, Uint8Array> = {'big.js': big}
+    for (let i = 0; i < 12; i++) entries[`part${i}.js`] = new Uint8Array(500 * 1024).fill(0x61)
+
+    const {files, skipped} = collectSourceFiles([zip(entries)])
+
+    assert.ok(skipped.includes('project.zip:big.js (larger than 512KB)'))
+    assert.equal(skipped.filter((line) => line.endsWith('(zip over 5MB unpacked)')).length, 2)
+    assert.equal(files.length, 10)
+    assert.ok(files.reduce((total, file) => total + file.content.length, 0) <= 5 * 1024 * 1024)
+  })
+
+  it('stops after 200 entries', () => {
+    const entries: Record<string, Uint8Array> = {}
+    for (let i = 0; i < 205; i++) entries[`f${String(i).padStart(3, '0')}.js`] = text(`// ${i}`)
+
+    const {files, skipped} = collectSourceFiles([zip(entries)])
+
+    assert.equal(skipped.filter((line) => line.endsWith('(over 200 entries)')).length, 5)
+    assert.equal(files.length, 40) // MAX_SOURCE_FILES of the 200 unpacked
+  })
+
+  it('reports binary entries and unreadable zips', () => {
+    const binary = collectSourceFiles([zip({'app.js': new Uint8Array([0x61, 0, 0x62])})])
+    assert.deepEqual(binary.files, [])
+    assert.deepEqual(binary.skipped, ['project.zip:app.js (binary)'])
+
+    const broken = collectSourceFiles([{originalname: 'broken.zip', buffer: Buffer.from('not a zip')}])
+    assert.deepEqual(broken.files, [])
+    assert.deepEqual(broken.skipped, ['broken.zip (not a readable zip)'])
+  })
+})
@@ -0,0 +1,153 @@
+/**
+ * Purpose: Incremental ingest tests - unchanged documents skipped, removed ones deleted, stray chunks pruned, failures retried, chunk metadata columns.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import type {DocumentStateRecord} from '../src/db/ingest.js'
+import {chunkSourceId, type EmbeddingChunk} from '../src/db/vectors.js'
+import {ingestSource, type IngestStore} from '../src/jobs/ingest.js'
+import type {SourceConnector, SourceDocument} from '../src/jobs/sources/types.js'
+
+const memoryStore = () => {
+  const states = new Map<string, DocumentStateRecord>()
+  const chunks = new Map<string, EmbeddingChunk>()
+  const cursors = new Map<string, string>()
+  const store: IngestStore = {
+    getDocumentStates: async () => new Map(states),
+    saveDocumentState: async (state) => states.set(state.documentId, {...state, updatedAt: new Date()}),
+    deleteDocumentState: async (_source, documentId) => {
+      states.delete(documentId)
+    },
+    getSourceCursors: async () => new Map(cursors),
+    saveSourceCursors: async (_source, next) => {
+      Object.entries(next).forEach(([key, value]) => cursors.set(key, value))
+    },
+    upsertChunks: async (list) => {
+      list.forEach((chunk) => chunks.set(chunk.sourceId, chunk))
+    },
+    deleteDocumentChunks: async (_source, documentId, keep = []) => {
+      const stale = [...chunks.values()].filter((chunk) => chunk.documentId === documentId && !keep.includes(chunk.sourceId))
+      stale.forEach((chunk) => chunks.delete(chunk.sourceId))
+      return stale.length
+    },
+    pruneSourceChunks: async (_source, keep) => {
+      const stale = [...chunks.keys()].filter((id) => !keep.includes(id))
+      stale.forEach((id) => chunks.delete(id))
+      return stale.length
+    },
+  }
+  return {store, states, chunks, cursors}
+}
+
+const connectorFor = (listing: () => {documents: SourceDocument[], cursors?: Record<string, string>}): SourceConnector => ({
+  source: 'local',
+  unavailable: () => undefined,
+  load: async () => listing(),
+})
+
+const options = {dryRun: false, full: false, runId: 'run-1'}
+
+describe('ingestSource', () => {
+  it('embeds new documents once and skips them while version or content are unchanged', async () => {
+    const {store, states, chunks} = memoryStore()
+    let loads = 0
+    const documents: SourceDocument[] = [
+      {documentId: 'notes:flex.md', title: 'flex.md', version: 'v1', content: async () => (loads++, 'Flexbox aligns items.')},
+      {documentId: 'notes:grid.md', title: 'grid.md', content: 'Grid places items.'},
+    ]
+    const connector = connectorFor(() => ({documents}))
+
+    const first = await ingestSource(connector, options, store)
+    assert.deepEqual([first.added, first.skipped, first.chunks], [2, 0, 2])
+    assert.deepEqual([...chunks.keys()].sort(), ['notes:flex.md#0', 'notes:grid.md#0'])
+    assert.equal(states.get('notes:flex.md')!.version, 'v1')
+
+    const second = await ingestSource(connector, options, store)
+    assert.deepEqual([second.added, second.updated, second.skipped, second.pruned], [0, 0, 2, 0])
+    assert.equal(loads, 1)
+    assert.equal(chunks.size, 2)
+  })
+
+  it('remembers a new version with the same content without re-embedding', async () => {
+    const {store, states, chunks} = memoryStore()
+    const document: SourceDocument = {documentId: 'notes:flex.md', title: 'flex.md', version: 'v1', content: 'Flexbox aligns items.'}
+    await ingestSource(connectorFor(() => ({documents: [document]})), options, store)
+    chunks.clear()
+
+    const stats = await ingestSource(connectorFor(() => ({documents: [{...document, version: 'v2'}]})), {...options, runId: 'run-2'}, store)
+    assert.equal(stats.skipped, 1)
+    assert.equal(states.get('notes:flex.md')!.version, 'v2')
+    assert.equal(chunks.size, 0)
+  })
+
+  it('deletes removed documents and prunes chunks no document accounts for', async () => {
+    const {store, states, chunks} = memoryStore()
+    let documents: SourceDocument[] = [
+      {documentId: 'notes', title: 'notes', content: 'Notes on flexbox.'},
+      {documentId: 'notes:draft.md', title: 'draft.md', content: 'A draft.'},
+    ]
+    const connector = connectorFor(() => ({documents}))
+    await ingestSource(connector, options, store)
+    chunks.set('untracked#0', {source: 'local', sourceId: 'untracked#0', chunk: 'left over'})
+
+    documents = documents.slice(0, 1)
+    const stats = await ingestSource(connector, options, store)
+    assert.deepEqual([stats.deleted, stats.skipped, stats.pruned], [1, 1, 1])
+    assert.deepEqual([...chunks.keys()], [chunkSourceId('notes', 0)])
+    assert.deepEqual([...states.keys()], ['notes'])
+  })
+
+  it('keeps the chunks of a document that fails to load and holds the cursor back', async () => {
+    const {store, chunks, cursors} = memoryStore()
+    const document: SourceDocument = {documentId: 'repo:a.css', title: 'a.css', version: 'c1', content: '.card { display: flex; }'}
+    await ingestSource(connectorFor(() => ({documents: [document], cursors: {repo: 'c1'}})), options, store)
+
+    const failing: SourceDocument = {...document, version: 'c2', content: async () => {
+      throw new Error('rate limited')
+    }}
+    const stats = await ingestSource(connectorFor(() => ({documents: [failing], cursors: {repo: 'c2'}})), options, store)
+    assert.deepEqual([stats.failed, stats.pruned], [1, 0])
+    assert.ok(chunks.has('repo:a.css#0'))
+    assert.equal(cursors.get('repo'), 'c1')
+  })
+
+  it('counts changes on a dry run without writing anything', async () => {
+    const {store, states, chunks} = memoryStore()
+    const stats = await ingestSource(connectorFor(() => ({documents: [{documentId: 'a', title: 'a', content: 'Hello'}]})), {...options, dryRun: true}, store)
+
+    assert.deepEqual([stats.added, stats.chunks], [1, 1])
+    assert.equal(states.size, 0)
+    assert.equal(chunks.size, 0)
+  })
+})
+
+describe('chunk columns', () => {
+  it('fills language, path, url, skills and last-modified from the document', async () => {
+    const {store, chunks} = memoryStore()
+    await ingestSource(connectorFor(() => ({documents: [
+      {
+        documentId: 'acme/site@main:src/card.css',
+        title: 'src/card.css',
+        content: '.card { display: flex; }',
+        metadata: {path: 'src/card.css', url: 'https://github.com/acme/site/blob/main/src/card.css'},
+        lastModified: '2025-08-20T10:00:00Z',
+      },
+      {documentId: 'page-1', title: 'Notes', content: '# Notes', format: 'markdown', lastModified: 'not a date'},
+    ]})), options, store)
+
+    const css = chunks.get('acme/site@main:src/card.css#0')!
+    assert.deepEqual([css.language, css.path, css.url], ['css', 'src/card.css', 'https://github.com/acme/site/blob/main/src/card.css'])
+    assert.deepEqual(css.skillTags, ['flex-basics'])
+    assert.equal(css.lastModified?.toISOString(), '2025-08-20T10:00:00.000Z')
+    const notes = chunks.get('page-1#0')!
+    assert.deepEqual([notes.language, notes.path, notes.lastModified], ['markdown', undefined, undefined])
+  })
+})
+
+describe('chunkSourceId', () => {
+  it('numbers chunks within their document', () => {
+    assert.equal(chunkSourceId('proj:notes', 0), 'proj:notes#0')
+    assert.equal(chunkSourceId('proj:notes', 12), 'proj:notes#12')
+  })
+})
@@ -0,0 +1,71 @@
+/**
+ * Purpose: File message store tests - ordering and cursors, persistence across restarts, session listing and deletion.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import {after, describe, it} from 'node:test'
+import {createFileMessageStore} from '../src/db/messages.js'
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'messages-'))
+after(() => fs.rmSync(directory, {recursive: true, force: true}))
+
+let files = 0
+const storeFile = (): string => path.join(directory, `messages-${++files}.json`)
+
+describe('createFileMessageStore', () => {
+  it('returns messages oldest first, the most recent ones and those after a cursor', async () => {
+    const store = createFileMessageStore(storeFile())
+    const first = await store.appendMessage('s1', {role: 'user', content: 'How do I center a div?'})
+    await store.appendMessage('s1', {role: 'assistant', content: 'Use flexbox.'})
+    await store.appendMessage('s1', {role: 'user', content: 'Thanks'})
+
+    assert.equal(store.kind, 'file')
+    assert.deepEqual((await store.getMessages('s1')).map((message) => message.content), ['How do I center a div?', 'Use flexbox.', 'Thanks'])
+    assert.deepEqual((await store.getRecentMessages('s1', 2)).map((message) => message.role), ['assistant', 'user'])
+    assert.deepEqual((await store.getMessagesAfter('s1', first.id)).map((message) => message.content), ['Use flexbox.', 'Thanks'])
+    assert.equal((await store.getMessagesAfter('s1')).length, 3)
+    assert.deepEqual(await store.getMessages('unknown'), [])
+  })
+
+  it('keeps sessions across a restart', async () => {
+    const file = storeFile()
+    const stored = await createFileMessageStore(file).appendMessage('s1', {role: 'user', content: 'hi'})
+
+    const [reloaded] = await createFileMessageStore(file).getMessages('s1')
+    assert.equal(reloaded!.id, stored.id)
+    assert.equal(reloaded!.content, 'hi')
+    assert.equal(reloaded!.timestamp.getTime(), stored.timestamp.getTime())
+  })
+
+  it('reads older files without ids and lists the most recently active session first', async () => {
+    const file = storeFile()
+    fs.writeFileSync(file, JSON.stringify({
+      old: [{role: 'user', content: 'first', timestamp: '2025-01-01T10:00:00Z'}],
+      recent: [
+        {role: 'user', content: 'a', timestamp: '2025-01-02T10:00:00Z'},
+        {role: 'tool', content: 'b', timestamp: '2025-01-03T10:00:00Z'},
+      ],
+    }))
+    const store = createFileMessageStore(file)
+
+    const sessions = await store.listSessions()
+    assert.deepEqual(sessions.map((session) => [session.sessionId, session.messageCount]), [['recent', 2], ['old', 1]])
+    assert.equal(sessions[0]!.lastActivity.toISOString(), '2025-01-03T10:00:00.000Z')
+    const messages = await store.getMessages('recent')
+    assert.ok(messages.every((message) => message.id))
+    assert.equal(messages[1]!.role, 'user')
+  })
+
+  it('deletes a session from memory and disk', async () => {
+    const file = storeFile()
+    const store = createFileMessageStore(file)
+    await store.appendMessage('s1', {role: 'user', content: 'hi'})
+
+    assert.equal(await store.deleteSession('s1'), true)
+    assert.equal(await store.deleteSession('s1'), false)
+    assert.deepEqual(await createFileMessageStore(file).listSessions(), [])
+  })
+})
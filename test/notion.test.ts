@@ -0,0 +1,97 @@
+/**
+ * Purpose: Notion Markdown tests - inline annotations, headings one level down, tight lists with nested children, code, tables and file links.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {renderBlocks, richTextToMarkdown} from '../src/jobs/sources/notion.js'
+
+type Block = Parameters<typeof renderBlocks>[0][number]
+type RichText = Parameters<typeof richTextToMarkdown>[0][number]
+
+const text = (plain: string, annotations: Partial<RichText['annotations']> = {}, href: string | null = null): RichText => ({
+  type: 'text',
+  text: {content: plain, link: href ? {url: href} : null},
+  plain_text: plain,
+  href,
+  annotations: {bold: false, italic: false, strikethrough: false, underline: false, code: false, color: 'default', ...annotations},
+}) as RichText
+
+// Only the fields the renderer reads; the API response carries many more
+const block = (type: string, content: Record<string, unknown>, children?: Block[]): Block => (
+  {type, [type]: content, ...(children ? {children} : {})} as unknown as Block
+)
+
+const paragraph = (plain: string, children?: Block[]) => block('paragraph', {rich_text: [text(plain)]}, children)
+const bullet = (plain: string, children?: Block[]) => block('bulleted_list_item', {rich_text: [text(plain)]}, children)
+const numbered = (plain: string) => block('numbered_list_item', {rich_text: [text(plain)]})
+
+describe('richTextToMarkdown', () => {
+  it('applies code, bold, italic, strikethrough and links', () => {
+    assert.equal(richTextToMarkdown([
+      text('Use '),
+      text('display: flex', {code: true}),
+      text(' and ', {}),
+      text('gap', {bold: true, italic: true}, 'https://developer.mozilla.org/docs/Web/CSS/gap'),
+      text(' not ', {}),
+      text('floats', {strikethrough: true}),
+    ]), 'Use `display: flex` and [_**gap**_](https://developer.mozilla.org/docs/Web/CSS/gap) not ~~floats~~')
+  })
+
+  it('leaves whitespace-only runs unannotated', () => {
+    assert.equal(richTextToMarkdown([text('a'), text(' ', {bold: true}), text('b')]), 'a b')
+  })
+})
+
+describe('renderBlocks', () => {
+  it('moves headings one level down and separates blocks with a blank line', () => {
+    assert.equal(renderBlocks([
+      block('heading_1', {rich_text: [text('Layout')]}),
+      paragraph('Flexbox is one-dimensional.'),
+      block('divider', {}),
+    ]), '## Layout\n\nFlexbox is one-dimensional.\n\n---')
+  })
+
+  it('keeps list runs tight, numbers them and indents nested children', () => {
+    assert.equal(renderBlocks([
+      bullet('Flexbox', [bullet('justify-content'), bullet('align-items')]),
+      bullet('Grid'),
+      numbered('Open the file'),
+      numbered('Add a rule'),
+      paragraph('Done.'),
+      numbered('Again from one'),
+    ]), '- Flexbox\n  - justify-content\n  - align-items\n- Grid\n\n1. Open the file\n2. Add a rule\n\nDone.\n\n1. Again from one')
+  })
+
+  it('renders to-dos, quotes and callouts', () => {
+    assert.equal(renderBlocks([
+      block('to_do', {rich_text: [text('Center the card')], checked: true}),
+      block('quote', {rich_text: [text('Line one\nLine two')]}),
+      block('callout', {rich_text: [text('Remember box-sizing')], icon: {type: 'emoji', emoji: '💡'}}),
+    ]), '- [x] Center the card\n\n> Line one\n> Line two\n\n> 💡 Remember box-sizing')
+  })
+
+  it('fences code with its language and caption', () => {
+    assert.equal(renderBlocks([
+      block('code', {language: 'css', rich_text: [text('.card {\n  display: flex;\n}')], caption: [text('Card layout')]}),
+      block('code', {language: 'plain text', rich_text: [text('npm test')], caption: []}),
+    ]), '```css\n.card {\n  display: flex;\n}\n```\nCard layout\n\n```\nnpm test\n```')
+  })
+
+  it('turns tables into Markdown tables with escaped pipes', () => {
+    const row = (...cells: string[]) => block('table_row', {cells: cells.map((cell) => [text(cell)])})
+    assert.equal(renderBlocks([
+      block('table', {table_width: 2}, [row('Property', 'Values'), row('flex-wrap', 'wrap | nowrap')]),
+    ]), '| Property | Values |\n| --- | --- |\n| flex-wrap | wrap \\| nowrap |')
+  })
+
+  it('links external files only, flattens layout containers and skips unsupported blocks', () => {
+    assert.equal(renderBlocks([
+      block('image', {type: 'external', external: {url: 'https://example.com/box.png'}, caption: [text('Box model')]}),
+      block('pdf', {type: 'file', file: {url: 'https://s3.example.com/signed'}, caption: []}),
+      block('column_list', {}, [block('column', {}, [paragraph('Left')]), block('column', {}, [paragraph('Right')])]),
+      block('table_of_contents', {}),
+      paragraph(''),
+    ]), '[Box model](https://example.com/box.png)\n\n[pdf]\n\nLeft\n\nRight')
+  })
+})
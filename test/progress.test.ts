@@ -0,0 +1,53 @@
+/**
+ * Purpose: Progress tests - update validation, scores kept within 0-100, skill keys and the skills a chunk teaches.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {inferSkillTags, isSkillKey, nextScore, ProgressUpdateSchema} from '../src/db/progress.js'
+
+describe('ProgressUpdateSchema', () => {
+  it('needs a score or a delta and defaults the source to manual', () => {
+    assert.equal(ProgressUpdateSchema.parse({skillKey: 'flex-basics', delta: 10}).source, 'manual')
+    assert.ok(!ProgressUpdateSchema.safeParse({skillKey: 'flex-basics', notes: 'centered a div'}).success)
+  })
+
+  it('rejects unknown skills and out-of-range values', () => {
+    assert.ok(!ProgressUpdateSchema.safeParse({skillKey: 'rust-basics', delta: 10}).success)
+    assert.ok(!ProgressUpdateSchema.safeParse({skillKey: 'flex-basics', score: 101}).success)
+    assert.ok(!ProgressUpdateSchema.safeParse({skillKey: 'flex-basics', delta: 2.5}).success)
+    assert.ok(!ProgressUpdateSchema.safeParse({skillKey: 'flex-basics', delta: 5, source: 'guess'}).success)
+  })
+})
+
+describe('nextScore', () => {
+  it('adds deltas and lets an absolute score win', () => {
+    assert.equal(nextScore(40, {delta: 15}), 55)
+    assert.equal(nextScore(40, {score: 70, delta: 15}), 70)
+  })
+
+  it('clamps to 0-100', () => {
+    assert.equal(nextScore(95, {delta: 20}), 100)
+    assert.equal(nextScore(10, {delta: -30}), 0)
+    assert.equal(nextScore(0, {}), 0)
+  })
+})
+
+describe('isSkillKey', () => {
+  it('accepts only the tracked skills', () => {
+    assert.ok(isSkillKey('grid-basics'))
+    assert.ok(!isSkillKey('grid'))
+  })
+})
+
+describe('inferSkillTags', () => {
+  it('tags text by the skills its keywords and code teach', () => {
+    assert.deepEqual(inferSkillTags('.card { display: flex; justify-content: center; padding: 1rem; }'), ['css-box-model', 'flex-basics'])
+    assert.deepEqual(inferSkillTags('const button = document.querySelector("button")'), ['js-syntax', 'dom-basics'])
+    assert.deepEqual(inferSkillTags('<main><h1>Hello</h1></main>'), ['html-basics'])
+  })
+
+  it('leaves unrelated text untagged', () => {
+    assert.deepEqual(inferSkillTags('We met on Tuesday to plan the sprint.'), [])
+  })
+})
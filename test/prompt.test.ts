@@ -0,0 +1,95 @@
+/**
+ * Purpose: assemblePrompt tests - the token budget, what gets dropped first, and the metadata reporting it.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {assemblePrompt} from '../src/agent/prompt.js'
+import type {ConversationMessage, RelevantDocument, RetrievalContext} from '../src/agent/retrieval.js'
+
+const filler = (label: string, words: number): string => `${label} ${Array.from({length: words}, (_, index) => `word${index}`).join(' ')}`
+
+const doc = (index: number): RelevantDocument => ({
+  source: 'notion',
+  sourceId: `page-${index}#0`,
+  title: `Page ${index}`,
+  chunk: filler(`Doc ${index}`, 120),
+  similarity: 1 - index / 10,
+})
+
+const turns = (count: number): ConversationMessage[] => Array.from({length: count}, (_, index) => ({
+  role: index % 2 === 0 ? 'user' : 'assistant',
+  content: filler(`Turn ${index}`, 80),
+  timestamp: new Date(2025, 0, 1, 0, index),
+}))
+
+const context = (overrides: Partial<RetrievalContext> = {}): RetrievalContext => ({
+  recentMessages: turns(12),
+  relevantDocs: [doc(1), doc(2), doc(3), doc(4), doc(5)],
+  summary: 'Learner is practising flexbox.',
+  skillProgress: [{skill: 'css-flexbox', score: 40}],
+  ...overrides,
+})
+
+describe('assemblePrompt', () => {
+  it('sends everything when the budget allows', () => {
+    const {messages, metadata, sources} = assemblePrompt({policy: 'Be kind.', context: context(), userMessage: 'Next?', budget: 100_000})
+    assert.deepEqual(metadata.dropped, [])
+    assert.equal(messages.length, 1 + 12 + 1)
+    assert.equal(messages[messages.length - 1]!.content, 'Next?')
+    assert.equal(sources.length, 5)
+    assert.match(messages[0]!.content, /CONVERSATION SUMMARY: Learner is practising flexbox\./)
+    assert.match(messages[0]!.content, /\[5\] notion - Page 5: Doc 5/)
+  })
+
+  it('stays within the budget and reports what it dropped', () => {
+    const {metadata} = assemblePrompt({policy: 'Be kind.', context: context(), userMessage: 'Next?', budget: 1200})
+    assert.ok(metadata.usedTokens <= 1200, `${metadata.usedTokens} tokens used`)
+    const sections = Object.fromEntries(metadata.sections.map((section) => [section.section, section]))
+    assert.equal(sections.summary!.dropped, 0)
+    assert.equal(sections.skills!.dropped, 0)
+    assert.ok(sections.docs!.dropped > 0)
+    assert.ok(sections.history!.dropped > 0)
+    for (const dropped of metadata.dropped) {
+      const section = sections[dropped.section]!
+      assert.equal(dropped.count, section.dropped)
+      assert.equal(dropped.tokens, section.droppedTokens)
+    }
+  })
+
+  it('keeps the best-ranked docs and only cites those', () => {
+    const {messages, metadata, sources} = assemblePrompt({policy: 'Be kind.', context: context(), userMessage: 'Next?', budget: 1200})
+    const docs = metadata.sections.find((section) => section.section === 'docs')!
+    assert.deepEqual(sources.map((source) => source.number), Array.from({length: docs.included}, (_, index) => index + 1))
+    assert.ok(!messages[0]!.content.includes(`[${docs.included + 1}]`))
+  })
+
+  it('drops the oldest turns and keeps the rest in order', () => {
+    const {messages} = assemblePrompt({policy: 'Be kind.', context: context({relevantDocs: []}), userMessage: 'Next?', budget: 1000})
+    const history = messages.slice(1, -1)
+    assert.ok(history.length > 0 && history.length < 12)
+    assert.match(history[history.length - 1]!.content, /^Turn 11 /)
+    const numbers = history.map((message) => Number(message.content.match(/^Turn (\d+)/)![1]))
+    assert.deepEqual(numbers, [...numbers].sort((a, b) => a - b))
+    assert.equal(numbers[numbers.length - 1]! - numbers[0]! + 1, numbers.length)
+  })
+
+  it('always sends the policy and the question, even over budget', () => {
+    const {messages, metadata} = assemblePrompt({policy: filler('Policy', 200), context: context(), userMessage: 'Next?', budget: 50})
+    assert.equal(messages.length, 2)
+    assert.ok(metadata.requiredTokens > 50)
+    assert.equal(metadata.usedTokens, metadata.requiredTokens)
+    assert.equal(metadata.sections.reduce((sum, section) => sum + section.included, 0), 0)
+  })
+
+  it('leaves out the stored copy of the current question', () => {
+    const recentMessages: ConversationMessage[] = [
+      ...turns(2),
+      {role: 'user', content: 'Next?', timestamp: new Date()},
+      {role: 'system', content: 'old summary row', timestamp: new Date()},
+    ]
+    const {messages} = assemblePrompt({policy: 'Be kind.', context: context({recentMessages}), userMessage: 'Next?', budget: 100_000})
+    assert.equal(messages.filter((message) => message.content === 'Next?').length, 1)
+    assert.ok(!messages.some((message) => message.content === 'old summary row'))
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * Purpose: LLM provider tests - per-task routing, the offline fake, and the OpenAI-compatible provider against a local stub server.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import http from 'node:http'
+import type {AddressInfo} from 'node:net'
+import {after, before, describe, it} from 'node:test'
+import {createFakeProvider} from '../src/llm/fake.js'
+import {createOpenAIProvider} from '../src/llm/openai.js'
+import {EMBEDDING_DIMENSIONS, routeTask} from '../src/llm/provider.js'
+
+describe('routeTask', () => {
+  it('sends every task to the fake provider under LLM_PROVIDER=fake', () => {
+    const chat = routeTask('chat')
+    assert.equal(chat.provider.name, 'fake')
+    assert.equal(chat.model, 'fake-chat')
+    assert.equal(routeTask('embeddings').model, 'fake-embedding')
+    assert.equal(routeTask('summary').provider, chat.provider)
+  })
+})
+
+describe('createFakeProvider', () => {
+  const fake = createFakeProvider()
+  const request = {model: 'fake-chat', messages: [{role: 'user' as const, content: 'How do I center a div?'}]}
+
+  it('replies deterministically and streams the same text', async () => {
+    const reply = await fake.chat(request)
+    const tokens: string[] = []
+
+    assert.equal(reply, await fake.chat(request))
+    assert.match(reply, /How do I center a div\?/)
+    assert.equal(await fake.streamChat(request, (token) => tokens.push(token)), reply)
+    assert.equal(tokens.join(''), reply)
+  })
+
+  it('answers JSON requests with an empty object', async () => {
+    assert.equal(await fake.chat({...request, json: true}), '{}')
+  })
+
+  it('stops streaming once the request is aborted', async () => {
+    const controller = new AbortController()
+    const tokens: string[] = []
+    await fake.streamChat({...request, signal: controller.signal}, (token) => {
+      tokens.push(token)
+      controller.abort()
+    })
+    assert.equal(tokens.length, 1)
+  })
+
+  it('embeds empty text as a valid vector', async () => {
+    const [embedding] = await fake.embed({model: 'fake-embedding', input: ['']})
+    assert.equal(embedding!.length, EMBEDDING_DIMENSIONS)
+    assert.equal(embedding![0], 1)
+  })
+})
+
+describe('createOpenAIProvider', () => {
+  const requests: Array<{url: string, body: any}> = []
+  let dimensions = EMBEDDING_DIMENSIONS
+  let baseURL = ''
+
+  const server = http.createServer((req, res) => {
+    let raw = ''
+    req.on('data', (part) => raw += part)
+    req.on('end', () => {
+      const body = JSON.parse(raw)
+      requests.push({url: req.url ?? '', body})
+      const reply = req.url?.endsWith('/embeddings')
+        ? {object: 'list', model: body.model, data: body.input.map((_: string, index: number) => ({object: 'embedding', index, embedding: new Array(dimensions).fill(0)}))}
+        : {id: 'c1', object: 'chat.completion', model: body.model, choices: [{index: 0, finish_reason: 'stop', message: {role: 'assistant', content: '  {"ok":true}  '}}]}
+      res.writeHead(200, {'content-type': 'application/json'})
+      res.end(JSON.stringify(reply))
+    })
+  })
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`
+  })
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())))
+
+  it('asks for a JSON object and trims the reply', async () => {
+    const local = createOpenAIProvider({name: 'local', apiKey: 'local', baseURL})
+    const reply = await local.chat({model: 'llama3.1', messages: [{role: 'user', content: 'hi'}], json: true})
+
+    assert.equal(reply, '{"ok":true}')
+    assert.deepEqual(requests.at(-1)!.body.response_format, {type: 'json_object'})
+  })
+
+  it('only requests shortened embeddings from OpenAI itself', async () => {
+    await createOpenAIProvider({name: 'openai', apiKey: 'key', baseURL}).embed({model: 'text-embedding-3-large', input: ['a']})
+    assert.equal(requests.at(-1)!.body.dimensions, EMBEDDING_DIMENSIONS)
+
+    await createOpenAIProvider({name: 'local', apiKey: 'local', baseURL}).embed({model: 'custom-3072', input: ['a']})
+    assert.equal(requests.at(-1)!.body.dimensions, undefined)
+  })
+
+  it('rejects embeddings that would not fit the vector column', async () => {
+    dimensions = 768
+    const local = createOpenAIProvider({name: 'local', apiKey: 'local', baseURL})
+
+    await assert.rejects(local.embed({model: 'nomic-embed-text', input: ['a']}), /returned 768 dimensions; the vector column needs 3072/)
+  })
+})
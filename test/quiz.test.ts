@@ -0,0 +1,63 @@
+/**
+ * Purpose: Quiz grading tests - closed answers by choice text, number or letter, and the offline rubric fallback.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {gradeAnswer} from '../src/agent/quiz.js'
+import type {QuestionRecord} from '../src/db/quizzes.js'
+
+const question = (overrides: Partial<QuestionRecord>): QuestionRecord => ({
+  id: 'q1',
+  quizId: 'quiz1',
+  position: 0,
+  type: 'multiple-choice',
+  prompt: 'Which property lays out children in a row?',
+  choices: ['display: block', 'display: flex', 'float: left'],
+  answer: 'display: flex',
+  sources: [],
+  userAnswer: null,
+  correct: null,
+  score: null,
+  feedback: null,
+  answeredAt: null,
+  ...overrides,
+})
+
+describe('gradeAnswer', () => {
+  it('accepts the choice text, its number or its letter', async () => {
+    for (const answer of ['display: flex', '  Display:  FLEX ', '2', 'b', 'B']) {
+      const grade = await gradeAnswer(question({}), answer)
+      assert.equal(grade.correct, true, answer)
+      assert.equal(grade.score, 1)
+    }
+  })
+
+  it('rejects other choices and shows the answer', async () => {
+    const grade = await gradeAnswer(question({}), 'a')
+    assert.equal(grade.correct, false)
+    assert.equal(grade.score, 0)
+    assert.match(grade.feedback, /display: flex/)
+  })
+
+  it('matches fill-in-code answers ignoring quotes, case and a trailing semicolon', async () => {
+    const fill = question({type: 'fill-in-code', choices: [], answer: "justify-content: 'center'"})
+    assert.equal((await gradeAnswer(fill, 'Justify-Content: center;')).correct, true)
+  })
+
+  it('falls back to keyword overlap when the model gives no usable grade', async () => {
+    const explain = question({
+      type: 'css-explain',
+      choices: [],
+      answer: 'Flexbox distributes remaining space between items along the main axis',
+    })
+    const good = await gradeAnswer(explain, 'It distributes the remaining space between the items on the main axis')
+    assert.equal(good.correct, true)
+    assert.ok(good.score >= 0.5)
+
+    const poor = await gradeAnswer(explain, 'It makes text bold')
+    assert.equal(poor.correct, false)
+    assert.equal(poor.score, 0)
+    assert.match(poor.feedback, /A good answer/)
+  })
+})
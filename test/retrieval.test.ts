@@ -0,0 +1,42 @@
+/**
+ * Purpose: Retrieval filter tests - single values or lists, validated repos and skills, coerced dates, unknown keys rejected.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {RetrievalFiltersSchema} from '../src/agent/retrieval.js'
+
+describe('RetrievalFiltersSchema', () => {
+  it('turns single values into lists and dates into Dates', () => {
+    const filters = RetrievalFiltersSchema.parse({
+      sources: 'github',
+      languages: ['CSS', 'scss'],
+      repo: 'acme/site.v2',
+      skillTags: 'flex-basics',
+      modifiedSince: '2025-08-01',
+    })
+
+    assert.deepEqual(filters.sources, ['github'])
+    assert.deepEqual(filters.languages, ['css', 'scss'])
+    assert.deepEqual(filters.skillTags, ['flex-basics'])
+    assert.equal(filters.repo, 'acme/site.v2')
+    assert.equal(filters.modifiedSince?.toISOString(), '2025-08-01T00:00:00.000Z')
+  })
+
+  it('accepts no filters at all', () => {
+    assert.deepEqual(RetrievalFiltersSchema.parse({}), {})
+  })
+
+  it('rejects malformed repos, unknown sources and skills, bad dates and unknown keys', () => {
+    for (const filters of [
+      {repo: 'acme'},
+      {sources: ['slack']},
+      {skillTags: ['rust-basics']},
+      {modifiedSince: 'last week'},
+      {pathPrefix: ''},
+      {language: 'css'},
+    ]) {
+      assert.ok(!RetrievalFiltersSchema.safeParse(filters).success, JSON.stringify(filters))
+    }
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * Purpose: SM-2 scheduler tests - interval sequence, ease bounds, lapses and review candidate order.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {initialSchedule, nextSchedule, selectReviewCandidates, type ScheduleState} from '../src/agent/scheduler.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const now = new Date('2025-09-01T09:00:00Z')
+
+const review = (state: ScheduleState, qualities: number[]): ScheduleState[] => {
+  const states: ScheduleState[] = []
+  let current = state
+  for (const quality of qualities) {
+    current = nextSchedule(current, quality, now)
+    states.push(current)
+  }
+  return states
+}
+
+describe('nextSchedule', () => {
+  it('goes 1 → 6 → interval × ease on good answers', () => {
+    const states = review(initialSchedule(now), [4, 4, 4, 4])
+    assert.deepEqual(states.map((state) => state.intervalDays), [1, 6, 15, 38])
+    assert.deepEqual(states.map((state) => state.repetitions), [1, 2, 3, 4])
+    assert.equal(states[2]!.dueAt.getTime(), now.getTime() + 15 * DAY_MS)
+  })
+
+  it('grows the interval with the ease from before the review', () => {
+    const states = review(initialSchedule(now), [5, 5, 5])
+    assert.equal(states[1]!.easeFactor, 2.7)
+    assert.equal(states[2]!.intervalDays, 16)
+  })
+
+  it('raises ease on perfect answers and lowers it on hard ones', () => {
+    assert.equal(nextSchedule(initialSchedule(now), 5, now).easeFactor, 2.6)
+    assert.equal(nextSchedule(initialSchedule(now), 4, now).easeFactor, 2.5)
+    assert.ok(Math.abs(nextSchedule(initialSchedule(now), 3, now).easeFactor - 2.36) < 1e-9)
+  })
+
+  it('restarts the sequence below quality 3 but keeps the ease change', () => {
+    const learned = review(initialSchedule(now), [5, 5, 5])[2]!
+    const lapse = nextSchedule(learned, 2, now)
+    assert.equal(lapse.repetitions, 0)
+    assert.equal(lapse.intervalDays, 1)
+    assert.equal(lapse.dueAt.getTime(), now.getTime() + DAY_MS)
+    assert.ok(lapse.easeFactor < learned.easeFactor)
+  })
+
+  it('never drops ease below 1.3 and clamps quality to 0-5', () => {
+    const states = review(initialSchedule(now), [0, 0, 0, 0, 0, 0, 0, 0])
+    assert.equal(states[states.length - 1]!.easeFactor, 1.3)
+    assert.deepEqual(nextSchedule(initialSchedule(now), 9, now), nextSchedule(initialSchedule(now), 5, now))
+    assert.deepEqual(nextSchedule(initialSchedule(now), -3, now), nextSchedule(initialSchedule(now), 0, now))
+  })
+})
+
+describe('selectReviewCandidates', () => {
+  it('puts due schedules first, then low scores, then stale skills', () => {
+    const candidates = selectReviewCandidates(
+      [
+        {skillKey: 'css-grid', score: 90, updatedAt: new Date(now.getTime() - 30 * DAY_MS)},
+        {skillKey: 'js-dom', score: 20, updatedAt: now},
+        {skillKey: 'html-forms', score: 50, updatedAt: now},
+        {skillKey: 'css-flexbox', score: 95, updatedAt: now},
+      ],
+      [{skillKey: 'html-semantics', dueAt: new Date(now.getTime() - DAY_MS)}, {skillKey: 'css-colors', dueAt: new Date(now.getTime() + DAY_MS)}],
+      now,
+      10
+    )
+    assert.deepEqual(candidates.map((candidate) => [candidate.skillKey, candidate.reason]), [
+      ['html-semantics', 'due'],
+      ['js-dom', 'low-score'],
+      ['html-forms', 'low-score'],
+      ['css-grid', 'stale'],
+    ])
+  })
+})
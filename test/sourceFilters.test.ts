@@ -0,0 +1,104 @@
+/**
+ * Purpose: Ingest file filter tests - glob translation including brace alternatives, config glob validation and .gitignore rules.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {IngestConfigSchema} from '../src/jobs/sources/config.js'
+import {globError, globToRegExp, isIgnored, matchesAny, parseGitignore} from '../src/jobs/sources/files.js'
+
+describe('globToRegExp', () => {
+  it('keeps * and ? within one directory and lets ** span them', () => {
+    assert.ok(globToRegExp('src/*.ts').test('src/server.ts'))
+    assert.ok(!globToRegExp('src/*.ts').test('src/agent/index.ts'))
+    assert.ok(globToRegExp('src/**').test('src/agent/index.ts'))
+    assert.ok(globToRegExp('file?.md').test('file1.md'))
+    assert.ok(!globToRegExp('file?.md').test('file/.md'))
+  })
+
+  it('lets **/ match zero directories', () => {
+    const glob = globToRegExp('**/node_modules/**')
+    assert.ok(glob.test('node_modules/react/index.js'))
+    assert.ok(glob.test('packages/app/node_modules/react/index.js'))
+    assert.ok(!glob.test('my_node_modules/index.js'))
+  })
+
+  it('treats brace alternatives as globs of their own', () => {
+    const glob = globToRegExp('{*.md,docs/**}')
+    assert.ok(glob.test('README.md'))
+    assert.ok(glob.test('docs/guide/flex.html'))
+    assert.ok(!glob.test('src/README.md'))
+  })
+
+  it('nests alternatives and escapes regex characters', () => {
+    const glob = globToRegExp('**/*.{js,{css,scss}}')
+    for (const path of ['a.js', 'styles/main.css', 'styles/main.scss']) assert.ok(glob.test(path), path)
+    assert.ok(!glob.test('main.ts'))
+    assert.ok(globToRegExp('a+(b).md').test('a+(b).md'))
+    assert.ok(globToRegExp('{a,b').test('{a,b'))
+  })
+
+  it('matches any of several globs', () => {
+    assert.ok(matchesAny('src/server.ts', ['src/**', '*.md']))
+    assert.ok(!matchesAny('test/x.ts', ['src/**', '*.md']))
+  })
+})
+
+describe('IngestConfigSchema', () => {
+  it('accepts brace globs and fills in the default filters', () => {
+    const config = IngestConfigSchema.parse({
+      github: {repos: [{owner: 'acme', repo: 'site', include: ['{*.md,docs/**}']}]},
+      local: {directories: [{path: 'notes'}]},
+    })
+
+    assert.deepEqual(config.github.repos[0]!.include, ['{*.md,docs/**}'])
+    assert.ok(config.local.directories[0]!.exclude.includes('**/node_modules/**'))
+    assert.equal(globError('{*.md,docs/**}'), undefined)
+  })
+
+  it('rejects empty globs', () => {
+    const parsed = IngestConfigSchema.safeParse({local: {directories: [{path: 'notes', exclude: ['']}]}})
+    assert.ok(!parsed.success)
+  })
+})
+
+describe('parseGitignore', () => {
+  it('matches unanchored patterns at any depth and anchored ones from their directory', () => {
+    const rules = parseGitignore('# build output\n*.log\n/dist\ndocs/draft.md\n')
+
+    assert.equal(rules.length, 3)
+    assert.ok(isIgnored('error.log', false, rules))
+    assert.ok(isIgnored('logs/deep/error.log', false, rules))
+    assert.ok(isIgnored('dist', true, rules))
+    assert.ok(!isIgnored('packages/dist', true, rules))
+    assert.ok(isIgnored('docs/draft.md', false, rules))
+    assert.ok(!isIgnored('notes/docs/draft.md', false, rules))
+  })
+
+  it('applies directory-only rules to directories alone', () => {
+    const rules = parseGitignore('cache/\n')
+
+    assert.ok(isIgnored('cache', true, rules))
+    assert.ok(isIgnored('src/cache', true, rules))
+    assert.ok(!isIgnored('cache', false, rules))
+  })
+
+  it('lets a later negation re-include a path', () => {
+    const rules = parseGitignore('*.md\n!README.md\n\\#notes.md\n')
+
+    assert.ok(isIgnored('guide.md', false, rules))
+    assert.ok(!isIgnored('README.md', false, rules))
+    assert.ok(!isIgnored('docs/README.md', false, rules))
+    assert.ok(isIgnored('#notes.md', false, rules))
+  })
+
+  it('scopes nested .gitignore rules to their folder', () => {
+    const rules = [...parseGitignore('*.tmp\n'), ...parseGitignore('/out\n!keep.tmp\n', 'site')]
+
+    assert.ok(isIgnored('site/out', true, rules))
+    assert.ok(!isIgnored('out', true, rules))
+    assert.ok(isIgnored('a.tmp', false, rules))
+    assert.ok(!isIgnored('site/keep.tmp', false, rules))
+    assert.ok(isIgnored('keep.tmp', false, rules))
+  })
+})
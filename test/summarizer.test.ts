@@ -0,0 +1,123 @@
+/**
+ * Purpose: Summarizer tests - folding a new version into the previous one, grounded skill and learning-style analysis, which model replies may become the stored summary, and the keyword outline used otherwise.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {analyzeMessages, isUsableSummary, mergeLearningStyle, mergeSkillProgress, mergeTopics, outlineSummary, parseAnalysis} from '../src/agent/summarizer.js'
+import type {ConversationMessage} from '../src/db/messages.js'
+import {DEFAULT_LEARNING_STYLE} from '../src/db/summaries.js'
+import {createFakeProvider} from '../src/llm/fake.js'
+
+describe('folding a new summary version into the previous one', () => {
+  it('puts new topics first without repeats', () => {
+    assert.deepEqual(mergeTopics(['html', 'css'], ['javascript', 'css']), ['javascript', 'css', 'html'])
+    assert.equal(mergeTopics([], ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i']).length, 8)
+  })
+
+  it('adds skill changes up within -100..100 and keeps the newest evidence first', () => {
+    const merged = mergeSkillProgress(
+      [
+        {skill: 'flex-basics', change: 70, evidence: 'centered a card', quotes: [{messageId: 'm1', quote: 'it is centered'}]},
+        {skill: 'html-basics', change: 10, evidence: 'used semantic tags', quotes: []},
+      ],
+      [{skill: 'flex-basics', change: 40, evidence: 'built a nav bar', quotes: [{messageId: 'm7', quote: 'nav works'}]}],
+    )
+
+    assert.deepEqual(merged.map((update) => [update.skill, update.change]), [['flex-basics', 100], ['html-basics', 10]])
+    assert.equal(merged[0]!.evidence, 'built a nav bar; centered a card')
+    assert.deepEqual(merged[0]!.quotes.map((quote) => quote.messageId), ['m7', 'm1'])
+  })
+
+  it('keeps earlier learning-style observations unless new messages show otherwise', () => {
+    const previous = {...DEFAULT_LEARNING_STYLE, preferredFormat: 'examples' as const, pace: 'slow' as const, notes: ['likes analogies']}
+    const merged = mergeLearningStyle(previous, {...DEFAULT_LEARNING_STYLE, feedback: 'brief', notes: ['likes analogies', 'asks why']})
+
+    assert.equal(merged.preferredFormat, 'examples')
+    assert.equal(merged.pace, 'slow')
+    assert.equal(merged.feedback, 'brief')
+    assert.deepEqual(merged.notes, ['likes analogies', 'asks why'])
+    assert.deepEqual(mergeLearningStyle(undefined, DEFAULT_LEARNING_STYLE), DEFAULT_LEARNING_STYLE)
+  })
+})
+
+const message = (id: string, role: ConversationMessage['role'], content: string): ConversationMessage => ({
+  id,
+  role,
+  content,
+  timestamp: new Date('2025-09-01T09:00:00Z'),
+})
+
+const transcript = [
+  message('m1', 'user', 'Can you show me an example of centering with flexbox?'),
+  message('m2', 'assistant', 'Use display: flex with justify-content: center.'),
+  message('m3', 'user', 'It worked, the card is centered now!'),
+]
+
+describe('parseAnalysis', () => {
+  const style = {preferredFormat: 'examples', pace: 'medium', feedback: 'mixed', notes: ['asks for examples']}
+
+  it('keeps skill changes backed by a quote from the cited message', () => {
+    const analysis = parseAnalysis({
+      skillProgress: [
+        {skill: 'flex-basics', change: 10, evidence: 'centered a card', quotes: [{messageId: 'm3', quote: 'the  card is CENTERED'}]},
+        {skill: 'grid-basics', change: 5, evidence: 'made up', quotes: [{messageId: 'm3', quote: 'grid areas'}]},
+        {skill: 'css-selectors', change: 5, evidence: 'wrong message', quotes: [{messageId: 'm9', quote: 'It worked'}]},
+      ],
+      learningStyle: {...style, quotes: [{messageId: 'm1', quote: 'show me an example'}, {messageId: 'm2', quote: 'an example'}]},
+    }, transcript)
+
+    assert.deepEqual(analysis?.skillProgress.map((update) => update.skill), ['flex-basics'])
+    assert.equal(analysis?.learningStyle.preferredFormat, 'examples')
+    assert.deepEqual(analysis?.learningStyle.quotes, [{messageId: 'm1', quote: 'show me an example'}])
+  })
+
+  it('rejects output outside the schema', () => {
+    assert.equal(parseAnalysis({}, transcript), null)
+    assert.equal(parseAnalysis({skillProgress: [{skill: 'rust', change: 5, evidence: '', quotes: []}], learningStyle: style}, transcript), null)
+    assert.equal(parseAnalysis({skillProgress: [{skill: 'flex-basics', change: 50, evidence: '', quotes: []}], learningStyle: style}, transcript), null)
+  })
+})
+
+describe('analyzeMessages', () => {
+  it('falls back to keyword heuristics over the learner messages, quoting them', async () => {
+    const {skillProgress, learningStyle} = await analyzeMessages(transcript)
+
+    assert.ok(skillProgress.length > 0)
+    assert.ok(skillProgress.every((update) => update.quotes.every((quote) => quote.messageId !== 'm2')))
+    assert.equal(learningStyle.preferredFormat, 'examples')
+    assert.deepEqual(learningStyle.quotes.map((quote) => quote.messageId), ['m1'])
+  })
+})
+
+describe('isUsableSummary', () => {
+  it('accepts a plain summary', () => {
+    assert.ok(isUsableSummary('The learner centered a card with flexbox and asked for short explanations.'))
+  })
+
+  it('rejects canned coaching replies, task blocks and empty or runaway text', async () => {
+    const canned = await createFakeProvider().chat({
+      model: 'fake-chat',
+      messages: [{role: 'user', content: 'Summarize this coding coaching conversation.'}],
+    })
+    assert.ok(!isUsableSummary(canned))
+    assert.ok(!isUsableSummary('Tiny step: create an index.html with <h1>Hello</h1>.'))
+    assert.ok(!isUsableSummary('Good progress.\n```task\n{}\n```'))
+    assert.ok(!isUsableSummary(''))
+    assert.ok(!isUsableSummary('flexbox '.repeat(300)))
+  })
+})
+
+describe('outlineSummary', () => {
+  it('lists the topics covered so far', () => {
+    assert.equal(outlineSummary(['css', 'html']), 'Topics covered so far: css, html.')
+    assert.equal(outlineSummary([]), 'Session completed with progress made.')
+  })
+
+  it('keeps a model-written summary and replaces an older outline', () => {
+    const first = outlineSummary(['css'], 'The learner built a nav bar.')
+    assert.equal(first, 'The learner built a nav bar. Topics covered so far: css.')
+    assert.equal(outlineSummary(['javascript', 'css'], first), 'The learner built a nav bar. Topics covered so far: javascript, css.')
+    assert.equal(outlineSummary(['css'], 'Topics covered so far: html.'), 'Topics covered so far: css.')
+  })
+})
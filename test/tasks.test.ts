@@ -0,0 +1,108 @@
+/**
+ * Purpose: extractTask tests - ```task blocks, the prose fallback, which of them may replace an open step, and streams without the block.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {createTaskStreamFilter, extractTask} from '../src/agent/tasks.js'
+
+// Chat goes to a local endpoint nothing listens on, so replies take the outage fallback
+process.env.CHAT_PROVIDER = 'local'
+process.env.LOCAL_LLM_BASE_URL = 'http://127.0.0.1:9/v1'
+const {generateAssistantReply, streamAssistantReply} = await import('../src/agent/index.js')
+
+const block = (json: unknown): string => `\`\`\`task\n${JSON.stringify(json)}\n\`\`\``
+
+describe('extractTask', () => {
+  it('takes the step from a ```task block and removes it from the text', () => {
+    const reply = `Nice work on the header.\n\n${block({
+      title: 'Center the nav',
+      instructions: 'Use flexbox to center the nav links.',
+      acceptanceCriteria: ['nav has display: flex'],
+      skillKey: 'css-flexbox',
+    })}`
+    const {text, task, explicit} = extractTask(reply)
+    assert.equal(text, 'Nice work on the header.')
+    assert.equal(explicit, true)
+    assert.deepEqual(task, {
+      title: 'Center the nav',
+      instructions: 'Use flexbox to center the nav links.',
+      acceptanceCriteria: ['nav has display: flex'],
+      skillKey: 'css-flexbox',
+    })
+  })
+
+  it('strips an unterminated block from a cut-off stream', () => {
+    const {text, task} = extractTask('Try this.\n\n```task\n{"title": "Center')
+    assert.equal(text, 'Try this.')
+    assert.equal(task, undefined)
+  })
+
+  it('falls back to "Tiny step:" prose with acceptance criteria, marked as not explicit', () => {
+    const reply = [
+      'Tiny step: add a <nav> with three links. Keep it simple.',
+      '',
+      'Acceptance criteria:',
+      '- a <nav> element exists',
+      '- 3 a elements exist',
+      '',
+      'Good luck!',
+    ].join('\n')
+    const {text, task, explicit} = extractTask(reply)
+    assert.equal(text, reply)
+    assert.equal(explicit, false)
+    assert.equal(task?.title, 'Add a <nav> with three links')
+    assert.deepEqual(task?.acceptanceCriteria, ['a <nav> element exists', '3 a elements exist'])
+  })
+
+  it('uses the prose fallback when the block is invalid, still not explicit', () => {
+    const {text, task, explicit} = extractTask(`Tiny step: add a footer.\n\n${block({title: ''})}`)
+    assert.equal(text, 'Tiny step: add a footer.')
+    assert.equal(explicit, false)
+    assert.equal(task?.title, 'Add a footer')
+  })
+
+  it('finds no task in an ordinary reply', () => {
+    assert.deepEqual(extractTask('Flexbox lays items out in one direction.'), {
+      text: 'Flexbox lays items out in one direction.',
+      task: undefined,
+      explicit: false,
+    })
+  })
+})
+
+describe('createTaskStreamFilter', () => {
+  const stream = (reply: string, size: number): string => {
+    let sent = ''
+    const filter = createTaskStreamFilter((delta) => {
+      sent += delta
+    })
+    for (let i = 0; i < reply.length; i += size) filter.push(reply.slice(i, i + size))
+    filter.flush()
+    return sent
+  }
+
+  it('never sends the ```task block, however the deltas are cut', () => {
+    const reply = `\nNice work.\n\n${block({title: 'Center the nav', instructions: 'Use flexbox.'})}\n`
+    for (const size of [1, 2, 3, 5, 8, reply.length]) {
+      assert.equal(stream(reply, size), extractTask(reply.trim()).text, `deltas of ${size}`)
+    }
+  })
+
+  it('releases code fences and backticks that turn out not to open a task', () => {
+    const reply = 'Try this:\n```js\nconst task = 1\n```\nThen run ```tasks`'
+    for (const size of [1, 4, reply.length]) assert.equal(stream(reply, size), reply, `deltas of ${size}`)
+  })
+})
+
+describe('fallback replies', () => {
+  it('carry no task, so an outage never supersedes the open step', async () => {
+    const reply = await generateAssistantReply('hello')
+    assert.match(reply.text, /Tiny step:/)
+    assert.equal(reply.task, undefined)
+
+    const streamed = await streamAssistantReply('hello', undefined, undefined, {onToken: () => undefined})
+    assert.match(streamed.text, /Tiny step:/)
+    assert.equal(streamed.task, undefined)
+  })
+})
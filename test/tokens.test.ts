@@ -0,0 +1,113 @@
+/**
+ * Purpose: Design-token tests - alias chains and layers, layer-prefixed references, and cycle/missing-reference issues.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {buildTokenSet, parseTokenJson, type RawToken} from '../src/analysis/tokens.js'
+
+const token = (name: string, value: string, file = 'tokens.json'): RawToken => ({name, value, file})
+
+describe('buildTokenSet', () => {
+  it('resolves alias chains and infers layers from depth', () => {
+    const set = buildTokenSet([
+      token('color-blue-500', '#2563eb'),
+      token('color-primary', '{color.blue.500}'),
+      token('button-background', 'var(--color-primary)'),
+      token('surface-accent', '{color.primary}'),
+    ])
+
+    assert.deepEqual(set.issues, [])
+    const button = set.tokens.get('button-background')!
+    assert.equal(button.resolved, '#2563eb')
+    assert.deepEqual(button.chain, ['button-background', 'color-primary', 'color-blue-500'])
+    assert.equal(button.layer, 'components')
+    assert.equal(set.tokens.get('color-blue-500')!.layer, 'primitives')
+    assert.equal(set.tokens.get('color-primary')!.layer, 'alias')
+    assert.equal(set.tokens.get('surface-accent')!.layer, 'mapped')
+  })
+
+  it('strips a leading layer segment from references', () => {
+    const set = buildTokenSet([
+      token('color-blue', '#00f'),
+      token('link-color', '{primitives.color.blue}'),
+    ])
+
+    assert.deepEqual(set.issues, [])
+    assert.equal(set.tokens.get('link-color')!.resolved, '#00f')
+    assert.deepEqual(set.tokens.get('link-color')!.references, ['color-blue'])
+  })
+
+  it('substitutes references inside composite values', () => {
+    const set = buildTokenSet([
+      token('space-1', '4px'),
+      token('space-2', '8px'),
+      token('card-padding', '{space.1} {space.2}'),
+    ])
+
+    assert.equal(set.tokens.get('card-padding')!.resolved, '4px 8px')
+  })
+
+  it('reports a cycle once and leaves every token in it unresolved', () => {
+    const set = buildTokenSet([
+      token('color-a', '{color.b}'),
+      token('color-b', '{color.c}'),
+      token('color-c', '{color.a}'),
+      token('color-d', '{color.b}'),
+    ])
+
+    const cycles = set.issues.filter((issue) => issue.kind === 'cycle')
+    assert.equal(cycles.length, 1)
+    assert.match(cycles[0]!.message, /^Alias cycle: --color-a → --color-b → --color-c → --color-a$/)
+    for (const name of ['color-a', 'color-b', 'color-c', 'color-d']) assert.equal(set.tokens.get(name)!.resolved, null, name)
+  })
+
+  it('reports missing references with the file that declares them', () => {
+    const set = buildTokenSet([
+      token('color-primary', '{color.brand}', 'tokens/alias.json'),
+      token('text-link', 'var(--color-primary)', 'tokens/mapped.json'),
+    ])
+
+    assert.deepEqual(set.issues, [{
+      kind: 'missing-reference',
+      token: 'color-primary',
+      file: 'tokens/alias.json',
+      message: '--color-primary references --color-brand, which is not defined',
+    }])
+    assert.equal(set.tokens.get('text-link')!.resolved, null)
+    assert.deepEqual(set.files, ['tokens/alias.json', 'tokens/mapped.json'])
+  })
+})
+
+describe('buildTokenSet on wide alias graphs', () => {
+  const chain = (length: number, last: string): RawToken[] => [
+    ...Array.from({length}, (_, i) => token(`t${i}`, `{t${i + 1}} {t${i + 1}}`)),
+    token(`t${length}`, last),
+  ]
+
+  it('resolves every token once when the last reference is missing', () => {
+    const started = Date.now()
+    const set = buildTokenSet(chain(200, '{nowhere}'))
+
+    assert.ok(Date.now() - started < 1000)
+    assert.equal(set.tokens.get('t0')!.resolved, null)
+    assert.equal(set.tokens.get('t0')!.layer, 'mapped')
+    assert.deepEqual(set.issues.map((issue) => issue.kind), ['missing-reference'])
+  })
+
+  it('stops values that double at every level', () => {
+    const set = buildTokenSet(chain(200, '4px'))
+
+    assert.equal(set.tokens.get('t198')!.resolved, '4px 4px 4px 4px')
+    assert.equal(set.tokens.get('t0')!.resolved, null)
+    assert.ok(set.issues.length > 0 && set.issues.every((issue) => issue.kind === 'too-long'))
+  })
+})
+
+describe('parseTokenJson', () => {
+  it('reads DTCG leaves and takes the layer from the file name', () => {
+    const tokens = parseTokenJson({color: {blue: {$type: 'color', $value: '#00f'}}}, 'tokens/primitives.json')
+
+    assert.deepEqual(tokens, [{name: 'color-blue', value: '#00f', file: 'tokens/primitives.json', layer: 'primitives', type: 'color', description: undefined}])
+  })
+})
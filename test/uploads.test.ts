@@ -0,0 +1,51 @@
+/**
+ * Purpose: PDF upload tests - text extracted per page, with pages numbered from 1 and blank pages kept empty.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {extractPdfPages} from '../src/agent/uploads.js'
+
+/**
+ * Smallest valid PDF with one Helvetica text line per page ('' for a page without text)
+ */
+const buildPdf = (pageTexts: string[]): Buffer => {
+  const objects: string[] = []
+  const pageIds = pageTexts.map((_, index) => 4 + index * 2)
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageTexts.length} >>`
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+  pageTexts.forEach((text, index) => {
+    const stream = text ? `BT /F1 12 Tf 72 720 Td (${text}) Tj ET` : ''
+    objects[pageIds[index]!] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index]! + 1} 0 R >>`
+    objects[pageIds[index]! + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+  })
+
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`
+  }
+  const xref = pdf.length
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+  for (let id = 1; id < objects.length; id++) pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+  return Buffer.from(pdf, 'latin1')
+}
+
+describe('extractPdfPages', () => {
+  it('returns the text of every page, numbered from 1', async () => {
+    const {totalPages, pages} = await extractPdfPages(buildPdf(['Flexbox basics', 'Grid areas']))
+
+    assert.equal(totalPages, 2)
+    assert.deepEqual(pages, [{page: 1, text: 'Flexbox basics'}, {page: 2, text: 'Grid areas'}])
+  })
+
+  it('keeps pages without a text layer as empty text', async () => {
+    const {totalPages, pages} = await extractPdfPages(buildPdf(['', 'Box model']))
+
+    assert.equal(totalPages, 2)
+    assert.deepEqual(pages.map((page) => page.text), ['', 'Box model'])
+  })
+})
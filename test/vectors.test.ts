@@ -0,0 +1,69 @@
+/**
+ * Purpose: Vector store tests - embeddings sized for the vector column and ranked by cosine similarity, and reciprocal rank fusion of hybrid results.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {EMBEDDING_DIMENSIONS} from '../src/llm/provider.js'
+import {embedChunks, fuseRankings, type SearchResult} from '../src/db/vectors.js'
+
+const cosine = (a: number[], b: number[]): number => a.reduce((sum, value, i) => sum + value * b[i]!, 0)
+
+describe('embedChunks', () => {
+  it('returns one unit vector per chunk with the column dimensions', async () => {
+    const embeddings = await embedChunks(['Flexbox aligns items in a row', 'Grid places items in two dimensions'])
+
+    assert.equal(embeddings.length, 2)
+    for (const embedding of embeddings) {
+      assert.equal(embedding.length, EMBEDDING_DIMENSIONS)
+      assert.ok(Math.abs(cosine(embedding, embedding) - 1) < 1e-9)
+    }
+  })
+
+  it('ranks related text closer by cosine similarity', async () => {
+    const [query, related, unrelated] = await embedChunks(['flexbox align items', 'use flexbox to align items', 'sql joins and indexes'])
+
+    assert.ok(cosine(query!, related!) > cosine(query!, unrelated!))
+  })
+})
+
+const hit = (id: string, similarity: number): SearchResult => ({
+  id,
+  source: 'notion',
+  sourceId: id,
+  chunk: `chunk ${id}`,
+  similarity,
+  metadata: {},
+  documentId: null,
+  chunkIndex: null,
+  title: null,
+  url: null,
+  path: null,
+  headingPath: [],
+  language: null,
+  skillTags: [],
+  lastModified: null,
+})
+
+describe('fuseRankings', () => {
+  it('ranks hits found by both rankers above hits found by one', () => {
+    const fused = fuseRankings([hit('a', 0.9), hit('b', 0.8)], [hit('c', 0.2), hit('b', 0.1)], 0.3, 10)
+
+    assert.deepEqual(fused.map((result) => result.id), ['b', 'a', 'c'])
+    assert.deepEqual([fused[0]!.vectorRank, fused[0]!.lexicalRank], [2, 2])
+    assert.equal(fused[0]!.score, 2 / 62)
+    assert.equal(fused[1]!.lexicalRank, undefined)
+  })
+
+  it('drops vector hits below the threshold but keeps every lexical hit', () => {
+    const fused = fuseRankings([hit('a', 0.2)], [hit('b', 0.01)], 0.3, 10)
+
+    assert.deepEqual(fused.map((result) => result.id), ['b'])
+    assert.equal(fused[0]!.similarity, 0.01)
+  })
+
+  it('returns at most the limit', () => {
+    const vector = ['a', 'b', 'c', 'd'].map((id) => hit(id, 0.9))
+    assert.deepEqual(fuseRankings(vector, [], 0.3, 2).map((result) => result.id), ['a', 'b'])
+  })
+})
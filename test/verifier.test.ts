@@ -0,0 +1,114 @@
+/**
+ * Purpose: Verifier tests - acceptance-criteria parsing, checks run against uploaded pages, and the sandbox boundary.
+ * Example: npm test
+ */
+import assert from 'node:assert/strict'
+import net from 'node:net'
+import {describe, it} from 'node:test'
+import {parseCheck} from '../src/analysis/checks.js'
+import {verifyProject} from '../src/analysis/verifier.js'
+import type {SourceFile} from '../src/analysis/files.js'
+
+const page = (body: string, extra: SourceFile[] = []): SourceFile[] => [
+  {path: 'index.html', language: 'html', content: `<!doctype html><html><head><link rel="stylesheet" href="style.css"></head><body>${body}</body></html>`},
+  {path: 'style.css', language: 'css', content: '.card { display: flex; gap: 8px }'},
+  ...extra,
+]
+
+describe('parseCheck', () => {
+  it('understands the common acceptance-criteria phrasings', () => {
+    assert.deepEqual(parseCheck('clicking #btn changes #out text to "Clicked"'), {
+      type: 'click', selector: '#btn', target: '#out', text: 'Clicked', description: 'clicking #btn changes #out text to "Clicked"',
+    })
+    assert.deepEqual(parseCheck('.card has display: flex'), {
+      type: 'style', selector: '.card', property: 'display', value: 'flex', description: '.card has display: flex',
+    })
+    assert.deepEqual(parseCheck('an h1 with text "Hello" exists'), {
+      type: 'exists', selector: 'h1', text: 'Hello', description: 'an h1 with text "Hello" exists',
+    })
+    assert.deepEqual(parseCheck('img has an alt attribute'), {
+      type: 'attribute', selector: 'img', name: 'alt', description: 'img has an alt attribute',
+    })
+    assert.deepEqual(parseCheck('3 li elements exist'), {
+      type: 'exists', selector: 'li', count: 3, description: '3 li elements exist',
+    })
+  })
+
+  it('leaves prose it cannot check unparsed', () => {
+    assert.equal(parseCheck('the page looks friendly'), undefined)
+  })
+})
+
+describe('verifyProject', () => {
+  it('passes and fails criteria against the uploaded page', async () => {
+    const files = page(
+      '<h1>Hello</h1><div class="card"></div><button id="btn">Go</button><p id="out">Waiting</p>' +
+      '<script>document.getElementById("btn").addEventListener("click", () => { document.getElementById("out").textContent = "Clicked" })</script>'
+    )
+    const report = await verifyProject(files, [
+      'an h1 with text "Hello" exists',
+      '.card has display: flex',
+      'clicking #btn changes #out text to "Clicked"',
+      'img has an alt attribute',
+      'the page looks friendly',
+    ])
+    assert.deepEqual(report.results.map((result) => result.status), ['pass', 'pass', 'pass', 'fail', 'unsupported'])
+    assert.equal(report.passed, false)
+    assert.equal(report.entry, 'index.html')
+  })
+
+  it('stops infinite loops with the script timeout', async () => {
+    const report = await verifyProject(page('<h1>Hi</h1><script>while (true) {}</script>'), ['h1 exists'], {scriptTimeoutMs: 200})
+    assert.equal(report.results[0]!.status, 'pass')
+    assert.ok(report.errors.some((error) => /timed out/.test(error)))
+  })
+
+  it('keeps page code away from Node', async () => {
+    const escape = [
+      'let result = "contained"',
+      'try {',
+      '  const host = document.querySelector("h1").constructor.constructor.constructor("return this")()',
+      '  result = String(host.process.getBuiltinModule("child_process").execSync("id"))',
+      '} catch (err) { result = "blocked: " + err.message }',
+      'document.querySelector("h1").textContent = result',
+    ].join('\n')
+    const report = await verifyProject(page(`<h1>Hi</h1><script>${escape}</script>`), [{type: 'exists', selector: 'h1', text: 'blocked'}])
+    assert.equal(report.results[0]!.status, 'pass', report.results[0]!.message)
+  })
+
+  it('blocks network access from the page', async () => {
+    const script = 'try { new XMLHttpRequest() } catch (err) { document.querySelector("h1").textContent = err.message }'
+    const report = await verifyProject(page(`<h1>Hi</h1><script>${script}</script>`), [{type: 'exists', selector: 'h1', text: 'Network access is disabled'}])
+    assert.equal(report.results[0]!.status, 'pass', report.results[0]!.message)
+  })
+
+  it('blocks network access from frames the page creates', async () => {
+    const connections: string[] = []
+    const server = net.createServer((socket) => {
+      connections.push('connected')
+      socket.destroy()
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const {port} = server.address() as net.AddressInfo
+    const script = [
+      'const frame = document.body.appendChild(document.createElement("iframe")).contentWindow',
+      'const results = []',
+      `try { const xhr = new frame.XMLHttpRequest(); xhr.open("GET", "http://127.0.0.1:${port}/"); xhr.send(); results.push("xhr open") } catch (err) { results.push(err.message) }`,
+      `try { new frame.WebSocket("ws://127.0.0.1:${port}/"); results.push("socket open") } catch (err) { results.push(err.message) }`,
+      'document.querySelector("h1").textContent = results.join(" | ")',
+    ].join('\n')
+    try {
+      const report = await verifyProject(page(`<h1>Hi</h1><script>${script}</script>`), ['h1 has text "Network access is disabled in the verifier sandbox | Network access is disabled in the verifier sandbox"'])
+      assert.equal(report.results[0]!.status, 'pass', report.results[0]!.message)
+      await new Promise((resolve) => setTimeout(resolve, 200))
+      assert.deepEqual(connections, [])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('still lets the page compile its own strings', async () => {
+    const report = await verifyProject(page('<h1>Hi</h1><script>document.querySelector("h1").textContent = eval("\\"Hel\\" + \\"lo\\"")</script>'), ['h1 has text "Hello"'])
+    assert.equal(report.results[0]!.status, 'pass', report.results[0]!.message)
+  })
+})